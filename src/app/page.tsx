@@ -8,7 +8,7 @@ import RoomLobby from '@/components/game/RoomLobby';
 import MatchFlow from '@/components/game/MatchFlow';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { GameConfig, AgentStats, Agent, Team, GamePhase, MatchState } from '@/types/game';
+import { GameConfig, AgentStats, AgentProfile, AgentRole, AGENT_ROLES, Team, GamePhase, MatchState } from '@/types/game';
 import { toast } from 'sonner';
 import { AlertCircle, RefreshCcw, Shield, Swords, Brain, Trophy } from 'lucide-react';
 
@@ -20,13 +20,8 @@ const DIFFICULTY_MODIFIERS = {
   expert: 1.2
 } as const;
 
-const DEFAULT_BOT_ROLES = [
-  'Entry Fragger',
-  'Support',
-  'In-Game Leader',
-  'AWPer',
-  'Support'
-] as const;
+// Bots field one agent per role so every role-specific behavior is exercised
+const DEFAULT_BOT_ROLES = AGENT_ROLES;
 
 const DEFAULT_BOT_NAMES = [
   'Bot_Alpha',
@@ -36,7 +31,7 @@ const DEFAULT_BOT_NAMES = [
   'Bot_Echo'
 ] as const;
 
-const ROLE_BOOSTS: Record<string, Partial<AgentStats>> = {
+const ROLE_BOOSTS: Record<AgentRole, Partial<AgentStats>> = {
   'Entry Fragger': { aim: 0.2, reaction: 0.2 },
   'Support': { utility: 0.2, positioning: 0.2 },
   'In-Game Leader': { leadership: 0.3, utility: 0.1 },
@@ -56,9 +51,9 @@ const BASE_STATS: AgentStats = {
 // Helper Functions
 const generateDefaultStats = (
   difficulty: number = 0.7,
-  role: string
+  role: AgentRole
 ): AgentStats => {
-  const boost = ROLE_BOOSTS[role] || {};
+  const boost = ROLE_BOOSTS[role];
   const stats = { ...BASE_STATS };
 
   Object.keys(stats).forEach(key => {
@@ -73,8 +68,8 @@ const generateDefaultStats = (
 };
 
 const createInitialMatchState = (
-  playerTeam: Agent[],
-  botTeam: Agent[],
+  playerTeam: AgentProfile[],
+  botTeam: AgentProfile[],
   startingSide: 't' | 'ct'
 ): MatchState => ({
   round: 1,
@@ -195,7 +190,7 @@ const MainMenu: React.FC<{
 );
 
 const GameContent: React.FC = () => {
-  const { matchState, setMatchState, startMatch, controller } = useGame();
+  const { state, matchState, setMatchState, startMatch, controller } = useGame();
   const [mounted, setMounted] = useState(false);
   const [view, setView] = useState<'menu' | 'agents' | 'lobby' | 'match'>('menu');
   const [selectedTeam, setSelectedTeam] = useState<Team | null>(null);
@@ -218,35 +213,14 @@ const GameContent: React.FC = () => {
     checkSavedGame();
   }, [controller]);
 
-  const generateBotTeam = useCallback((config: GameConfig): Agent[] => {
-    const botSide = config.startingSide === 't' ? 'ct' : 't';
+  const generateBotTeam = useCallback((config: GameConfig): AgentProfile[] => {
     const difficultyModifier = DIFFICULTY_MODIFIERS[config.difficulty] || 0.85;
 
-    return Array.from({ length: 5 }, (_, i) => ({
+    return DEFAULT_BOT_ROLES.map((role, i) => ({
       id: `bot-${i}`,
       name: DEFAULT_BOT_NAMES[i],
-      team: botSide,
-      role: DEFAULT_BOT_ROLES[i],
-      position: { x: botSide === 'ct' ? 230 : 60, y: 170 },
-      health: 100,
-      armor: 0,
-      weapons: [botSide === 't' ? 'glock' : 'usp'],
-      equipment: [],
-      isAlive: true,
-      stats: generateDefaultStats(difficultyModifier, DEFAULT_BOT_ROLES[i]),
-      matchStats: {
-        kills: 0,
-        deaths: 0,
-        assists: 0,
-        utilityDamage: 0,
-        flashAssists: 0
-      },
-      strategyStats: {
-        utilityUsage: 0,
-        positioningScore: 0,
-        strategyAdherence: 0,
-        impactRating: 0
-      }
+      role,
+      stats: generateDefaultStats(difficultyModifier, role)
     }));
   }, []);
 
@@ -265,29 +239,11 @@ const GameContent: React.FC = () => {
     try {
       setIsInitializing(true);
       const botTeam = generateBotTeam(config);
-      const playerTeam = selectedTeam.agents.map(agent => ({
-        ...agent,
-        team: config.startingSide,
-        position: { x: config.startingSide === 't' ? 60 : 230, y: 180 },
-        health: 100,
-        armor: 0,
-        weapons: [config.startingSide === 't' ? 'glock' : 'usp'],
-        equipment: [],
-        isAlive: true,
-        stats: agent.stats || generateDefaultStats(0.85, agent.role),
-        matchStats: {
-          kills: 0,
-          deaths: 0,
-          assists: 0,
-          utilityDamage: 0,
-          flashAssists: 0
-        },
-        strategyStats: {
-          utilityUsage: 0,
-          positioningScore: 0,
-          strategyAdherence: 0,
-          impactRating: 0
-        }
+      const playerTeam: AgentProfile[] = selectedTeam.agents.map(agent => ({
+        id: agent.id,
+        name: agent.name,
+        role: agent.role,
+        stats: agent.stats || generateDefaultStats(0.85, agent.role)
       }));
 
       const initialState = createInitialMatchState(
@@ -367,6 +323,7 @@ const GameContent: React.FC = () => {
           onTimeUpdate={handleTimeUpdate}
           onStrategyChange={handleStrategyChange}
           onMidRoundCall={handleMidRoundCall}
+          scouting={state.round.scouting}
         />
         <MatchView />
       </div>
@@ -378,7 +335,8 @@ const GameContent: React.FC = () => {
     handlePhaseEnd,
     handleTimeUpdate,
     handleStrategyChange,
-    handleMidRoundCall
+    handleMidRoundCall,
+    state.round.scouting
   ]);
 
   if (!mounted || isInitializing) {
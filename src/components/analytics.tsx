@@ -53,8 +53,8 @@ export function trackMatchStats(stats: MatchStats) {
 export function trackCombatResult(result: CombatResult) {
   console.info('Combat Result:', {
     type: result.type,
-    killerId: result.killerId,
-    victimId: result.victimId,
+    killerId: result.attacker.id,
+    victimId: result.victim?.id,
     weapon: result.weapon,
     damage: result.damage,
     isHeadshot: result.isHeadshot,
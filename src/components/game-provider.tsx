@@ -10,118 +10,23 @@ import React, {
 } from 'react';
 import { toast } from 'sonner';
 import GameController from '@/lib/GameController';
+import { DEFAULT_MAP_ID } from '@/lib/maps';
+import { getRules } from '@/lib/rules';
+import type { GameState, MatchConfig } from '@/types/game';
 
-// Keep all your existing interfaces
-interface Position {
-  x: number;
-  y: number;
-}
-
-interface AgentStats {
-  aim: number;
-  reaction: number;
-  positioning: number;
-  utility: number;
-  leadership: number;
-  clutch: number;
-}
-
-interface Agent {
-  id: string;
-  name: string;
-  role: string;
-  team: 't' | 'ct';
-  position: Position;
-  isAlive: boolean;
-  health: number;
-  armor: number;
-  weapons: string[];
-  equipment: string[];
-  stats: AgentStats;
-  matchStats: {
-    kills: number;
-    deaths: number;
-    assists: number;
-    utilityDamage: number;
-    flashAssists: number;
-  };
-  strategyStats: {
-    utilityUsage: number;
-    positioningScore: number;
-    strategyAdherence: number;
-    impactRating: number;
-  };
-}
-
-interface Team {
-  money: number;
-  roundWins: number;
-  lossBonus: number;
-  timeoutAvailable: boolean;
-  strategy: string;
-  agents: Agent[];
-  strategyStats: {
-    roundsWonWithStrategy: { [key: string]: number };
-    strategySuccessRate: number;
-    lastSuccessfulStrategy: string;
-  };
-}
-
-interface GameState {
-  match: {
-    id: string;
-    status: 'pending' | 'active' | 'paused' | 'ended';
-    currentRound: number;
-    maxRounds: number;
-    score: { t: number; ct: number };
-    winner: 't' | 'ct' | null;
-    startTime: number | null;
-    endTime: number | null;
-  };
-  round: {
-    phase: 'warmup' | 'freezetime' | 'live' | 'planted' | 'ended';
-    timeLeft: number;
-    bombPlanted: boolean;
-    bombSite: 'A' | 'B' | null;
-    plantTime: number | null;
-    winner: 't' | 'ct' | null;
-    endReason: string | null;
-    currentStrategy: {
-      t: string;
-      ct: string;
-    };
-    activeCall: string | null;
-  };
-  teams: {
-    t: Team;
-    ct: Team;
-  };
-  events: any[];
-  combatResult: any | null;
-}
-
-interface GameConfig {
-  maxRounds: number;
-  startingSide: 't' | 'ct';
-  initialStrategy: string;
-  difficulty: string;
-}
 
 interface GameContextType {
   state: GameState;
   controller: GameController;
   actions: {
-    startMatch: (config: {
-      playerTeam: Agent[];
-      botTeam: Agent[];
-      config: GameConfig;
-    }) => Promise<void>;
+    startMatch: (config: MatchConfig) => Promise<void>;
     updateStrategy: (side: 't' | 'ct', strategy: string) => void;
     processBuy: (side: 't' | 'ct', agentId: string, loadout: {
       weapons: string[];
       equipment: string[];
       total: number;
-    }) => void;
+    }) => boolean;
+    processDrop: (side: 't' | 'ct', donorId: string, recipientId: string, weapon: string) => boolean;
     makeMidRoundCall: (side: 't' | 'ct', call: string) => void;
     pauseMatch: () => void;
     resumeMatch: () => void;
@@ -135,6 +40,8 @@ interface GameProviderProps {
   initialState?: Partial<GameState>;
 }
 
+const defaultRules = getRules();
+
 const defaultGameState: GameState = {
   match: {
     id: '',
@@ -142,13 +49,20 @@ const defaultGameState: GameState = {
     currentRound: 1,
     maxRounds: 30,
     score: { t: 0, ct: 0 },
+    rules: defaultRules,
+    halftime: null,
     winner: null,
     startTime: null,
-    endTime: null
+    endTime: null,
+    map: {
+      name: DEFAULT_MAP_ID,
+      areas: [],
+      callouts: {}
+    }
   },
   round: {
     phase: 'warmup',
-    timeLeft: 15,
+    timeLeft: defaultRules.warmupTime,
     bombPlanted: false,
     bombSite: null,
     plantTime: null,
@@ -158,7 +72,20 @@ const defaultGameState: GameState = {
       t: 'default',
       ct: 'default'
     },
-    activeCall: null
+    activeCalls: { t: null, ct: null },
+    callHistory: [],
+    duels: [],
+    utility: [],
+    lineups: [],
+    bomb: { carrierId: null, position: null, action: null },
+    groundWeapons: [],
+    drops: [],
+    economyReport: null,
+    scouting: null,
+    momentum: {
+      team: null,
+      factor: 0
+    }
   },
   teams: {
     t: {
@@ -168,6 +95,7 @@ const defaultGameState: GameState = {
       timeoutAvailable: true,
       strategy: 'default',
       agents: [],
+      economy: null,
       strategyStats: {
         roundsWonWithStrategy: {},
         strategySuccessRate: 0,
@@ -181,6 +109,7 @@ const defaultGameState: GameState = {
       timeoutAvailable: true,
       strategy: 'default',
       agents: [],
+      economy: null,
       strategyStats: {
         roundsWonWithStrategy: {},
         strategySuccessRate: 0,
@@ -189,7 +118,13 @@ const defaultGameState: GameState = {
     }
   },
   events: [],
-  combatResult: null
+  combatResult: null,
+  meta: {
+    version: '1.0.0',
+    timestamp: 0,
+    tickRate: defaultRules.tickRate,
+    seed: 0
+  }
 };
 
 const GameContext = createContext<GameContextType | null>(null);
@@ -209,7 +144,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
   useEffect(() => {
     try {
       setMounted(true);
-      const newController = new GameController();
+      const newController = GameController.getInstance();
       
       // Initialize controller with default state
       newController.setState(gameState);
@@ -257,11 +192,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
   }, [controller, mounted, initialState]);
 
   // Game actions
-  const startMatch = useCallback(async (config: {
-    playerTeam: Agent[],
-    botTeam: Agent[],
-    config: GameConfig
-  }) => {
+  const startMatch = useCallback(async (config: MatchConfig) => {
     if (!controller) {
       toast.error('Game controller not initialized');
       return;
@@ -316,14 +247,32 @@ export const GameProvider: React.FC<GameProviderProps> = ({
   }) => {
     if (!controller) {
       toast.error('Game controller not initialized');
-      return;
+      return false;
     }
     try {
       controller.processBuy(side, agentId, loadout);
       // State update handled by controller subscription
+      return true;
     } catch (error) {
       console.error('Failed to process buy:', error);
       toast.error('Failed to process buy');
+      return false;
+    }
+  }, [controller]);
+
+  const processDrop = useCallback((side: 't' | 'ct', donorId: string, recipientId: string, weapon: string) => {
+    if (!controller) {
+      toast.error('Game controller not initialized');
+      return false;
+    }
+    try {
+      controller.processDrop(side, donorId, recipientId, weapon);
+      // State update handled by controller subscription
+      return true;
+    } catch (error) {
+      console.error('Failed to process drop:', error);
+      toast.error('Failed to drop weapon');
+      return false;
     }
   }, [controller]);
 
@@ -334,13 +283,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     }
     try {
       controller.makeMidRoundCall(side, call);
-      setGameState(prevState => ({
-        ...prevState,
-        round: {
-          ...prevState.round,
-          activeCall: call
-        }
-      }));
+      // State update handled by controller subscription
     } catch (error) {
       console.error('Failed to make mid-round call:', error);
       toast.error('Failed to make mid-round call');
@@ -434,6 +377,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
       startMatch,
       updateStrategy,
       processBuy,
+      processDrop,
       makeMidRoundCall,
       pauseMatch,
       resumeMatch,
@@ -446,6 +390,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({
     startMatch,
     updateStrategy,
     processBuy,
+    processDrop,
     makeMidRoundCall,
     pauseMatch,
     resumeMatch,
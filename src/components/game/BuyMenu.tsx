@@ -3,9 +3,11 @@
 import React, { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Shield, Zap, Target, DollarSign } from 'lucide-react';
+import { Shield, Zap, Target, DollarSign, X } from 'lucide-react';
 import { useGame } from '@/components/game-provider';
 import { toast } from 'sonner';
+import { EQUIPMENT, WEAPONS, canBuy, getPrimaryWeapon } from '@/lib/weapons';
+import type { Agent, AgentRole, BuyType, Team } from '@/types/game';
 
 interface Loadout {
   weapons: string[];
@@ -13,43 +15,19 @@ interface Loadout {
   total: number;
 }
 
-interface WeaponInfo {
-  name: string;
-  cost: number;
-  type: 'pistol' | 'smg' | 'rifle' | 'sniper';
-  recommendedFor: string[];
-  icon?: string;
+interface BuyMenuProps {
+  team: Team;
+  onClose?: () => void;
 }
 
-interface EquipmentInfo {
-  name: string;
-  cost: number;
-  type: 'armor' | 'utility';
-  priority: number;
-  icon?: string;
-}
-
-const WEAPONS: { [key: string]: WeaponInfo } = {
-  glock: { name: 'Glock', cost: 200, type: 'pistol', recommendedFor: ['Entry Fragger'] },
-  usp: { name: 'USP', cost: 200, type: 'pistol', recommendedFor: ['Support'] },
-  deagle: { name: 'Desert Eagle', cost: 700, type: 'pistol', recommendedFor: ['AWPer', 'Entry Fragger'] },
-  mac10: { name: 'MAC-10', cost: 1050, type: 'smg', recommendedFor: ['Entry Fragger', 'Lurker'] },
-  mp9: { name: 'MP9', cost: 1250, type: 'smg', recommendedFor: ['Support', 'In-Game Leader'] },
-  ak47: { name: 'AK-47', cost: 2700, type: 'rifle', recommendedFor: ['Entry Fragger', 'Lurker'] },
-  m4a4: { name: 'M4A4', cost: 3100, type: 'rifle', recommendedFor: ['Support', 'In-Game Leader'] },
-  awp: { name: 'AWP', cost: 4750, type: 'sniper', recommendedFor: ['AWPer'] }
-};
-
-const EQUIPMENT: { [key: string]: EquipmentInfo } = {
-  kevlar: { name: 'Kevlar Vest', cost: 650, type: 'armor', priority: 1 },
-  helmet: { name: 'Helmet', cost: 350, type: 'armor', priority: 2 },
-  flash: { name: 'Flashbang', cost: 200, type: 'utility', priority: 4 },
-  smoke: { name: 'Smoke Grenade', cost: 300, type: 'utility', priority: 5 },
-  molotov: { name: 'Molotov', cost: 400, type: 'utility', priority: 6 },
-  defuse: { name: 'Defuse Kit', cost: 400, type: 'utility', priority: 3 }
+const BUY_TYPE_LABELS: Record<BuyType, string> = {
+  full: 'Full Buy',
+  force: 'Force Buy',
+  half: 'Half Buy',
+  save: 'Save'
 };
 
-const STRATEGY_LOADOUTS = {
+const STRATEGY_LOADOUTS: Record<string, Record<AgentRole, string[]>> = {
   rush_b: {
     'Entry Fragger': ['mac10', 'flash', 'flash'],
     'Support': ['mp9', 'smoke', 'flash'],
@@ -80,16 +58,24 @@ const STRATEGY_LOADOUTS = {
   }
 };
 
-const BuyMenu: React.FC = () => {
-  const { gameState, buyEquipment } = useGame();
+const BuyMenu: React.FC<BuyMenuProps> = ({ team, onClose }) => {
+  const { state, actions } = useGame();
   const [loadout, setLoadout] = useState<Loadout>({ weapons: [], equipment: [], total: 0 });
   const [recommendedLoadout, setRecommendedLoadout] = useState<Loadout | null>(null);
-
-  // Get current player's team and money
-  const currentTeam = gameState.teams[gameState.currentPlayer?.team || 't'];
-  const money = currentTeam?.money || 0;
-  const strategy = gameState.round.currentStrategy[gameState.currentPlayer?.team || 't'] || 'default';
-  const agent = gameState.currentPlayer;
+  const [agentId, setAgentId] = useState<string | null>(team.agents[0]?.id ?? null);
+
+  // Buys come out of the selected agent's own wallet
+  const agent = team.agents.find(member => member.id === agentId) ?? null;
+  const strategy = agent ? state.round.currentStrategy[agent.team] || 'default' : 'default';
+  const money = agent?.economy?.current || 0;
+  const plan = team.economy;
+
+  // The provider reports a refused buy itself, so only an accepted one is confirmed
+  const buyEquipment = (loadout: Loadout) => {
+    if (!agent || !actions.processBuy(agent.team, agent.id, loadout)) return;
+    setLoadout(loadout);
+    toast.success('Equipment purchased successfully');
+  };
 
   useEffect(() => {
     if (!agent?.role) return;
@@ -97,7 +83,7 @@ const BuyMenu: React.FC = () => {
     try {
       const strategyLoadout = STRATEGY_LOADOUTS[strategy]?.[agent.role] || STRATEGY_LOADOUTS.default[agent.role];
       if (strategyLoadout) {
-        const weapons = strategyLoadout.filter(item => WEAPONS[item]);
+        const weapons = strategyLoadout.filter(item => WEAPONS[item] && canBuy(item, agent.team));
         const equipment = strategyLoadout.filter(item => EQUIPMENT[item]);
         const total = calculateLoadoutCost(weapons, equipment);
 
@@ -111,7 +97,7 @@ const BuyMenu: React.FC = () => {
       console.error('Error generating recommended loadout:', error);
       toast.error('Failed to generate recommended loadout');
     }
-  }, [strategy, agent?.role]);
+  }, [strategy, agent?.role, agent?.team]);
 
   const calculateLoadoutCost = (weapons: string[], equipment: string[]): number => {
     const weaponsCost = weapons.reduce((sum, weapon) => sum + (WEAPONS[weapon]?.cost || 0), 0);
@@ -121,7 +107,7 @@ const BuyMenu: React.FC = () => {
 
   const handleBuyStrategy = (buyType: 'full' | 'semi' | 'eco') => {
     if (!agent) {
-      toast.error('No active player selected');
+      toast.error('No agent selected');
       return;
     }
 
@@ -131,22 +117,20 @@ const BuyMenu: React.FC = () => {
 
       switch (buyType) {
         case 'full':
-          maxSpend = Math.min(money, 4500);
+          maxSpend = Math.min(money, fullBuyCap);
           suggestedLoadout = getStrategyBasedLoadout(maxSpend);
           break;
         case 'semi':
-          maxSpend = Math.min(money, 2500);
+          maxSpend = Math.min(money, forceBuyCost);
           suggestedLoadout = getEconomyLoadout(maxSpend);
           break;
         case 'eco':
-          maxSpend = Math.min(money, 1000);
-          suggestedLoadout = getEcoLoadout();
+          maxSpend = Math.min(money, ecoBuyCap);
+          suggestedLoadout = getEcoLoadout(maxSpend);
           break;
       }
 
-      setLoadout(suggestedLoadout);
-      buyEquipment(agent, suggestedLoadout);
-      toast.success('Equipment purchased successfully');
+      buyEquipment(suggestedLoadout);
     } catch (error) {
       console.error('Error buying equipment:', error);
       toast.error('Failed to purchase equipment');
@@ -165,7 +149,7 @@ const BuyMenu: React.FC = () => {
     let remainingMoney = maxSpend;
 
     for (const item of strategyLoadout) {
-      if (WEAPONS[item] && WEAPONS[item].cost <= remainingMoney) {
+      if (WEAPONS[item] && canBuy(item, agent.team) && WEAPONS[item].cost <= remainingMoney) {
         weapons.push(item);
         remainingMoney -= WEAPONS[item].cost;
       } else if (EQUIPMENT[item] && EQUIPMENT[item].cost <= remainingMoney) {
@@ -198,10 +182,54 @@ const BuyMenu: React.FC = () => {
     return { weapons, equipment, total };
   };
 
-  const getEcoLoadout = (): Loadout => {
-    const weapons = [agent?.team === 't' ? 'glock' : 'usp'];
-    const equipment = money >= 650 ? ['kevlar'] : [];
-    const total = WEAPONS[weapons[0]].cost + (equipment.length ? EQUIPMENT.kevlar.cost : 0);
+  // The best rifle the selected agent can afford for a teammate's role
+  const getDropWeapon = (recipient: Agent): string | null => {
+    const options = Object.entries(WEAPONS)
+      .filter(([id, weapon]) => (
+        (weapon.type === 'rifle' || weapon.type === 'sniper') && weapon.cost <= money && canBuy(id, recipient.team)
+      ))
+      .sort((a, b) => {
+        const aPreferred = a[1].preferredBy.includes(recipient.role) ? 1 : 0;
+        const bPreferred = b[1].preferredBy.includes(recipient.role) ? 1 : 0;
+        if (aPreferred !== bPreferred) return bPreferred - aPreferred;
+        return b[1].cost - a[1].cost;
+      });
+    return options[0]?.[0] ?? null;
+  };
+
+  const dropTargets = team.agents
+    .filter(member => member.id !== agentId && getPrimaryWeapon(member.weapons)?.type === 'pistol')
+    .map(member => ({ member, weapon: getDropWeapon(member) }))
+    .filter((target): target is { member: Agent; weapon: string } => target.weapon !== null);
+
+  const handleDrop = (recipient: Agent, weapon: string) => {
+    if (!agent) return;
+
+    // The provider reports a refused drop itself, so success is only shown once it went through
+    if (actions.processDrop(agent.team, agent.id, recipient.id, weapon)) {
+      toast.success(`${agent.name} dropped ${WEAPONS[weapon].name} for ${recipient.name}`);
+    }
+  };
+
+  // Quick-buy thresholds and spend caps are priced from the catalogue: the strategy's
+  // guns with full armor for a full buy (capped at its utility on top), the economy
+  // loadout for a force and the side's pistol with kevlar for an eco
+  const strategyItems = agent
+    ? (STRATEGY_LOADOUTS[strategy]?.[agent.role] || STRATEGY_LOADOUTS.default[agent.role])
+    : [];
+  const strategyWeapons = agent ? strategyItems.filter(item => WEAPONS[item] && canBuy(item, agent.team)) : [];
+  const fullBuyCost = agent ? calculateLoadoutCost(strategyWeapons, ['kevlar', 'helmet']) : 0;
+  const fullBuyCap = agent
+    ? calculateLoadoutCost(strategyWeapons, [...strategyItems.filter(item => EQUIPMENT[item]), 'kevlar', 'helmet'])
+    : 0;
+  const forceBuyCost = getEconomyLoadout(money).total;
+  const ecoPistol = agent?.team === 't' ? 'glock' : 'usp';
+  const ecoBuyCap = calculateLoadoutCost([ecoPistol], ['kevlar']);
+
+  const getEcoLoadout = (maxSpend: number): Loadout => {
+    const weapons = [ecoPistol];
+    const equipment = maxSpend >= ecoBuyCap ? ['kevlar'] : [];
+    const total = calculateLoadoutCost(weapons, equipment);
     return { weapons, equipment, total };
   };
 
@@ -248,7 +276,7 @@ const BuyMenu: React.FC = () => {
     return (
       <Card className="w-full max-w-md bg-gray-800">
         <div className="p-6 text-center text-gray-400">
-          No active player selected
+          No agent selected
         </div>
       </Card>
     );
@@ -262,19 +290,56 @@ const BuyMenu: React.FC = () => {
           <div className="flex items-center gap-2">
             <DollarSign className="w-5 h-5 text-green-400" />
             <span className="text-xl font-bold text-green-400">${money}</span>
+            {onClose && (
+              <Button variant="ghost" size="sm" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         </div>
 
+        <div className="grid grid-cols-5 gap-1 mb-4">
+          {team.agents.map(member => (
+            <Button
+              key={member.id}
+              size="sm"
+              variant={member.id === agentId ? 'default' : 'outline'}
+              onClick={() => setAgentId(member.id)}
+              className="flex flex-col h-auto py-1"
+            >
+              <span className="truncate w-full text-xs">{member.name}</span>
+              <span className="text-xs text-green-400">${member.economy.current}</span>
+            </Button>
+          ))}
+        </div>
+
+        {plan && (
+          <div className="mb-4 p-3 bg-gray-700 rounded text-white">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm text-gray-400 flex items-center gap-2">
+                <Zap className="w-4 h-4" />
+                Team call:
+              </span>
+              <span className="font-bold">{BUY_TYPE_LABELS[plan.buyType]}</span>
+            </div>
+            <ul className="text-sm text-gray-300 list-disc pl-5 space-y-1">
+              {plan.reasons.map(reason => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+            <div className="mt-2 text-xs text-gray-400">
+              Team ${plan.teamMoney} · at least ${plan.minimumNextRound} next round
+            </div>
+          </div>
+        )}
+
         {recommendedLoadout && (
           <div className="mb-4 p-2 bg-gray-700 rounded">
             <div className="text-sm text-gray-400 mb-2">Recommended for {strategy}:</div>
             <LoadoutDisplay loadout={recommendedLoadout} />
             <Button
               className="w-full mt-2 bg-blue-600"
-              onClick={() => {
-                setLoadout(recommendedLoadout);
-                buyEquipment(agent, recommendedLoadout);
-              }}
+              onClick={() => buyEquipment(recommendedLoadout)}
               disabled={recommendedLoadout.total > money}
             >
               Buy Recommended (${recommendedLoadout.total})
@@ -286,27 +351,44 @@ const BuyMenu: React.FC = () => {
           <Button 
             className="w-full"
             onClick={() => handleBuyStrategy('full')}
-            disabled={money < 4000}
+            disabled={money < fullBuyCost}
           >
-            Full Buy (${money >= 4000 ? '4000+' : 'Not enough money'})
+            Full Buy (${money >= fullBuyCost ? `${fullBuyCost}+` : 'Not enough money'})
           </Button>
 
           <Button 
             className="w-full"
             onClick={() => handleBuyStrategy('semi')}
-            disabled={money < 2500}
+            disabled={money < forceBuyCost}
           >
-            Force Buy (${money >= 2500 ? '2500-4000' : 'Not enough money'})
+            Force Buy (${money >= forceBuyCost ? forceBuyCost : 'Not enough money'})
           </Button>
 
           <Button 
             className="w-full"
             onClick={() => handleBuyStrategy('eco')}
           >
-            Eco (Max $2000)
+            Eco (Max ${ecoBuyCap})
           </Button>
         </div>
 
+        {dropTargets.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <div className="text-sm text-gray-400">Drop for a teammate:</div>
+            {dropTargets.map(({ member, weapon }) => (
+              <Button
+                key={member.id}
+                variant="outline"
+                className="w-full justify-between"
+                onClick={() => handleDrop(member, weapon)}
+              >
+                <span>{WEAPONS[weapon].name} → {member.name}</span>
+                <span className="text-green-400">${WEAPONS[weapon].cost}</span>
+              </Button>
+            ))}
+          </div>
+        )}
+
         {loadout.weapons.length > 0 && <LoadoutDisplay loadout={loadout} />}
       </div>
     </Card>
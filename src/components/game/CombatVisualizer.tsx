@@ -12,34 +12,8 @@ import {
 } from 'lucide-react';
 import { useGame } from '@/components/game-provider';
 import { toast } from 'sonner';
-
-interface CombatResult {
-  id: string;
-  type: 'kill' | 'damage' | 'utility' | 'trade' | 'assist';
-  attacker: {
-    id: string;
-    name: string;
-    team: 't' | 'ct';
-    role: string;
-  };
-  victim?: {
-    id: string;
-    name: string;
-    team: 't' | 'ct';
-    role: string;
-  };
-  weapon?: string;
-  damage?: number;
-  isHeadshot?: boolean;
-  isStrategyKill?: boolean;
-  isTradeKill?: boolean;
-  isWallbang?: boolean;
-  position?: {
-    x: number;
-    y: number;
-  };
-  timestamp: number;
-}
+import { getItemName, getWeapon, isWeapon } from '@/lib/weapons';
+import type { CombatResult } from '@/types/game';
 
 interface CombatVisualizerProps {
   combatResult: CombatResult;
@@ -97,16 +71,8 @@ const CombatVisualizer: React.FC<CombatVisualizerProps> = ({
   };
 
   const getWeaponDisplay = (weapon: string) => {
-    const weaponIcons: { [key: string]: string } = {
-      'ak47': '🔫 AK-47',
-      'm4a4': '🔫 M4A4',
-      'awp': '🎯 AWP',
-      'deagle': '🔫 Desert Eagle',
-      'flash': '💥 Flash',
-      'smoke': '💨 Smoke',
-      'molotov': '🔥 Molotov',
-    };
-    return weaponIcons[weapon] || weapon;
+    const icon = isWeapon(weapon) && getWeapon(weapon).type === 'sniper' ? '🎯' : '🔫';
+    return isWeapon(weapon) ? `${icon} ${getItemName(weapon)}` : getItemName(weapon);
   };
 
   const getEventDescription = () => {
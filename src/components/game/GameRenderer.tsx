@@ -5,116 +5,20 @@ import { Card } from '@/components/ui/card';
 import { useGame } from '@/components/game-provider';
 import { toast } from 'sonner';
 import { cn } from "@/lib/utils";
-import type { GameState, Position, Agent, GameEvent } from '@/types/game';
-
-// Constants and Interfaces
-const ROUND_TIME = 115; // 1:55 in seconds
-const BOMB_TIME = 40;
-const FREEZE_TIME = 15;
-
-interface MapPosition {
-  x: number;
-  y: number;
-  name: string;
-  type: 'site' | 'spawn' | 'position';
-}
-
-interface StrategyZone {
-  x: number;
-  y: number;
-  radius: number;
-  color: string;
-  name?: string;
-}
-
-interface TacticalLine {
-  path: string;
-  color: string;
-  name: string;
-}
+import { getMap, hasMap, DEFAULT_MAP_ID } from '@/lib/maps';
+import { getItemName } from '@/lib/weapons';
+import type { MapDefinition, MapObstacle } from '@/lib/maps';
+import type { GameState, Position, Agent, BombState, GameEvent, GroundWeapon, LineupThrow, UtilityEntity } from '@/types/game';
 
-// Enhanced Map Constants
-const MAP_POSITIONS: Record<string, MapPosition> = {
-  // Sites
-  a_site: { x: 220, y: 80, name: 'A Site', type: 'site' },
-  b_site: { x: 70, y: 220, name: 'B Site', type: 'site' },
-  
-  // Spawns
-  t_spawn: { x: 60, y: 180, name: 'T Spawn', type: 'spawn' },
-  ct_spawn: { x: 230, y: 170, name: 'CT Spawn', type: 'spawn' },
-  
-  // Key positions
-  mid: { x: 150, y: 150, name: 'Mid', type: 'position' },
-  long_doors: { x: 85, y: 80, name: 'Long Doors', type: 'position' },
-  catwalk: { x: 180, y: 120, name: 'Catwalk', type: 'position' },
-  goose: { x: 200, y: 90, name: 'Goose', type: 'position' },
-  car: { x: 240, y: 70, name: 'Car', type: 'position' },
-  upper_tunnels: { x: 80, y: 200, name: 'Upper Tunnels', type: 'position' },
-  lower_tunnels: { x: 100, y: 220, name: 'Lower Tunnels', type: 'position' },
-  b_platform: { x: 70, y: 220, name: 'B Platform', type: 'position' },
-  t_mid: { x: 120, y: 150, name: 'T Mid', type: 'position' },
-  window: { x: 150, y: 120, name: 'Window', type: 'position' },
-  mid_doors: { x: 150, y: 150, name: 'Mid Doors', type: 'position' },
-  xbox: { x: 130, y: 130, name: 'Xbox', type: 'position' }
-} as const;
-
-// Enhanced Strategy Paths
-const STRATEGY_PATHS: Record<string, TacticalLine> = {
-  default_t: {
-    path: "M 60,180 L 120,150",
-    color: "#ffd700",
-    name: "Default T"
-  },
-  default_ct: {
-    path: "M 230,170 L 180,150",
-    color: "#4444ff",
-    name: "Default CT"
-  },
-  rush_b: {
-    path: "M 60,180 Q 70,190 80,200 T 70,220",
-    color: "#ff4444",
-    name: "Rush B"
-  },
-  split_a: {
-    path: "M 60,180 Q 85,80 180,120 M 60,180 Q 120,150 180,120",
-    color: "#4444ff",
-    name: "Split A"
-  },
-  mid_control: {
-    path: "M 60,180 Q 120,150 150,150 T 180,120",
-    color: "#44ff44",
-    name: "Mid Control"
-  },
-  long_push: {
-    path: "M 60,180 Q 70,130 85,80",
-    color: "#ff8800",
-    name: "Long Push"
-  },
-  b_retake: {
-    path: "M 230,170 Q 150,200 70,220",
-    color: "#00ffff",
-    name: "B Retake"
-  }
+const OBSTACLE_STYLES: Record<MapObstacle['type'], { fill: string; stroke: string }> = {
+  wall: { fill: '#3f3a30', stroke: '#5c5443' },
+  door: { fill: '#6b4f2a', stroke: '#8a6a3b' },
+  box: { fill: '#5a4a32', stroke: '#7a6444' }
 };
 
-// Enhanced Strategy Zones
-const STRATEGY_ZONES: Record<string, StrategyZone[]> = {
-  rush_b: [
-    { x: 70, y: 220, radius: 30, color: "#ff4444", name: "Rush B Target" }
-  ],
-  split_a: [
-    { x: 85, y: 80, radius: 20, color: "#4444ff", name: "Long Control" },
-    { x: 180, y: 120, radius: 20, color: "#4444ff", name: "Catwalk Control" }
-  ],
-  mid_control: [
-    { x: 150, y: 150, radius: 25, color: "#44ff44", name: "Mid Control" }
-  ],
-  default_t: [
-    { x: 120, y: 150, radius: 15, color: "#ffd700", name: "Default Position" }
-  ],
-  default_ct: [
-    { x: 180, y: 150, radius: 15, color: "#4444ff", name: "Default Defense" }
-  ]
+const UTILITY_STYLES: Partial<Record<UtilityEntity['type'], { fill: string; opacity: number }>> = {
+  smoke: { fill: '#9ca3af', opacity: 0.7 },
+  molotov: { fill: '#f97316', opacity: 0.45 }
 };
 
 // Utility Functions
@@ -138,16 +42,18 @@ const calculateHealthColor = (health: number): string => {
 // Component Definitions
 interface AgentDotProps {
   agent: Agent;
+  spawnPosition: Position;
   isSelected?: boolean;
   onClick?: (agent: Agent) => void;
 }
 
 const AgentDot: React.FC<AgentDotProps> = ({ 
   agent, 
+  spawnPosition,
   isSelected = false,
   onClick 
 }) => {
-  const position = agent.position || MAP_POSITIONS[`${agent.team}_spawn`];
+  const position = agent.position || spawnPosition;
   const color = agent.team === 't' ? '#ff4444' : '#4444ff';
   const glowColor = agent.team === 't' ? 'rgba(255,68,68,0.3)' : 'rgba(68,68,255,0.3)';
   const healthColor = calculateHealthColor(agent.health || 0);
@@ -261,22 +167,155 @@ const AgentDot: React.FC<AgentDotProps> = ({
   );
 };
 
+const MapLayout: React.FC<{ map: MapDefinition }> = ({ map }) => (
+  <g className="map-layout">
+    {map.obstacles.map(obstacle => (
+      <polygon
+        key={obstacle.id}
+        points={obstacle.points.map(point => `${point.x},${point.y}`).join(' ')}
+        fill={OBSTACLE_STYLES[obstacle.type].fill}
+        stroke={OBSTACLE_STYLES[obstacle.type].stroke}
+        strokeWidth="1"
+      >
+        <title>{obstacle.name}</title>
+      </polygon>
+    ))}
+    {Object.entries(map.callouts).map(([key, callout]) => (
+      <text
+        key={`label-${key}`}
+        x={callout.position.x}
+        y={callout.position.y + 18}
+        textAnchor="middle"
+        fill={callout.type === 'position' ? '#6b7280' : '#9ca3af'}
+        fontSize="6"
+        className="select-none pointer-events-none"
+      >
+        {callout.name}
+      </text>
+    ))}
+  </g>
+);
+
+// Smokes and molotovs that are still on the ground
+const UtilityLayer: React.FC<{ utility: UtilityEntity[] }> = ({ utility }) => (
+  <g className="utility-layer">
+    {utility.map(entity => {
+      const style = UTILITY_STYLES[entity.type];
+      if (!style) return null;
+      return (
+        <circle
+          key={entity.id}
+          cx={entity.position.x}
+          cy={entity.position.y}
+          r={entity.radius}
+          fill={style.fill}
+          opacity={style.opacity}
+        />
+      );
+    })}
+  </g>
+);
+
+// This round's lineup throws: where each was thrown from and where it landed
+const LineupLayer: React.FC<{ lineups: LineupThrow[] }> = ({ lineups }) => (
+  <g className="lineup-layer">
+    {lineups.map(lineup => {
+      const color = lineup.success ? '#22c55e' : '#ef4444';
+      const { x, y } = lineup.position;
+      return (
+        <g key={lineup.lineupId} opacity="0.8">
+          <title>{`${lineup.name} (${lineup.success ? 'landed' : 'missed'})`}</title>
+          <line
+            x1={lineup.from.x}
+            y1={lineup.from.y}
+            x2={x}
+            y2={y}
+            stroke={color}
+            strokeWidth="1"
+            strokeDasharray="3 2"
+          />
+          <path
+            d={`M ${x - 3} ${y - 3} L ${x + 3} ${y + 3} M ${x - 3} ${y + 3} L ${x + 3} ${y - 3}`}
+            stroke={color}
+            strokeWidth="1.5"
+          />
+        </g>
+      );
+    })}
+  </g>
+);
+
+// Guns dropped this round that nobody has picked up yet
+const GroundWeaponLayer: React.FC<{ weapons: GroundWeapon[] }> = ({ weapons }) => (
+  <g className="ground-weapon-layer">
+    {weapons.map(item => (
+      <rect
+        key={item.id}
+        x={item.position.x - 3}
+        y={item.position.y - 1}
+        width="6"
+        height="2"
+        fill="#d1d5db"
+        opacity="0.8"
+      >
+        <title>{getItemName(item.weapon)}</title>
+      </rect>
+    ))}
+  </g>
+);
+
+// The bomb on its carrier or on the ground, with any plant or defuse in progress
+const BombMarker: React.FC<{ bomb: BombState; agents: Agent[]; planted: boolean }> = ({ bomb, agents, planted }) => {
+  const carrier = agents.find(agent => agent.id === bomb.carrierId && agent.isAlive);
+  const position = carrier?.position ?? bomb.position;
+  if (!position) return null;
+
+  return (
+    <g transform={`translate(${position.x}, ${position.y})`} className="pointer-events-none">
+      <rect
+        x={carrier ? 4 : -3}
+        y={carrier ? -12 : -3}
+        width="6"
+        height="6"
+        rx="1"
+        fill={planted ? '#ef4444' : '#f59e0b'}
+        stroke="#1a1a1a"
+        strokeWidth="0.5"
+        className={planted ? 'animate-pulse' : undefined}
+      />
+      {bomb.action && (
+        <text y="-14" textAnchor="middle" fill="#fbbf24" fontSize="6" className="select-none">
+          {bomb.action.type === 'plant' ? 'Planting' : 'Defusing'}
+        </text>
+      )}
+    </g>
+  );
+};
+
 // Main Component
 interface GameRendererProps {
   className?: string;
+  // Render this state instead of the live match (used by the replay viewer)
+  state?: ReturnType<typeof useGame>['state'];
   onAgentSelect?: (agent: Agent) => void;
   selectedAgent?: Agent | null;
 }
 
 const GameRenderer: React.FC<GameRendererProps> = ({
   className,
+  state,
   onAgentSelect,
   selectedAgent
 }) => {
-  const { state: gameState } = useGame();
+  const { state: liveState } = useGame();
+  const gameState = state ?? liveState;
   const [positions, setPositions] = useState<Record<string, Position>>({});
   const [tacticalLines, setTacticalLines] = useState<string[]>([]);
 
+  const mapName = gameState?.match?.map?.name ?? DEFAULT_MAP_ID;
+  const map = useMemo(() => getMap(hasMap(mapName) ? mapName : DEFAULT_MAP_ID), [mapName]);
+  const { paths: strategyPaths, zones: strategyZones } = map.overlays;
+
   const allAgents = useMemo(() => {
     if (!gameState?.teams) return [];
     return [...gameState.teams.t.agents, ...gameState.teams.ct.agents];
@@ -308,11 +347,11 @@ const GameRenderer: React.FC<GameRendererProps> = ({
         const tStrategy = gameState.round.currentStrategy.t;
         const ctStrategy = gameState.round.currentStrategy.ct;
         
-        if (tStrategy in STRATEGY_PATHS) {
-          lines.push(STRATEGY_PATHS[tStrategy].path);
+        if (tStrategy in strategyPaths) {
+          lines.push(strategyPaths[tStrategy].path);
         }
-        if (ctStrategy in STRATEGY_PATHS) {
-          lines.push(STRATEGY_PATHS[ctStrategy].path);
+        if (ctStrategy in strategyPaths) {
+          lines.push(strategyPaths[ctStrategy].path);
         }
       }
       setTacticalLines(lines);
@@ -320,7 +359,7 @@ const GameRenderer: React.FC<GameRendererProps> = ({
       console.error('Error updating tactical lines:', error);
       toast.error('Failed to update tactical lines');
     }
-  }, [gameState?.round]);
+  }, [gameState?.round, strategyPaths]);
 
   if (!gameState || !gameState.teams || !gameState.round) {
     return (
@@ -352,7 +391,7 @@ const GameRenderer: React.FC<GameRendererProps> = ({
         </defs>
 
         {/* Map Elements */}
-        <MapLayout />
+        <MapLayout map={map} />
 
         {/* Tactical Elements */}
         {tacticalLines.map((path, index) => (
@@ -371,7 +410,7 @@ const GameRenderer: React.FC<GameRendererProps> = ({
         {/* Strategy Zones */}
         {gameState.round.phase === 'live' && (
           <>
-            {Object.entries(STRATEGY_ZONES).map(([strategy, zones]) => 
+            {Object.entries(strategyZones).map(([strategy, zones]) => 
               zones.map((zone, i) => (
                 <circle
                   key={`${strategy}-zone-${i}`}
@@ -389,6 +428,11 @@ const GameRenderer: React.FC<GameRendererProps> = ({
           </>
         )}
 
+        {/* Thrown Utility */}
+        <UtilityLayer utility={gameState.round.utility ?? []} />
+        <LineupLayer lineups={gameState.round.lineups ?? []} />
+        <GroundWeaponLayer weapons={gameState.round.groundWeapons ?? []} />
+
         {/* Game Events */}
         {gameState.events.map((event, i) => (
           <EventEffect key={`event-${i}`} event={event} />
@@ -399,11 +443,17 @@ const GameRenderer: React.FC<GameRendererProps> = ({
           <AgentDot 
             key={agent.id} 
             agent={agent}
+            spawnPosition={map.callouts[map.spawns[agent.team]].position}
             isSelected={selectedAgent?.id === agent.id}
             onClick={onAgentSelect}
           />
         ))}
 
+        {/* Bomb */}
+        {gameState.round.bomb && (
+          <BombMarker bomb={gameState.round.bomb} agents={allAgents} planted={gameState.round.bombPlanted} />
+        )}
+
         {/* HUD Elements */}
         <GameHUD gameState={gameState} />
       </svg>
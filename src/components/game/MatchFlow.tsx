@@ -3,41 +3,16 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Swords, Timer, Trophy, AlertCircle } from 'lucide-react';
+import { Swords, Timer, Trophy, AlertCircle, Eye } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from "@/lib/utils";
+import { getMap, getMidRoundCalls, hasMap, DEFAULT_MAP_ID } from '@/lib/maps';
+import type { Agent, MidRoundCall, RoundPhase, ScoutingReport, Side, Team } from '@/types/game';
 
 // Interfaces
-interface Agent {
-  id: string;
-  name: string;
-  team: 't' | 'ct';
-  role: string;
-  isAlive: boolean;
-  matchStats: {
-    kills: number;
-    deaths: number;
-    assists: number;
-  };
-  strategyStats: {
-    utilityUsage: number;
-    positioningScore: number;
-    strategyAdherence: number;
-    impactRating: number;
-  };
-}
-
-interface Team {
-  agents: Agent[];
-  strategyStats: {
-    roundsWonWithStrategy: { [key: string]: number };
-    strategySuccessRate: number;
-    lastSuccessfulStrategy: string;
-  };
-}
-
+// Flattened view of GameState that drives the round flow
 interface MatchState {
-  phase: 'warmup' | 'freezetime' | 'live' | 'planted' | 'ended';
+  phase: RoundPhase;
   round: number;
   score: {
     t: number;
@@ -52,15 +27,17 @@ interface MatchState {
     t: string;
     ct: string;
   };
-  activeCall: string | null;
+  activeCalls: Record<Side, MidRoundCall | null>;
+  map?: string;
 }
 
 interface MatchFlowProps {
   matchState: MatchState;
   onPhaseEnd: () => void;
   onTimeUpdate: () => void;
-  onStrategyChange: (team: 't' | 'ct', strategy: string) => void;
-  onMidRoundCall: (team: 't' | 'ct', call: string) => void;
+  onStrategyChange: (team: Side, strategy: string) => void;
+  onMidRoundCall: (team: Side, call: string) => void;
+  scouting?: Record<Side, ScoutingReport> | null;
 }
 
 // Constants
@@ -88,11 +65,6 @@ const AVAILABLE_STRATEGIES = {
   ct: ['default', 'defensive_stack', 'retake_setup', 'mid_control']
 };
 
-const MID_ROUND_CALLS = {
-  t: ['rotate_a', 'rotate_b', 'execute', 'hold', 'split', 'fake'],
-  ct: ['rotate_a', 'rotate_b', 'retake', 'hold', 'stack', 'spread']
-};
-
 // Components
 const PhaseIndicator: React.FC<{ 
   phase: string; 
@@ -153,19 +125,24 @@ const StrategyButton: React.FC<{
 
 const MidRoundCallButton: React.FC<{
   call: string;
+  isActive?: boolean;
   onClick: () => void;
   className?: string;
-}> = React.memo(({ call, onClick, className }) => {
+}> = React.memo(({ call, isActive, onClick, className }) => {
   const getCallStyle = () => {
     switch (call) {
       case 'rotate_a':
       case 'rotate_b':
         return 'bg-blue-600 hover:bg-blue-700';
-      case 'execute':
-      case 'retake':
+      case 'execute_a':
+      case 'execute_b':
+      case 'push':
+      case 'rush':
+      case 'split':
         return 'bg-green-600 hover:bg-green-700';
-      case 'hold':
-      case 'stack':
+      case 'hold_positions':
+      case 'regroup':
+      case 'play_picks':
         return 'bg-yellow-600 hover:bg-yellow-700';
       default:
         return 'bg-gray-600 hover:bg-gray-700';
@@ -179,6 +156,7 @@ const MidRoundCallButton: React.FC<{
       className={cn(
         'transition-colors',
         getCallStyle(),
+        isActive && 'ring-2 ring-white',
         className
       )}
     >
@@ -206,14 +184,67 @@ const AgentStatus: React.FC<{
   </div>
 ));
 
+// What the opponent has done on their side, with counters that can be picked directly
+const ScoutingPanel: React.FC<{
+  report: ScoutingReport;
+  onStrategyChange?: (strategy: string) => void;
+  className?: string;
+}> = React.memo(({ report, onStrategyChange, className }) => {
+  const opponent = report.side === 't' ? 'CT' : 'T';
+  const format = (id: string) => id.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center gap-2 text-sm text-gray-400">
+        <Eye className="w-4 h-4" />
+        <span>Scouting {opponent} · {report.roundType} round · {report.scouted} scouted</span>
+      </div>
+
+      {report.scouted === 0 ? (
+        <div className="text-sm text-gray-500">No rounds against this {opponent} side yet</div>
+      ) : (
+        <div className="grid grid-cols-2 gap-x-4 text-sm">
+          <span className="text-gray-400">Sites</span>
+          <span>A {report.sites.A} · B {report.sites.B}</span>
+          <span className="text-gray-400">First contact</span>
+          <span>{report.averageContact !== null ? `${Math.round(report.averageContact)}s` : '-'}</span>
+          <span className="text-gray-400">Utility</span>
+          <span>{report.averageUtility.toFixed(1)} per round</span>
+          <span className="text-gray-400">Positions</span>
+          <span>{report.positions.map(({ callout }) => format(callout)).join(', ') || '-'}</span>
+        </div>
+      )}
+
+      {report.suggestions.map(({ strategy, reason }) => (
+        <div key={strategy} className="flex justify-between items-center gap-2 text-sm">
+          <span className="text-yellow-400">{reason}</span>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!onStrategyChange}
+            onClick={() => onStrategyChange?.(strategy)}
+          >
+            {format(strategy)}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+ScoutingPanel.displayName = 'ScoutingPanel';
+
 const StrategyOverview: React.FC<{
   team: Team;
   strategy: string;
   phase: string;
+  calls: string[];
+  activeCall?: MidRoundCall | null;
+  scouting?: ScoutingReport | null;
   onStrategyChange?: (strategy: string) => void;
   onMidRoundCall?: (call: string) => void;
   className?: string;
-}> = React.memo(({ team, strategy, phase, onStrategyChange, onMidRoundCall, className }) => (
+}> = React.memo(({ team, strategy, phase, calls, activeCall, scouting, onStrategyChange, onMidRoundCall, className }) => (
   <Card className={cn("bg-gray-800/50 backdrop-blur-sm p-4", className)}>
     <div className="flex justify-between items-center mb-4">
       <div className="flex items-center gap-2">
@@ -247,12 +278,17 @@ const StrategyOverview: React.FC<{
         </div>
       )}
 
+      {phase === 'freezetime' && scouting && (
+        <ScoutingPanel report={scouting} onStrategyChange={onStrategyChange} />
+      )}
+
       {phase === 'live' && onMidRoundCall && (
         <div className="grid grid-cols-2 gap-2">
-          {MID_ROUND_CALLS[team.agents[0]?.team || 't'].map((call) => (
+          {calls.map((call) => (
             <MidRoundCallButton
               key={call}
               call={call}
+              isActive={activeCall?.call === call}
               onClick={() => onMidRoundCall(call)}
             />
           ))}
@@ -275,8 +311,19 @@ const MatchFlow: React.FC<MatchFlowProps> = ({
   onPhaseEnd,
   onTimeUpdate,
   onStrategyChange,
-  onMidRoundCall
+  onMidRoundCall,
+  scouting
 }) => {
+  // Only calls the map defines for each side are offered. Hooks run before the
+  // state check below so every render calls them in the same order
+  const mapId = matchState?.map;
+  const availableCalls = useMemo(() => {
+    const map = getMap(mapId && hasMap(mapId) ? mapId : DEFAULT_MAP_ID);
+    return {
+      t: getMidRoundCalls(map, 't').map(([id]) => id),
+      ct: getMidRoundCalls(map, 'ct').map(([id]) => id)
+    };
+  }, [mapId]);
 
   if (!matchState || !matchState.teams || !matchState.currentStrategy) {
     return (
@@ -369,6 +416,9 @@ const MatchFlow: React.FC<MatchFlowProps> = ({
         team={matchState.teams?.t}
         strategy={matchState.currentStrategy?.t || 'default'}
         phase={matchState.phase}
+        calls={availableCalls.t}
+        activeCall={matchState.activeCalls?.t}
+        scouting={scouting?.t}
         onStrategyChange={(strategy) => handleStrategySelect('t', strategy)}
         onMidRoundCall={(call) => handleMidRoundCall('t', call)}
       />
@@ -377,6 +427,9 @@ const MatchFlow: React.FC<MatchFlowProps> = ({
         team={matchState.teams?.ct}
         strategy={matchState.currentStrategy?.ct || 'default'}
         phase={matchState.phase}
+        calls={availableCalls.ct}
+        activeCall={matchState.activeCalls?.ct}
+        scouting={scouting?.ct}
         onStrategyChange={(strategy) => handleStrategySelect('ct', strategy)}
         onMidRoundCall={(call) => handleMidRoundCall('ct', call)}
       />
@@ -395,12 +448,12 @@ const MatchFlow: React.FC<MatchFlowProps> = ({
               {PHASE_MESSAGES[matchState.phase]}
             </span>
           </div>
-          {matchState.activeCall && (
-            <div className="flex items-center gap-2 text-yellow-400">
+          {(['t', 'ct'] as const).map(side => matchState.activeCalls?.[side] && (
+            <div key={side} className="flex items-center gap-2 text-yellow-400">
               <AlertCircle className="w-4 h-4" />
-              <span>Active Call: {matchState.activeCall}</span>
+              <span>{side.toUpperCase()} Call: {matchState.activeCalls[side]?.call}</span>
             </div>
-          )}
+          ))}
         </div>
       </Card>
     </div>
@@ -20,43 +20,32 @@ import {
   Swords,
   Clock,
   DollarSign,
+  Film,
 } from 'lucide-react';
 import { toast } from 'sonner';
 
 import BuyMenu from './BuyMenu';
 import GameRenderer from './GameRenderer';
 import CombatVisualizer from './CombatVisualizer';
+import ReplayViewer from './ReplayViewer';
 import { useGame } from '@/components/game-provider';
+import { getMap, getMidRoundCalls, hasMap, DEFAULT_MAP_ID } from '@/lib/maps';
+import { getItemName } from '@/lib/weapons';
+import { formatRoundLabel } from '@/lib/systems/RoundSystem';
+import type { StrategyRecord } from '@/lib/systems/RoundSystem';
+import type {
+  Agent,
+  HalftimeSummary,
+  MatchStatus,
+  MidRoundCall,
+  RoundEconomyReport,
+  RoundPhase as GamePhase,
+  Side,
+  Team
+} from '@/types/game';
 
 // Types
-type TeamSide = 't' | 'ct';
-type GamePhase = 'freezetime' | 'live' | 'over';
-type GameStatus = 'active' | 'paused' | 'finished';
-
-// Interfaces
-interface Agent {
-  id: string;
-  name: string;
-  health: number;
-  money: number;
-  isAlive: boolean;
-  matchStats: {
-    kills: number;
-    deaths: number;
-    assists: number;
-  };
-}
-
-interface Team {
-  money: number;
-  agents: Agent[];
-  strategyStats: TeamStrategyStats;
-}
-
-interface TeamStrategyStats {
-  roundsWonWithStrategy: Record<string, number>;
-  averageExecutionTime?: number;
-}
+type TeamSide = Side;
 
 // Constants
 const T_STRATEGIES = {
@@ -107,23 +96,6 @@ const STRATEGY_DESCRIPTIONS = {
   aggressive_info: "Early aggressive info gathering"
 } as const;
 
-const MID_ROUND_CALLS = {
-  rotate_a: "Rotate to A",
-  rotate_b: "Rotate to B",
-  fall_back: "Fall Back",
-  push: "Push",
-  hold_positions: "Hold Positions",
-  execute_a: "Execute A",
-  execute_b: "Execute B",
-  fake_a: "Fake A",
-  fake_b: "Fake B",
-  split: "Split Attack",
-  regroup: "Regroup",
-  rush: "Rush",
-  play_picks: "Play for Picks",
-  save: "Save Round"
-} as const;
-
 // Error Boundary Component
 const ErrorBoundary: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [hasError, setHasError] = useState(false);
@@ -190,7 +162,7 @@ const RoundTimer = React.memo<{
         "font-mono",
         phase === 'freezetime' && "text-yellow-400",
         phase === 'live' && "text-green-400",
-        phase === 'over' && "text-red-400"
+        phase === 'ended' && "text-red-400"
       )}>
         {formattedTime}
       </span>
@@ -229,9 +201,9 @@ StrategyPerformance.displayName = 'StrategyPerformance';
 // Team Score Component
 const TeamScore = React.memo<{
   score: Record<TeamSide, number>;
-  round: number;
-  status: GameStatus;
-}>(({ score, round, status }) => (
+  roundLabel: string;
+  status: MatchStatus;
+}>(({ score, roundLabel, status }) => (
   <Card className="bg-gray-800 p-4">
     <div className="text-center">
       <div className="text-3xl font-bold">
@@ -239,7 +211,7 @@ const TeamScore = React.memo<{
         {' : '}
         <span className="text-blue-400">{score.ct} CT</span>
       </div>
-      <div className="text-xl text-gray-400">Round {round}</div>
+      <div className="text-xl text-gray-400">{roundLabel}</div>
       {status !== 'active' && (
         <div className="text-sm text-gray-500 mt-1">
           {status.charAt(0).toUpperCase() + status.slice(1)}
@@ -269,7 +241,9 @@ const AgentStatus = React.memo<{
         <div className="text-xs text-gray-400">
           <span>HP: {agent.health}</span>
           <span className="mx-1">|</span>
-          <span>$: {agent.money}</span>
+          <span>AP: {agent.armor}</span>
+          <span className="mx-1">|</span>
+          <span className="text-green-400">${agent.economy.current}</span>
         </div>
       )}
     </div>
@@ -313,13 +287,111 @@ const TeamOverview = React.memo<{
 
 TeamOverview.displayName = 'TeamOverview';
 
+// Post-round Economy Report Component
+const EconomyReport = React.memo<{
+  report: RoundEconomyReport;
+  agents: Agent[];
+}>(({ report, agents }) => {
+  const nameOf = (id: string) => agents.find(agent => agent.id === id)?.name ?? id;
+
+  return (
+    <Card className="bg-gray-800 p-4">
+      <h3 className="font-bold mb-2 flex items-center gap-2">
+        <DollarSign className="w-4 h-4" />
+        Round {report.round} Economy
+      </h3>
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        {(['t', 'ct'] as const).map(side => {
+          const team = report.teams[side];
+          return (
+            <div key={side} className="space-y-1">
+              <div className={cn("font-medium", side === 't' ? "text-yellow-400" : "text-blue-400")}>
+                {side.toUpperCase()}{team.buyType && ` · ${team.buyType} buy`}
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Spent</span>
+                <span className="text-red-400">-${team.spent}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Earned</span>
+                <span className="text-green-400">+${team.earned}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Bank</span>
+                <span>${team.money}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Loss bonus</span>
+                <span>${team.lossBonus}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {report.drops.length > 0 && (
+        <div className="mt-3 space-y-1 text-sm">
+          <div className="text-gray-400">Drops</div>
+          {report.drops.map(drop => (
+            <div key={drop.id} className="flex justify-between">
+              <span>{nameOf(drop.donorId)} → {nameOf(drop.recipientId)}</span>
+              <span className="text-gray-400">{getItemName(drop.weapon)} (${drop.cost})</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+});
+
+EconomyReport.displayName = 'EconomyReport';
+
+// Halftime Screen Component
+const HalftimeScreen = React.memo<{
+  summary: HalftimeSummary;
+  timeLeft: number;
+}>(({ summary, timeLeft }) => (
+  <Card className="bg-gray-800 p-4">
+    <div className="text-center mb-4">
+      <h3 className="text-xl font-bold">Halftime</h3>
+      <div className="text-2xl font-bold">
+        <span className="text-yellow-400">T {summary.score.t}</span>
+        {' : '}
+        <span className="text-blue-400">{summary.score.ct} CT</span>
+      </div>
+      <div className="text-sm text-gray-400">Teams switch sides in {timeLeft}s</div>
+    </div>
+    <div className="grid grid-cols-2 gap-4 text-sm">
+      {(['t', 'ct'] as const).map(side => (
+        <div key={side} className="space-y-1">
+          <div className={cn("font-medium", side === 't' ? "text-yellow-400" : "text-blue-400")}>
+            First half as {side.toUpperCase()}
+          </div>
+          {summary.agents
+            .filter(agent => agent.side === side)
+            .sort((a, b) => b.kills - a.kills)
+            .map(agent => (
+              <div key={agent.id} className="flex justify-between">
+                <span>{agent.name}</span>
+                <span className="text-gray-400">{agent.kills} / {agent.deaths} / {agent.assists}</span>
+              </div>
+            ))}
+        </div>
+      ))}
+    </div>
+  </Card>
+));
+
+HalftimeScreen.displayName = 'HalftimeScreen';
+
 // Strategy Panel Component
 const StrategyPanel = React.memo<{
   side: TeamSide;
   phase: GamePhase;
   currentStrategy: string;
-  currentCall: string | null;
-  strategyStats: TeamStrategyStats;
+  activeCall: MidRoundCall | null;
+  callerName: string | null;
+  calls: Record<string, string>;
+  performance: { strategy: string; record: StrategyRecord }[];
   onStrategyChange: (strategy: string) => void;
   onMidRoundCall: (call: string) => void;
   disabled: boolean;
@@ -327,8 +399,10 @@ const StrategyPanel = React.memo<{
   side, 
   phase, 
   currentStrategy, 
-  currentCall, 
-  strategyStats, 
+  activeCall, 
+  callerName, 
+  calls, 
+  performance, 
   onStrategyChange, 
   onMidRoundCall, 
   disabled 
@@ -356,13 +430,13 @@ const StrategyPanel = React.memo<{
     setIsLoading(true);
     try {
       await onMidRoundCall(call);
-      toast.success(`New call: ${MID_ROUND_CALLS[call]}`);
+      toast.success(`New call: ${calls[call]}`);
     } catch (error) {
       toast.error('Failed to make mid-round call');
     } finally {
       setIsLoading(false);
     }
-  }, [disabled, phase, onMidRoundCall]);
+  }, [disabled, phase, onMidRoundCall, calls]);
 
   return (
     <Card className={cn(
@@ -407,18 +481,25 @@ const StrategyPanel = React.memo<{
         </>
       )}
 
+      {activeCall && (
+        <p className="text-sm text-blue-300 mb-2">
+          Active call: {calls[activeCall.call] ?? activeCall.call}
+          {callerName && <span className="text-gray-400"> ({callerName})</span>}
+        </p>
+      )}
+
       {phase === 'live' && (
         <div className="grid grid-cols-2 gap-2">
-          {Object.entries(MID_ROUND_CALLS).map(([key, value]) => (
+          {Object.entries(calls).map(([key, value]) => (
             <Button
               key={key}
               variant="outline"
               size="sm"
               onClick={() => handleMidRoundCall(key)}
-              disabled={disabled || currentCall === key}
+              disabled={disabled || activeCall?.call === key}
               className={cn(
                 "text-sm",
-                currentCall === key && "bg-blue-900/50"
+                activeCall?.call === key && "bg-blue-900/50"
               )}
             >
               {value}
@@ -427,23 +508,20 @@ const StrategyPanel = React.memo<{
         </div>
       )}
 
-      {strategyStats && (
+      {performance.length > 0 && (
         <div className="mt-4">
           <h4 className="text-sm font-medium text-gray-400 mb-2">
             Strategy Performance
           </h4>
-          {Object.entries(strategyStats.roundsWonWithStrategy)
-            .sort(([,a], [,b]) => b - a)
-            .slice(0, 3)
-            .map(([strat, wins]) => (
-              <StrategyPerformance
-                key={strat}
-                strategy={strategies[strat] || strat}
-                successRate={wins * 10}
-                roundsWon={wins}
-                averageExecutionTime={strategyStats.averageExecutionTime}
-              />
-            ))}
+          {performance.map(({ strategy, record }) => (
+            <StrategyPerformance
+              key={strategy}
+              strategy={strategies[strategy] || strategy}
+              successRate={record.wins / record.totalRounds * 100}
+              roundsWon={record.wins}
+              averageExecutionTime={Math.round(record.avgTime)}
+            />
+          ))}
         </div>
       )}
     </Card>
@@ -457,6 +535,17 @@ const MatchView = () => {
   const { state, controller } = useGame();
   const [isLoading, setIsLoading] = useState(true);
   const [showBuyMenu, setShowBuyMenu] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
+
+  // Only calls the engine accepts for each side are offered
+  const mapName = state?.match?.map?.name ?? DEFAULT_MAP_ID;
+  const callLabels = useMemo(() => {
+    const map = getMap(hasMap(mapName) ? mapName : DEFAULT_MAP_ID);
+    const labelsFor = (side: TeamSide) => Object.fromEntries(
+      getMidRoundCalls(map, side).map(([call, setup]) => [call, setup.label ?? call])
+    );
+    return { t: labelsFor('t'), ct: labelsFor('ct') };
+  }, [mapName]);
 
   const handleStrategyChange = useCallback((side: TeamSide, strategy: string) => {
     try {
@@ -467,14 +556,14 @@ const MatchView = () => {
     }
   }, [controller]);
 
-  const handleMidRoundCall = useCallback((call: string) => {
+  const handleMidRoundCall = useCallback((side: TeamSide, call: string) => {
     try {
-      controller?.makeMidRoundCall(call);
-      toast.success(`Mid-round call: ${MID_ROUND_CALLS[call]}`);
+      controller?.makeMidRoundCall(side, call);
+      toast.success(`Mid-round call: ${callLabels[side][call] ?? call}`);
     } catch (error) {
       toast.error('Failed to make mid-round call');
     }
-  }, [controller]);
+  }, [controller, callLabels]);
 
   const handleBuyMenuToggle = useCallback(() => {
     setShowBuyMenu(prev => !prev);
@@ -503,13 +592,38 @@ const MatchView = () => {
     return <ErrorState message="Invalid match state" />;
   }
 
+  const replay = state.match.status === 'ended' ? controller?.getReplay() : null;
+
+  // Each side's three best strategies so far, from RoundSystem's round history
+  const getPerformance = (side: TeamSide) => {
+    if (!controller) return [];
+    const played = new Set(controller.getRoundHistory().map(outcome => outcome.strategies[side].strategy));
+    return [...played]
+      .map(strategy => ({ strategy, record: controller.getStrategyStats(side, strategy) }))
+      .sort((a, b) => b.record.wins - a.record.wins)
+      .slice(0, 3);
+  };
+
+  const getCallerName = (side: TeamSide): string | null => {
+    const issuedBy = state.round.activeCalls[side]?.issuedBy;
+    return state.teams[side].agents.find(agent => agent.id === issuedBy)?.name ?? null;
+  };
+
+  if (showReplay && replay) {
+    return (
+      <ErrorBoundary>
+        <ReplayViewer replay={replay} onClose={() => setShowReplay(false)} />
+      </ErrorBoundary>
+    );
+  }
+
   return (
     <ErrorBoundary>
       <div className="container mx-auto p-4 space-y-6">
         <div className="flex justify-between items-center">
           <TeamScore
             score={state.match.score}
-            round={state.match.currentRound}
+            roundLabel={formatRoundLabel(state.match.currentRound, state.match.maxRounds, state.match.rules.overtime)}
             status={state.match.status}
           />
           <RoundTimer
@@ -523,10 +637,12 @@ const MatchView = () => {
             side="t"
             phase={state.round.phase}
             currentStrategy={state.round.currentStrategy.t}
-            currentCall={state.round.activeCall}
-            strategyStats={state.teams.t.strategyStats}
+            activeCall={state.round.activeCalls.t}
+            callerName={getCallerName('t')}
+            calls={callLabels.t}
+            performance={getPerformance('t')}
             onStrategyChange={(strategy) => handleStrategyChange('t', strategy)}
-            onMidRoundCall={handleMidRoundCall}
+            onMidRoundCall={(call) => handleMidRoundCall('t', call)}
             disabled={state.match.status !== 'active'}
           />
 
@@ -534,10 +650,12 @@ const MatchView = () => {
             side="ct"
             phase={state.round.phase}
             currentStrategy={state.round.currentStrategy.ct}
-            currentCall={state.round.activeCall}
-            strategyStats={state.teams.ct.strategyStats}
+            activeCall={state.round.activeCalls.ct}
+            callerName={getCallerName('ct')}
+            calls={callLabels.ct}
+            performance={getPerformance('ct')}
             onStrategyChange={(strategy) => handleStrategyChange('ct', strategy)}
-            onMidRoundCall={handleMidRoundCall}
+            onMidRoundCall={(call) => handleMidRoundCall('ct', call)}
             disabled={state.match.status !== 'active'}
           />
         </div>
@@ -547,6 +665,28 @@ const MatchView = () => {
           <TeamOverview team={state.teams.ct} side="ct" />
         </div>
 
+        {state.round.phase === 'ended' && state.match.halftime?.round === state.match.currentRound && (
+          <HalftimeScreen summary={state.match.halftime} timeLeft={Math.ceil(state.round.timeLeft)} />
+        )}
+
+        {state.round.phase === 'ended' && state.round.economyReport && (
+          <EconomyReport
+            report={state.round.economyReport}
+            agents={[...state.teams.t.agents, ...state.teams.ct.agents]}
+          />
+        )}
+
+        {replay && (
+          <Button
+            variant="outline"
+            onClick={() => setShowReplay(true)}
+            className="w-full"
+          >
+            <Film className="w-4 h-4 mr-2" />
+            Watch Replay
+          </Button>
+        )}
+
         <Button
           onClick={handleBuyMenuToggle}
           className="w-full"
@@ -570,8 +710,8 @@ const MatchView = () => {
 
           {state.combatResult && (
             <CombatVisualizer
-              result={state.combatResult}
-              onClose={handleCombatResultClose}
+              combatResult={state.combatResult}
+              onAnimationComplete={handleCombatResultClose}
             />
           )}
         </Suspense>
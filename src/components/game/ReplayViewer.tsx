@@ -0,0 +1,261 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { cn } from "@/lib/utils";
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Play,
+  Pause,
+  SkipBack,
+  SkipForward,
+  Download,
+  X
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+import GameRenderer from './GameRenderer';
+import ReplayPlayer from '@/lib/replay/ReplayPlayer';
+import { serializeReplay } from '@/lib/replay';
+import { formatRoundLabel, getOvertimeRound } from '@/lib/systems/RoundSystem';
+import type { Replay, ReplayEvent } from '@/lib/replay';
+
+interface ReplayViewerProps {
+  replay: Replay;
+  onClose?: () => void;
+}
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8];
+const FRAME_INTERVAL = 1000 / 30;
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const describeEvent = (event: ReplayEvent): string | null => {
+  const { data } = event;
+  switch (event.type) {
+    case 'combat':
+      if (data.type !== 'kill') return null;
+      return `${data.attacker?.name} killed ${data.victim?.name}${data.isHeadshot ? ' (HS)' : ''}`;
+    case 'duel':
+      // Won duels already show up as kills
+      if (data.outcome !== 'disengaged') return null;
+      return `${data.participants[0].name} and ${data.participants[1].name} broke off after ${data.shots.length} shots`;
+    case 'utility':
+      return `${String(data.side).toUpperCase()} ${data.type} thrown`;
+    case 'lineup':
+      return `${data.agentId} ${data.success ? 'hit' : 'missed'} ${data.name}`;
+    case 'bomb':
+      // Only attempts are worth listing; pickups show on the map
+      if (!data.action) return null;
+      return `${data.action.agentId} started ${data.action.type === 'plant' ? 'planting' : 'defusing'}`;
+    case 'plant':
+      return `Bomb planted at ${data.site}`;
+    case 'call':
+      return `${String(data.side).toUpperCase()} call: ${data.call}`;
+    case 'strategy':
+      return `${String(data.side).toUpperCase()} strategy: ${data.strategy}`;
+    case 'drop':
+      return `${data.donorId} dropped ${data.weapon} for ${data.recipientId}`;
+    case 'buy':
+      return `${data.agentId} bought ${[...data.weapons, ...data.equipment].join(', ')}`;
+    case 'round_end':
+      return `${String(data.winner).toUpperCase()} win: ${data.reason}`;
+    case 'halftime':
+      return 'Halftime: teams switch sides';
+    default:
+      return null;
+  }
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onClose }) => {
+  const player = useMemo(() => new ReplayPlayer(replay), [replay]);
+  const duration = player.getDuration();
+  const rounds = player.getRounds();
+  const { maxRounds, rules: { overtime } } = replay.initialState.match;
+
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const frameState = useMemo(() => player.getStateAt(time), [player, time]);
+  const currentRound = player.getRoundAt(time);
+
+  // Playback runs on the replay's own clock, scaled by the selected speed
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setTime(prev => Math.min(prev + FRAME_INTERVAL * speed, duration));
+    }, FRAME_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, duration]);
+
+  useEffect(() => {
+    if (time >= duration) setIsPlaying(false);
+  }, [time, duration]);
+
+  const jumpToRound = useCallback((index: number) => {
+    const round = rounds[Math.max(0, Math.min(index, rounds.length - 1))];
+    if (round) setTime(round.startTime);
+  }, [rounds]);
+
+  const currentRoundIndex = currentRound ? rounds.indexOf(currentRound) : 0;
+
+  const handleDownload = useCallback(() => {
+    try {
+      const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `replay-${replay.meta.matchId || replay.meta.seed}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading replay:', error);
+      toast.error('Failed to download replay');
+    }
+  }, [replay]);
+
+  const roundEvents = useMemo(() => (
+    currentRound
+      ? player.getEventsUntil(time, currentRound.round)
+          .map(event => ({ event, text: describeEvent(event) }))
+          .filter(({ text }) => text !== null)
+      : []
+  ), [player, time, currentRound]);
+
+  return (
+    <div className="container mx-auto p-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Match Replay</h2>
+          <p className="text-sm text-gray-400">
+            {replay.meta.map} · Seed {replay.meta.seed} · {formatRoundLabel(currentRound?.round ?? 1, maxRounds, overtime)}
+            {' '}· {frameState.match.score.t} - {frameState.match.score.ct}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleDownload}>
+            <Download className="w-4 h-4 mr-2" />
+            Download
+          </Button>
+          {onClose && (
+            <Button variant="ghost" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2">
+          <GameRenderer
+            state={frameState}
+            className="w-full h-[400px] bg-gray-900 rounded-lg"
+          />
+        </div>
+
+        <Card className="bg-gray-800 p-4 space-y-2 max-h-[400px] overflow-y-auto">
+          <h3 className="font-bold">{formatRoundLabel(currentRound?.round ?? 1, maxRounds, overtime)} Timeline</h3>
+          {roundEvents.length === 0 && (
+            <p className="text-sm text-gray-400">No events yet</p>
+          )}
+          {roundEvents.map(({ event, text }, index) => (
+            <button
+              key={`${event.time}-${index}`}
+              onClick={() => setTime(event.time)}
+              className="w-full text-left text-sm p-2 bg-gray-700 rounded hover:bg-gray-600"
+            >
+              <span className="text-gray-400 mr-2">{formatTime(event.time - (currentRound?.startTime ?? 0))}</span>
+              {text}
+            </button>
+          ))}
+        </Card>
+      </div>
+
+      <Card className="bg-gray-800 p-4 space-y-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" onClick={() => jumpToRound(currentRoundIndex - 1)}>
+            <SkipBack className="w-4 h-4" />
+          </Button>
+          <Button size="sm" onClick={() => setIsPlaying(prev => !prev)}>
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => jumpToRound(currentRoundIndex + 1)}>
+            <SkipForward className="w-4 h-4" />
+          </Button>
+
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={100}
+            value={time}
+            onChange={(event) => setTime(Number(event.target.value))}
+            className="flex-1 accent-blue-500"
+          />
+
+          <span className="text-sm text-gray-400 w-24 text-right">
+            {formatTime(time)} / {formatTime(duration)}
+          </span>
+
+          <Select value={speed.toString()} onValueChange={(value) => setSpeed(Number(value))}>
+            <SelectTrigger className="w-20 bg-gray-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_SPEEDS.map(option => (
+                <SelectItem key={option} value={option.toString()}>
+                  {option}x
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {rounds.map((round, index) => {
+            // Overtime rounds are numbered within their overtime, after an OT marker
+            const label = getOvertimeRound(round.round, maxRounds, overtime);
+            return (
+              <React.Fragment key={round.round}>
+                {label.overtime > 0 && label.round === 1 && (
+                  <span className="h-8 px-1 flex items-center text-xs text-gray-400">OT{label.overtime}</span>
+                )}
+                <button
+                  onClick={() => jumpToRound(index)}
+                  title={round.reason ?? undefined}
+                  className={cn(
+                    "w-8 h-8 text-xs rounded font-medium",
+                    round.winner === 't' && "bg-yellow-600/60",
+                    round.winner === 'ct' && "bg-blue-600/60",
+                    !round.winner && "bg-gray-700",
+                    label.overtime > 0 && "italic",
+                    currentRound?.round === round.round && "ring-2 ring-white"
+                  )}
+                >
+                  {label.round}
+                </button>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -10,6 +10,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Input } from '@/components/ui/input';
 import {
   Shield,
   Swords,
@@ -23,85 +24,74 @@ import {
   Loader2
 } from 'lucide-react';
 import { useGame } from '@/components/game-provider';
+import SeededRandom from '@/lib/SeededRandom';
+import { getMap, getAvailableMaps, DEFAULT_MAP_ID } from '@/lib/maps';
+import { getRules, findRulesPreset, RULES_PRESETS, DEFAULT_RULES_PRESET } from '@/lib/rules';
+import type { RulesPresetId } from '@/lib/rules';
+import { AGENT_ROLES } from '@/types/game';
+import type { AgentProfile, GameConfig, MatchRules, Team } from '@/types/game';
+import { MatchRulesSchema } from '@/types/schemas';
 import { toast } from 'sonner';
 
-interface Agent {
-  id: string;
-  name: string;
-  role: string;
-  stats: {
-    aim: number;
-    reaction: number;
-    positioning: number;
-    utility: number;
-    leadership: number;
-    clutch: number;
-  };
-}
-
-interface Team {
-  id: string;
-  name: string;
-  agents: Agent[];
-  strategy?: string;
-}
-
 interface RoomLobbyProps {
   playerTeam: Team;
   onStart: (config: GameConfig) => void;
 }
 
-interface GameConfig {
-  maxRounds: number;
-  startingSide: 't' | 'ct';
-  initialStrategy: string;
-  difficulty: 'easy' | 'medium' | 'hard';
-}
+type NumericRule = 'warmupTime' | 'freezeTime' | 'roundTime' | 'bombTimer' | 'roundEndTime' | 'halftimeTime' | 'startMoney' | 'maxMoney';
 
-const MAP_STRATEGIES = {
-  t_side: [
-    { value: 'default', label: 'Default Setup' },
-    { value: 'rush_b', label: 'Rush B' },
-    { value: 'split_a', label: 'Split A' },
-    { value: 'mid_control', label: 'Mid Control' },
-    { value: 'fake_a_b', label: 'Fake A to B' },
-    { value: 'eco_rush', label: 'Eco Rush' }
-  ],
-  ct_side: [
-    { value: 'default', label: 'Default Setup' },
-    { value: 'aggressive_mid', label: 'Aggressive Mid' },
-    { value: 'stack_a', label: 'Stack A' },
-    { value: 'stack_b', label: 'Stack B' },
-    { value: 'retake_setup', label: 'Retake Setup' }
-  ]
-} as const;
-
-const STRATEGY_DESCRIPTIONS: Record<string, string> = {
-  default: "Balanced setup with standard positions",
-  rush_b: "Fast B execute with full team commitment",
-  split_a: "Split attack through Long and Short A",
-  mid_control: "Secure mid control before site hit",
-  fake_a_b: "Fake presence at A before B execute",
-  eco_rush: "Economic round with rushed strategy",
-  aggressive_mid: "Control mid with aggressive positioning",
-  stack_a: "Stack multiple players on A site",
-  stack_b: "Stack multiple players on B site",
-  retake_setup: "Setup for retake scenarios"
-};
+const TIME_RULES: { key: NumericRule; label: string }[] = [
+  { key: 'freezeTime', label: 'Freeze Time (s)' },
+  { key: 'roundTime', label: 'Round Time (s)' },
+  { key: 'bombTimer', label: 'Bomb Timer (s)' },
+  { key: 'warmupTime', label: 'Warmup (s)' },
+  { key: 'roundEndTime', label: 'Round End (s)' },
+  { key: 'halftimeTime', label: 'Halftime (s)' }
+];
+
+const MONEY_RULES: { key: NumericRule; label: string }[] = [
+  { key: 'startMoney', label: 'Start Money' },
+  { key: 'maxMoney', label: 'Max Money' }
+];
 
 const RoomLobby: React.FC<RoomLobbyProps> = ({ playerTeam, onStart }) => {
   const { controller } = useGame();
   const [isLoading, setIsLoading] = useState(false);
   const [config, setConfig] = useState<GameConfig>({
-    maxRounds: 24,
+    maxRounds: RULES_PRESETS[DEFAULT_RULES_PRESET].maxRounds,
     startingSide: 't',
     initialStrategy: 'default',
-    difficulty: 'medium'
+    difficulty: 'medium',
+    seed: SeededRandom.generateSeed(),
+    mapId: DEFAULT_MAP_ID,
+    rules: getRules(DEFAULT_RULES_PRESET)
   });
+  const rulesPreset = findRulesPreset(config.rules);
+
+  const availableMaps = getAvailableMaps();
+  const selectedMap = getMap(config.mapId);
+  const strategyOptions = Object.entries(selectedMap.strategies[`${config.startingSide}_side`])
+    .map(([value, setup]) => ({
+      value,
+      label: setup.label ?? value,
+      description: setup.description
+    }));
 
   const [showTeamDetails, setShowTeamDetails] = useState(true);
   const [showStrategyDetails, setShowStrategyDetails] = useState(true);
 
+  const applyPreset = (id: RulesPresetId) => {
+    setConfig(prev => ({ ...prev, maxRounds: RULES_PRESETS[id].maxRounds, rules: getRules(id) }));
+  };
+
+  const updateRules = (changes: Partial<MatchRules>) => {
+    setConfig(prev => ({ ...prev, rules: { ...prev.rules, ...changes } }));
+  };
+
+  const updateOvertime = (changes: Partial<MatchRules['overtime']>) => {
+    setConfig(prev => ({ ...prev, rules: { ...prev.rules, overtime: { ...prev.rules.overtime, ...changes } } }));
+  };
+
   const getTeamStrength = useCallback((team: Team): number => {
     if (!team?.agents?.length) return 0;
 
@@ -131,42 +121,23 @@ const RoomLobby: React.FC<RoomLobbyProps> = ({ playerTeam, onStart }) => {
     }
   }, []);
 
-  const generateBotTeam = useCallback((config: GameConfig) => {
+  const generateBotTeam = useCallback((config: GameConfig, random: SeededRandom): AgentProfile[] => {
     try {
       const difficultyModifier = getDifficultyModifier(config.difficulty);
-      const botRoles = ['Entry Fragger', 'Support', 'In-Game Leader', 'Support', 'Entry Fragger'];
+      const skill = () => Math.min(1, 0.5 * difficultyModifier + random.range(0, 0.2));
       
-      return Array.from({ length: 5 }, (_, i) => ({
+      // One bot per role so every system sees a full lineup
+      return AGENT_ROLES.map((role, i) => ({
         id: `bot-${i}`,
         name: `Bot_${i + 1}`,
-        team: config.startingSide === 't' ? 'ct' : 't',
-        role: botRoles[i],
-        position: { x: 60, y: 180 },
-        health: 100,
-        armor: 0,
-        weapons: [config.startingSide === 't' ? 'glock' : 'usp'],
-        equipment: [],
-        isAlive: true,
+        role,
         stats: {
-          aim: 0.5 * difficultyModifier + Math.random() * 0.2,
-          reaction: 0.5 * difficultyModifier + Math.random() * 0.2,
-          positioning: 0.5 * difficultyModifier + Math.random() * 0.2,
-          utility: 0.5 * difficultyModifier + Math.random() * 0.2,
-          leadership: 0.5 * difficultyModifier + Math.random() * 0.2,
-          clutch: 0.5 * difficultyModifier + Math.random() * 0.2
-        },
-        matchStats: {
-          kills: 0,
-          deaths: 0,
-          assists: 0,
-          utilityDamage: 0,
-          flashAssists: 0
-        },
-        strategyStats: {
-          utilityUsage: 0,
-          positioningScore: 0,
-          strategyAdherence: 0,
-          impactRating: 0
+          aim: skill(),
+          reaction: skill(),
+          positioning: skill(),
+          utility: skill(),
+          leadership: skill(),
+          clutch: skill()
         }
       }));
     } catch (error) {
@@ -181,51 +152,31 @@ const RoomLobby: React.FC<RoomLobbyProps> = ({ playerTeam, onStart }) => {
       toast.error('Invalid team composition');
       return;
     }
+
+    // Edited rules are checked here so the lobby can say what is wrong, e.g. odd overtime lengths
+    const rulesCheck = MatchRulesSchema.safeParse(config.rules);
+    if (!rulesCheck.success) {
+      toast.error(rulesCheck.error.issues[0]?.message ?? 'Invalid match rules');
+      return;
+    }
   
     setIsLoading(true);
   
     try {
-      const initializedPlayerTeam = playerTeam.agents.map(agent => ({
-        ...agent,
-        team: config.startingSide,
-        position: { x: config.startingSide === 't' ? 60 : 230, y: 180 },
-        health: 100,
-        armor: 0,
-        weapons: [config.startingSide === 't' ? 'glock' : 'usp'],
-        equipment: [],
-        isAlive: true,
-        matchStats: {
-          kills: 0,
-          deaths: 0,
-          assists: 0,
-          utilityDamage: 0,
-          flashAssists: 0
-        },
-        strategyStats: {
-          utilityUsage: 0,
-          positioningScore: 0,
-          strategyAdherence: 0,
-          impactRating: 0
-        }
-      }));
-  
-      const botTeam = generateBotTeam(config);
+      // Bots and match id come from the match seed so the whole lobby setup is reproducible
+      const random = new SeededRandom(config.seed);
+      const botTeam = generateBotTeam(config, random);
   
       if (!botTeam.length) {
         throw new Error('Failed to generate bot team');
       }
   
       await controller.initializeMatch({
-        playerTeam: initializedPlayerTeam,
+        playerTeam: playerTeam.agents.map(({ id, name, role, stats }) => ({ id, name, role, stats })),
         botTeam,
         config: {
           ...config,
-          startTime: Date.now(),
-          matchId: Math.random().toString(36).substr(2, 9),
-          currentStrategy: {
-            t: config.startingSide === 't' ? config.initialStrategy : 'default',
-            ct: config.startingSide === 'ct' ? config.initialStrategy : 'default'
-          }
+          matchId: random.id()
         }
       });
   
@@ -295,6 +246,30 @@ const RoomLobby: React.FC<RoomLobbyProps> = ({ playerTeam, onStart }) => {
 
       {showStrategyDetails && (
         <div className="space-y-4">
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Map</label>
+            <Select
+              value={config.mapId}
+              onValueChange={(value) => 
+                setConfig(prev => ({ ...prev, mapId: value, initialStrategy: 'default' }))
+              }
+            >
+              <SelectTrigger className="w-full bg-gray-700">
+                <div className="flex items-center gap-2">
+                  <Map className="w-4 h-4" />
+                  <SelectValue placeholder="Select map" />
+                </div>
+              </SelectTrigger>
+              <SelectContent>
+                {availableMaps.map(map => (
+                  <SelectItem key={map.id} value={map.id}>
+                    {map.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div>
             <label className="block text-sm text-gray-400 mb-2">Starting Side</label>
             <Select
@@ -325,7 +300,7 @@ const RoomLobby: React.FC<RoomLobbyProps> = ({ playerTeam, onStart }) => {
                 <SelectValue placeholder="Select strategy" />
               </SelectTrigger>
               <SelectContent>
-                {MAP_STRATEGIES[`${config.startingSide}_side`].map(strategy => (
+                {strategyOptions.map(strategy => (
                   <SelectItem key={strategy.value} value={strategy.value}>
                     {strategy.label}
                   </SelectItem>
@@ -333,7 +308,7 @@ const RoomLobby: React.FC<RoomLobbyProps> = ({ playerTeam, onStart }) => {
               </SelectContent>
             </Select>
             <p className="text-sm text-gray-400 mt-2">
-              {STRATEGY_DESCRIPTIONS[config.initialStrategy]}
+              {strategyOptions.find(strategy => strategy.value === config.initialStrategy)?.description}
             </p>
           </div>
         </div>
@@ -389,6 +364,176 @@ const RoomLobby: React.FC<RoomLobbyProps> = ({ playerTeam, onStart }) => {
             Bot Skill Modifier: {getDifficultyModifier(config.difficulty)}x
           </p>
         </div>
+
+        <div>
+          <label className="block text-sm text-gray-400 mb-2">Match Seed</label>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min={0}
+              value={config.seed}
+              onChange={(event) => {
+                const seed = parseInt(event.target.value, 10);
+                if (!Number.isNaN(seed)) {
+                  setConfig(prev => ({ ...prev, seed: seed >>> 0 }));
+                }
+              }}
+              className="bg-gray-700"
+            />
+            <Button
+              variant="outline"
+              onClick={() => setConfig(prev => ({ ...prev, seed: SeededRandom.generateSeed() }))}
+            >
+              Randomize
+            </Button>
+          </div>
+          <p className="text-sm text-gray-400 mt-2">
+            Same seed and settings replay the exact same match
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+
+  const RulesSetup = () => (
+    <Card className="bg-gray-800 p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Clock className="w-5 h-5" />
+        <h3 className="text-lg font-bold">Match Rules</h3>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm text-gray-400 mb-2">Preset</label>
+          <Select
+            value={rulesPreset ?? 'custom'}
+            onValueChange={(value) => {
+              if (value !== 'custom') applyPreset(value as RulesPresetId);
+            }}
+          >
+            <SelectTrigger className="w-full bg-gray-700">
+              <SelectValue placeholder="Select preset" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(RULES_PRESETS).map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.name}
+                </SelectItem>
+              ))}
+              {!rulesPreset && <SelectItem value="custom">Custom</SelectItem>}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-gray-400 mt-2">
+            {rulesPreset ? RULES_PRESETS[rulesPreset].description : 'Edited from a preset'}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {[...TIME_RULES, ...MONEY_RULES].map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-sm text-gray-400 mb-2">{label}</label>
+              <Input
+                type="number"
+                min={0}
+                value={config.rules[key]}
+                onChange={(event) => {
+                  const value = parseInt(event.target.value, 10);
+                  if (!Number.isNaN(value) && value >= 0) {
+                    updateRules({ [key]: value });
+                  }
+                }}
+                className="bg-gray-700"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Friendly Fire (grenades and fire)</label>
+            <Select
+              value={config.rules.friendlyFire ? 'on' : 'off'}
+              onValueChange={(value) => updateRules({ friendlyFire: value === 'on' })}
+            >
+              <SelectTrigger className="w-full bg-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="on">On</SelectItem>
+                <SelectItem value="off">Off</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Tick Rate</label>
+            <Select
+              value={config.rules.tickRate.toString()}
+              onValueChange={(value) => updateRules({ tickRate: parseInt(value, 10) })}
+            >
+              <SelectTrigger className="w-full bg-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="64">64 tick</SelectItem>
+                <SelectItem value="128">128 tick</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Overtime</label>
+            <Select
+              value={config.rules.overtime.enabled ? 'on' : 'off'}
+              onValueChange={(value) => updateOvertime({ enabled: value === 'on' })}
+            >
+              <SelectTrigger className="w-full bg-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="on">On</SelectItem>
+                <SelectItem value="off">Off (ties are draws)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Overtime Rounds</label>
+            <Select
+              value={config.rules.overtime.rounds.toString()}
+              onValueChange={(value) => updateOvertime({ rounds: parseInt(value, 10) })}
+              disabled={!config.rules.overtime.enabled}
+            >
+              <SelectTrigger className="w-full bg-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="2">MR1 (2 Rounds)</SelectItem>
+                <SelectItem value="6">MR3 (6 Rounds)</SelectItem>
+                <SelectItem value="10">MR5 (10 Rounds)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Overtime Money</label>
+            <Input
+              type="number"
+              min={0}
+              value={config.rules.overtime.startMoney}
+              disabled={!config.rules.overtime.enabled}
+              onChange={(event) => {
+                const value = parseInt(event.target.value, 10);
+                if (!Number.isNaN(value) && value >= 0) {
+                  updateOvertime({ startMoney: value });
+                }
+              }}
+              className="bg-gray-700"
+            />
+          </div>
+        </div>
       </div>
     </Card>
   );
@@ -435,6 +580,7 @@ const RoomLobby: React.FC<RoomLobbyProps> = ({ playerTeam, onStart }) => {
           <TeamDisplay />
           <StrategySetup />
           <MatchSetup />
+          <RulesSetup />
         </div>
       </div>
     </div>
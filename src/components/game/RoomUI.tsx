@@ -21,41 +21,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import type { Agent as MatchAgent, AgentProfile, TeamStrategyStats } from '@/types/game';
 
-interface Agent {
-  id: string;
-  name: string;
-  role: string;
-  stats: {
-    aim: number;
-    reaction: number;
-    positioning: number;
-    utility: number;
-    leadership: number;
-    clutch: number;
-  };
-  matchStats?: {
-    kills: number;
-    deaths: number;
-    assists: number;
-  };
-  strategyStats?: {
-    utilityUsage: number;
-    positioningScore: number;
-    strategyAdherence: number;
-    impactRating: number;
-  };
-}
+// Roster agent, with match stats once it has played
+type Agent = AgentProfile & Partial<Pick<MatchAgent, 'matchStats' | 'strategyStats'>>;
 
 interface Team {
   id: string;
   name: string;
   agents: Agent[];
-  strategyStats?: {
-    roundsWonWithStrategy: { [key: string]: number };
-    strategySuccessRate: number;
-    lastSuccessfulStrategy: string;
-  };
+  strategyStats?: TeamStrategyStats;
 }
 
 interface RoomUIProps {
@@ -1,154 +1,63 @@
 import CombatSystem from '@/lib/systems/CombatSystem';
 import MovementSystem from '@/lib/systems/MovementSystem';
-import RoundSystem from '@/lib/systems/RoundSystem';
+import RoundSystem, {
+  getHalftimeRound,
+  getOvertimeRound,
+  getWinThreshold,
+  isLastRoundOfPeriod,
+  isSideSwapRound
+} from '@/lib/systems/RoundSystem';
+import type { RoundOutcome, StrategyRecord } from '@/lib/systems/RoundSystem';
 import BuySystem from '@/lib/systems/BuySystem';
 import AgentSystem from '@/lib/systems/AgentSystem';
-import Dust2TacticsSystem from '@/lib/systems/Dust2TacticsSystem';
+import TacticsSystem from '@/lib/systems/TacticsSystem';
+import BombSystem from '@/lib/systems/BombSystem';
+import InventorySystem from '@/lib/systems/InventorySystem';
+import EconomySystem from '@/lib/systems/EconomySystem';
+import BotIGLSystem from '@/lib/systems/BotIGLSystem';
+import ScoutingSystem from '@/lib/systems/ScoutingSystem';
+import SeededRandom from '@/lib/SeededRandom';
+import { getMap, DEFAULT_MAP_ID } from '@/lib/maps';
+import { DEFAULT_PISTOLS, getWeapon, isUtility } from '@/lib/weapons';
+import { getRules } from '@/lib/rules';
+import type { MapDefinition } from '@/lib/maps';
+import ReplayRecorder from '@/lib/replay/ReplayRecorder';
+import type { Replay } from '@/lib/replay';
+import { GameStateSchema, MatchConfigSchema } from '@/types/schemas';
+import { AGENT_ROLES } from '@/types/game';
+import type {
+  Agent,
+  AgentProfile,
+  CombatResult,
+  GameState,
+  HalftimeSummary,
+  MatchConfig,
+  MidRoundCall,
+  RoundEndCause,
+  Side,
+  Team
+} from '@/types/game';
 import { toast } from 'sonner';
 
-interface Position {
-  x: number;
-  y: number;
-}
-
-interface Agent {
-  id: string;
-  name: string;
-  team: 't' | 'ct';
-  role: string;
-  position: Position;
-  isAlive: boolean;
-  health: number;
-  armor: number;
-  weapons: string[];
-  equipment: string[];
-  stats: {
-    aim: number;
-    reaction: number;
-    positioning: number;
-    utility: number;
-    leadership: number;
-    clutch: number;
-  };
-  matchStats: {
-    kills: number;
-    deaths: number;
-    assists: number;
-    utilityDamage: number;
-    flashAssists: number;
-  };
-  strategyStats: {
-    utilityUsage: number;
-    positioningScore: number;
-    strategyAdherence: number;
-    impactRating: number;
-  };
-}
-
-interface Team {
-  money: number;
-  roundWins: number;
-  lossBonus: number;
-  timeoutAvailable: boolean;
-  strategy: string;
-  agents: Agent[];
-  strategyStats: {
-    roundsWonWithStrategy: { [key: string]: number };
-    strategySuccessRate: number;
-    lastSuccessfulStrategy: string;
-  };
-}
-
-interface CombatResult {
-  id: string;
-  type: 'kill' | 'damage' | 'utility' | 'trade' | 'assist';
-  attacker: {
-    id: string;
-    name: string;
-    team: 't' | 'ct';
-    role: string;
-  };
-  victim?: {
-    id: string;
-    name: string;
-    team: 't' | 'ct';
-    role: string;
-  };
-  weapon?: string;
-  damage?: number;
-  isHeadshot?: boolean;
-  isStrategyKill?: boolean;
-  isTradeKill?: boolean;
-  isWallbang?: boolean;
-  position?: Position;
-  timestamp: number;
-}
-
-interface GameEvent {
-  id: string;
-  type: string;
-  data: any;
-  timestamp: number;
-}
-
-interface GameState {
-  match: {
-    id: string;
-    status: 'pending' | 'active' | 'paused' | 'ended';
-    currentRound: number;
-    maxRounds: number;
-    score: { t: number; ct: number };
-    winner: 't' | 'ct' | null;
-    startTime: number | null;
-    endTime: number | null;
-    map: {
-      name: string;
-      areas: string[];
-      callouts: Record<string, any>;
-    };
-  };
-  round: {
-    phase: 'warmup' | 'freezetime' | 'live' | 'planted' | 'ended';
-    timeLeft: number;
-    bombPlanted: boolean;
-    bombSite: 'A' | 'B' | null;
-    plantTime: number | null;
-    winner: 't' | 'ct' | null;
-    endReason: string | null;
-    currentStrategy: {
-      t: string;
-      ct: string;
-    };
-    activeCall: string | null;
-    momentum: {
-      team: 't' | 'ct' | null;
-      factor: number;
-    };
-  };
-  teams: {
-    t: Team;
-    ct: Team;
-  };
-  events: GameEvent[];
-  combatResult: CombatResult | null;
-  meta: {
-    version: string;
-    timestamp: number;
-    tickRate: number;
-  };
-}
-
 export default class GameController {
   private static instance: GameController | null = null;
   private state: GameState;
   private listeners: Set<(state: GameState) => void> = new Set();
   private gameLoopInterval: NodeJS.Timer | null = null;
-  private lastCombatProcess: number = 0;
+  private lastUtilityProcess: number = 0;
   private lastStateUpdate: number = 0;
   private readonly updateThrottle: number = 16;
   private isProcessingUpdate: boolean = false;
   private debugMode: boolean = process.env.NODE_ENV === 'development';
   private isBrowser: boolean = typeof window !== 'undefined';
+  private readonly headless: boolean;
+  private random: SeededRandom = new SeededRandom();
+  // Virtual match clock in ms, advanced only by update() so runs are tick-exact
+  private matchTime: number = 0;
+  // Records every match by default in the browser so it can be reviewed afterwards
+  private recorder: ReplayRecorder | null = null;
+  // The side the economy planner buys for every freezetime
+  private botSide: Side | null = null;
 
   private systems: {
     combat: CombatSystem;
@@ -156,30 +65,40 @@ export default class GameController {
     round: RoundSystem;
     buy: BuySystem;
     agent: AgentSystem;
-    tactics: Dust2TacticsSystem;
+    tactics: TacticsSystem;
+    bomb: BombSystem;
+    inventory: InventorySystem;
+    economy: EconomySystem;
+    igl: BotIGLSystem;
+    scouting: ScoutingSystem;
   };
 
-  private readonly ROUND_TIMES = {
-    warmup: 15,
-    freezetime: 15,
-    live: 115,
-    planted: 40
-  };
+  private readonly UTILITY_INTERVAL = 500;
+
+  private constructor(options: { headless?: boolean; record?: boolean } = {}) {
+    this.headless = options.headless ?? false;
+    if (options.record ?? !this.headless) {
+      this.recorder = new ReplayRecorder();
+    }
 
-  private constructor() {
-    if (GameController.instance) {
+    if (GameController.instance && !this.headless) {
       throw new Error('Use GameController.getInstance() instead');
     }
 
-    // Initialize systems only if we're in the browser
-    if (this.isBrowser) {
+    // Initialize systems only if we're in the browser or running headless
+    if (this.isBrowser || this.headless) {
       this.systems = {
         combat: new CombatSystem(),
         movement: new MovementSystem(),
         round: new RoundSystem(),
         buy: new BuySystem(),
         agent: new AgentSystem(),
-        tactics: new Dust2TacticsSystem()
+        tactics: new TacticsSystem(),
+        bomb: new BombSystem(),
+        inventory: new InventorySystem(),
+        economy: new EconomySystem(),
+        igl: new BotIGLSystem(),
+        scouting: new ScoutingSystem()
       };
     }
 
@@ -194,27 +113,13 @@ export default class GameController {
     return GameController.instance;
   }
 
-  public plantBomb(site: 'A' | 'B'): void {
-    if (this.state.round.phase !== 'live') return;
-    
-    this.state.round.bombPlanted = true;
-    this.state.round.bombSite = site;
-    this.state.round.plantTime = Date.now();
-    this.state.round.phase = 'planted';
-    this.state.round.timeLeft = this.ROUND_TIMES.planted;
-    
-    this.notifyListeners();
-    toast.info(`Bomb planted at ${site} site`);
-  }
-  
-  public defuseBomb(): void {
-    if (!this.state.round.bombPlanted) return;
-    
-    this.state.round.bombPlanted = false;
-    this.endRound('ct', 'Bomb defused');
+  // Standalone controller for simulations: no singleton, no toasts, no window hooks
+  public static createHeadless(options: { record?: boolean } = {}): GameController {
+    return new GameController({ headless: true, record: options.record ?? false });
   }
 
   private createInitialState(): GameState {
+    const rules = getRules();
     const defaultState: GameState = {
       match: {
         id: '',
@@ -222,18 +127,16 @@ export default class GameController {
         currentRound: 1,
         maxRounds: 30,
         score: { t: 0, ct: 0 },
+        rules,
+        halftime: null,
         winner: null,
         startTime: null,
         endTime: null,
-        map: {
-          name: 'de_dust2',
-          areas: ['A', 'B', 'Mid', 'T_Spawn', 'CT_Spawn'],
-          callouts: {}
-        }
+        map: this.createMapState(getMap(DEFAULT_MAP_ID))
       },
       round: {
         phase: 'warmup',
-        timeLeft: 15,
+        timeLeft: rules.warmupTime,
         bombPlanted: false,
         bombSite: null,
         plantTime: null,
@@ -243,22 +146,32 @@ export default class GameController {
           t: 'default',
           ct: 'default'
         },
-        activeCall: null,
+        activeCalls: { t: null, ct: null },
+        callHistory: [],
+        duels: [],
+        utility: [],
+        lineups: [],
+        bomb: { carrierId: null, position: null, action: null },
+        groundWeapons: [],
+        drops: [],
+        economyReport: null,
+        scouting: null,
         momentum: {
           team: null,
           factor: 0
         }
       },
       teams: {
-        t: this.createDefaultTeam(),
-        ct: this.createDefaultTeam()
+        t: this.createDefaultTeam('t'),
+        ct: this.createDefaultTeam('ct')
       },
       events: [],
       combatResult: null,
       meta: {
         version: '1.0.0',
         timestamp: Date.now(),
-        tickRate: 64
+        tickRate: rules.tickRate,
+        seed: this.random.getSeed()
       }
     };
 
@@ -274,7 +187,7 @@ export default class GameController {
 
       this.state = {
         ...this.state,
-        ...newState,
+        ...GameStateSchema.partial().parse(newState),
         meta: {
           ...this.state.meta,
           timestamp
@@ -285,12 +198,17 @@ export default class GameController {
       this.notifyListeners();
     } catch (error) {
       console.error('Error setting game state:', error);
-      toast.error('Failed to update game state');
+      this.notify('error', 'Failed to update game state');
     }
   }
 
+  private notify(type: 'success' | 'info' | 'error', message: string): void {
+    if (this.headless) return;
+    toast[type](message);
+  }
+
   private notifyListeners(): void {
-    if (this.isProcessingUpdate) return;
+    if (this.isProcessingUpdate || this.listeners.size === 0) return;
     
     try {
       this.isProcessingUpdate = true;
@@ -307,38 +225,52 @@ export default class GameController {
     }
   }
 
-  public async initializeMatch(config: {
-    playerTeam: Agent[];
-    botTeam: Agent[];
-    config: {
-      maxRounds: number;
-      startingSide: 't' | 'ct';
-      initialStrategy: string;
-      difficulty: string;
-      matchId: string;
-    };
-  }): Promise<void> {
+  public async initializeMatch(input: MatchConfig): Promise<void> {
     try {
-      if (!config.playerTeam?.length || !config.botTeam?.length) {
-        throw new Error('Invalid team configuration');
-      }
+      // Rejects malformed rosters (bad roles, stats off the 0-1 scale, duplicate ids)
+      const config = MatchConfigSchema.parse(input);
+
+      // Every system draws from the same seeded stream so a config + seed replays identically
+      this.random = new SeededRandom(config.config.seed ?? SeededRandom.generateSeed());
+      this.state.meta.seed = this.random.getSeed();
+
+      // Systems read the map from state in initialize(), so it has to be set first
+      this.state.match.map = this.createMapState(getMap(config.config.mapId ?? DEFAULT_MAP_ID));
 
       this.state.match.id = config.config.matchId;
       this.state.match.status = 'active';
       this.state.match.currentRound = 1;
       this.state.match.maxRounds = config.config.maxRounds;
+      // Systems read the rules in initialize() too; they also drive every phase timer and the tick rate
+      const rules = config.config.rules ?? getRules();
+      this.state.match.rules = rules;
+      this.state.meta.tickRate = rules.tickRate;
+      this.state.match.halftime = null;
       this.state.match.startTime = Date.now();
-
-      this.state.teams[config.config.startingSide].agents = config.playerTeam;
-      this.state.teams[config.config.startingSide === 't' ? 'ct' : 't'].agents = config.botTeam;
-
-      Object.values(this.systems).forEach(system => system.initialize(this.state));
+      this.matchTime = 0;
+      this.lastUtilityProcess = 0;
+
+      const playerSide = config.config.startingSide;
+      const botSide: Side = playerSide === 't' ? 'ct' : 't';
+      this.botSide = botSide;
+      this.state.teams[playerSide].agents = config.playerTeam.map(profile => this.createMatchAgent(profile, playerSide));
+      this.state.teams[botSide].agents = config.botTeam.map(profile => this.createMatchAgent(profile, botSide));
+
+      this.state.teams[playerSide].strategy = config.config.initialStrategy;
+      this.state.round.currentStrategy[playerSide] = config.config.initialStrategy;
+
+      Object.values(this.systems).forEach(system => system.initialize(this.state, this.random));
+      this.systems.igl.setDifficulty(config.config.difficulty);
+      this.systems.economy.resetHalf(this.state, rules.startMoney);
+      this.resetAgentsToSpawn();
+      this.systems.bomb.resetRound(this.state);
+      this.recorder?.start(this.state, this.matchTime);
       this.notifyListeners();
 
-      toast.success('Match initialized successfully');
+      this.notify('success', 'Match initialized successfully');
     } catch (error) {
       console.error('Error initializing match:', error);
-      toast.error('Failed to initialize match');
+      this.notify('error', 'Failed to initialize match');
       throw error;
     }
   }
@@ -346,27 +278,41 @@ export default class GameController {
   public startGameLoop(): void {
     try {
       if (this.gameLoopInterval) clearInterval(this.gameLoopInterval);
-      this.gameLoopInterval = setInterval(() => this.update(1000/60), 1000/60);
-      toast.success('Game loop started');
+      const tickInterval = 1000 / this.state.meta.tickRate;
+      this.gameLoopInterval = setInterval(() => this.update(tickInterval), tickInterval);
+      this.notify('success', 'Game loop started');
     } catch (error) {
       console.error('Error starting game loop:', error);
-      toast.error('Failed to start game loop');
+      this.notify('error', 'Failed to start game loop');
     }
   }
 
+  // Advances the match by one fixed tick; used by the headless MatchRunner
+  public step(deltaTime: number = 1000 / this.state.meta.tickRate): void {
+    this.update(deltaTime);
+  }
+
   private update(deltaTime: number): void {
     try {
       if (this.state.match.status !== 'active') return;
 
-      this.updateTimer(deltaTime);
+      this.matchTime += deltaTime;
+      if (this.systems.round.updateTimer(this.state, deltaTime)) {
+        this.handlePhaseEnd();
+      }
       this.updateMovement(deltaTime);
       this.processCombat();
+      this.processBomb();
+      this.processBotCalls();
+      this.systems.scouting.observe(this.state, this.matchTime);
+      this.systems.inventory.update(this.state, this.matchTime);
+      this.recorder?.recordTick(this.state, this.matchTime);
 
       this.notifyListeners();
     } catch (error) {
       console.error('Error in game update loop:', error);
       this.pauseMatch();
-      toast.error('Game loop error detected');
+      this.notify('error', 'Game loop error detected');
     }
   }
 
@@ -381,20 +327,11 @@ export default class GameController {
     }
   }
 
-  private updateTimer(deltaTime: number): void {
-    if (this.state.round.timeLeft > 0) {
-      this.state.round.timeLeft -= deltaTime / 1000;
-      if (this.state.round.timeLeft <= 0) {
-        this.handlePhaseEnd();
-      }
-    }
-  }
-
   private setupErrorHandlers(): void {
-    if (this.isBrowser) {
+    if (this.isBrowser && !this.headless) {
       window.onerror = (msg, url, lineNo, columnNo, error) => {
         console.error('Game Error:', { msg, url, lineNo, columnNo, error });
-        toast.error('Game error detected');
+        this.notify('error', 'Game error detected');
         this.pauseMatch();
         return false;
       };
@@ -402,66 +339,92 @@ export default class GameController {
   }
 
   private updateMovement(deltaTime: number): void {
-    ['t', 'ct'].forEach(side => {
-      const team = this.state.teams[side as 't' | 'ct'];
+    (['t', 'ct'] as const).forEach(side => {
+      const team = this.state.teams[side];
       this.systems.movement.updatePositions(
         team.agents,
         this.state.round.phase,
         deltaTime,
         team.strategy,
-        this.state.round.activeCall
+        this.state.round.activeCalls[side],
+        this.state.round.utility,
+        this.state.round.bomb
       );
     });
   }
 
+  // Duels run every tick so shots land at each weapon's fire rate; utility
+  // still goes off on a slower cadence
   private processCombat(): void {
-    const now = Date.now();
-    if (now - this.lastCombatProcess >= 500) {
-      const combatResults = this.systems.combat.processCombatRound(
-        [...this.state.teams.t.agents, ...this.state.teams.ct.agents],
-        this.state,
-        { 
-          t: this.state.teams.t.strategy, 
-          ct: this.state.teams.ct.strategy 
-        }
-      );
+    const { phase } = this.state.round;
+    if (phase !== 'live' && phase !== 'planted') return;
+
+    const now = this.matchTime;
+    const agents = [...this.state.teams.t.agents, ...this.state.teams.ct.agents];
+    const strategies = {
+      t: this.state.teams.t.strategy,
+      ct: this.state.teams.ct.strategy
+    };
 
-      if (combatResults.length > 0) {
-        this.state.combatResult = combatResults[combatResults.length - 1];
-        this.handleCombatResult(this.state.combatResult);
-      }
+    const { results: combatResults, duels } = this.systems.combat.processCombatRound(agents, this.state, strategies, now);
+    this.state.round.duels.push(...duels);
+
+    if (now - this.lastUtilityProcess >= this.UTILITY_INTERVAL) {
+      combatResults.push(...this.systems.combat.processUtility(agents, this.state, strategies, now));
+      this.lastUtilityProcess = now;
+    }
 
-      this.lastCombatProcess = now;
+    if (combatResults.length > 0) {
+      this.state.combatResult = combatResults[combatResults.length - 1];
+      combatResults.forEach(result => this.handleCombatResult(result));
+    }
+  }
+
+  // Agents carry, plant and defuse the bomb; the round reacts once an action completes
+  private processBomb(): void {
+    const event = this.systems.bomb.update(this.state, this.matchTime);
+    if (!event) return;
+
+    const agent = this.findAgent(event.agentId);
+    if (agent) this.systems.economy.rewardObjective(agent);
+
+    if (event.outcome === 'planted') {
+      this.systems.round.plantBomb(this.state);
+      this.notify('info', `Bomb planted at ${this.state.round.bombSite} site`);
+    } else {
+      this.endRound('ct', 'bomb_defused');
     }
   }
 
   private handleCombatResult(result: CombatResult): void {
     try {
+      this.recorder?.recordCombat(result, this.matchTime);
+      this.systems.round.registerKill(result);
+
+      // CombatSystem already applied the kill and its stats; we only pay for it and react
       if (result.type === 'kill') {
-        const victim = this.findAgent(result.victim?.id || '');
-        const attacker = this.findAgent(result.attacker.id);
-        
-        if (victim && attacker) {
-          victim.isAlive = false;
-          attacker.matchStats.kills++;
-          victim.matchStats.deaths++;
-          
-          this.checkRoundEnd();
+        const killer = this.findAgent(result.attacker.id);
+        if (killer && killer.team === result.victim?.team) {
+          this.systems.economy.penalizeTeamKill(killer);
+        } else if (killer) {
+          this.systems.economy.rewardKill(killer, result.weapon);
         }
+        this.checkRoundEnd();
       }
     } catch (error) {
       console.error('Error handling combat result:', error);
     }
   }
 
+  // Once the bomb is down the CTs still have to defuse it, even with every T dead
   private checkRoundEnd(): void {
     const tAlive = this.state.teams.t.agents.some(agent => agent.isAlive);
     const ctAlive = this.state.teams.ct.agents.some(agent => agent.isAlive);
 
-    if (!tAlive && ctAlive) {
-      this.endRound('ct', 'All terrorists eliminated');
+    if (!tAlive && ctAlive && !this.state.round.bombPlanted) {
+      this.endRound('ct', 'elimination');
     } else if (tAlive && !ctAlive) {
-      this.endRound('t', 'All counter-terrorists eliminated');
+      this.endRound('t', 'elimination');
     }
   }
 
@@ -469,20 +432,19 @@ export default class GameController {
     try {
       switch (this.state.round.phase) {
         case 'warmup':
-          this.state.round.phase = 'freezetime';
-          this.state.round.timeLeft = this.ROUND_TIMES.freezetime;
+          this.systems.round.endWarmup(this.state);
+          this.startFreezetime();
           break;
         case 'freezetime':
-          this.state.round.phase = 'live';
-          this.state.round.timeLeft = this.ROUND_TIMES.live;
+          this.systems.round.goLive(this.state, this.matchTime);
           break;
         case 'live':
           if (!this.state.round.bombPlanted) {
-            this.endRound('ct', 'Time ran out');
+            this.endRound('ct', 'time');
           }
           break;
         case 'planted':
-          this.endRound('t', 'Bomb detonated');
+          this.endRound('t', 'bomb_detonated');
           break;
         case 'ended':
           this.startNextRound();
@@ -491,94 +453,369 @@ export default class GameController {
       this.notifyListeners();
     } catch (error) {
       console.error('Error handling phase end:', error);
-      toast.error('Error transitioning game phase');
+      this.notify('error', 'Error transitioning game phase');
     }
   }
 
-  private endRound(winner: 't' | 'ct', reason: string): void {
+  private endRound(winner: 't' | 'ct', cause: RoundEndCause): void {
+    if (this.state.round.phase === 'ended') return;
+
     try {
-      this.state.round.phase = 'ended';
-      this.state.round.winner = winner;
-      this.state.round.endReason = reason;
-      this.state.match.score[winner]++;
-  
-      const winningTeam = this.state.teams[winner];
-      winningTeam.roundWins++;
-      winningTeam.money += 3250;
-      
-      const losingTeam = this.state.teams[winner === 't' ? 'ct' : 't'];
-      losingTeam.money += losingTeam.lossBonus;
-      losingTeam.lossBonus = Math.min(losingTeam.lossBonus + 500, 3400);
+      const reason = this.getEndReason(winner, cause);
+      const outcome = this.systems.round.endRound(this.state, winner, cause, reason, this.matchTime);
+      this.systems.scouting.recordRound(this.state, outcome);
+      this.systems.economy.settleRound(this.state, winner, cause);
   
       this.updateMomentum(winner);
       this.notifyListeners();
-      toast.success(`Round ended: ${reason}`);
+      this.notify('success', `Round ended: ${reason}`);
   
+      // Otherwise the 'ended' phase timer hands over to startNextRound
       if (this.checkMatchEnd()) {
         this.endMatch();
-      } else {
-        setTimeout(() => this.startNextRound(), 5000);
+      } else if (this.state.match.currentRound === getHalftimeRound(this.state.match.maxRounds)) {
+        this.state.match.halftime = this.createHalftimeSummary();
+        this.systems.round.startHalftime(this.state);
       }
     } catch (error) {
       console.error('Error ending round:', error);
-      toast.error('Failed to end round properly');
+      this.notify('error', 'Failed to end round properly');
     }
   }
 
+  private getEndReason(winner: Side, cause: RoundEndCause): string {
+    switch (cause) {
+      case 'elimination':
+        return winner === 't' ? 'All counter-terrorists eliminated' : 'All terrorists eliminated';
+      case 'bomb_detonated':
+        return 'Bomb detonated';
+      case 'bomb_defused':
+        return 'Bomb defused';
+      case 'time':
+        return 'Time ran out';
+    }
+  }
+
+  // A tie at the end of regulation or an overtime goes to (another) overtime
+  // unless overtime is off, in which case the match ends drawn
   private checkMatchEnd(): boolean {
-    const { t, ct } = this.state.match.score;
-    const maxRounds = this.state.match.maxRounds;
-    return t > maxRounds / 2 || ct > maxRounds / 2 || this.state.match.currentRound >= maxRounds;
+    const { score, currentRound, maxRounds, rules: { overtime } } = this.state.match;
+    const threshold = getWinThreshold(currentRound, maxRounds, overtime);
+    if (score.t > threshold || score.ct > threshold) return true;
+    return isLastRoundOfPeriod(currentRound, maxRounds, overtime) && !overtime.enabled;
   }
 
-  private endMatch(): void {
+  // Also used to abandon a match from the UI; a tied score then has no winner
+  public endMatch(): void {
+    if (this.state.match.status === 'ended') return;
+
     try {
       const { t, ct } = this.state.match.score;
+      const winner = t === ct ? null : t > ct ? 't' : 'ct';
       this.state.match.status = 'ended';
-      this.state.match.winner = t > ct ? 't' : 'ct';
+      this.state.match.winner = winner;
       this.state.match.endTime = Date.now();
       this.stopGameLoop();
+      this.recorder?.stop(this.state, this.matchTime);
       
       this.notifyListeners();
-      toast.success(`Match ended! Winner: ${this.state.match.winner.toUpperCase()}`);
+      this.notify('success', winner
+        ? `Match ended! Winner: ${winner.toUpperCase()}`
+        : 'Match ended in a draw');
     } catch (error) {
       console.error('Error ending match:', error);
-      toast.error('Failed to end match properly');
+      this.notify('error', 'Failed to end match properly');
     }
   }
 
   private startNextRound(): void {
     try {
+      const { currentRound: previous, maxRounds, rules: { overtime } } = this.state.match;
       this.state.match.currentRound++;
-      this.state.round = {
-        phase: 'freezetime',
-        timeLeft: this.ROUND_TIMES.freezetime,
-        bombPlanted: false,
-        bombSite: null,
-        plantTime: null,
-        winner: null,
-        endReason: null,
-        currentStrategy: {
-          t: this.state.teams.t.strategy,
-          ct: this.state.teams.ct.strategy
-        },
-        activeCall: null
-      };
+      if (isSideSwapRound(previous, maxRounds, overtime)) {
+        this.swapSides();
+        this.resetHalf();
+      } else if (isLastRoundOfPeriod(previous, maxRounds, overtime)) {
+        // Overtime starts on the sides the previous half ended on
+        this.resetHalf();
+        const { overtime: number } = getOvertimeRound(this.state.match.currentRound, maxRounds, overtime);
+        this.notify('info', `Overtime ${number} starting`);
+      }
 
-      ['t', 'ct'].forEach(side => {
-        this.state.teams[side as 't' | 'ct'].agents.forEach(agent => {
-          agent.isAlive = true;
-          agent.health = 100;
-          agent.armor = 0;
-        });
-      });
+      this.systems.round.startRound(this.state);
+      this.resetAgentsToSpawn();
+      this.systems.bomb.resetRound(this.state);
+      this.startFreezetime();
 
       this.notifyListeners();
-      toast.success(`Round ${this.state.match.currentRound} starting`);
+      this.notify('success', `Round ${this.state.match.currentRound} starting`);
     } catch (error) {
       console.error('Error starting next round:', error);
-      toast.error('Failed to start next round');
+      this.notify('error', 'Failed to start next round');
+    }
+  }
+
+  // Score and K/D/A as they stand after the first half, by the side each team played
+  private createHalftimeSummary(): HalftimeSummary {
+    return {
+      round: this.state.match.currentRound,
+      score: { ...this.state.match.score },
+      agents: [...this.state.teams.t.agents, ...this.state.teams.ct.agents].map(agent => ({
+        id: agent.id,
+        name: agent.name,
+        side: agent.team,
+        kills: agent.matchStats.kills,
+        deaths: agent.matchStats.deaths,
+        assists: agent.matchStats.assists
+      }))
+    };
+  }
+
+  // Teams trade sides with their score, round wins and the default strategy
+  private swapSides(): void {
+    const { teams, match } = this.state;
+    [teams.t, teams.ct] = [teams.ct, teams.t];
+    match.score = { t: match.score.ct, ct: match.score.t };
+    (['t', 'ct'] as const).forEach(side => {
+      teams[side].agents.forEach(agent => {
+        agent.team = side;
+      });
+      teams[side].strategy = 'default';
+      teams[side].economy = null;
+    });
+    const { momentum } = this.state.round;
+    if (momentum.team) {
+      momentum.team = momentum.team === 't' ? 'ct' : 't';
+    }
+    if (this.botSide) {
+      this.botSide = this.botSide === 't' ? 'ct' : 't';
+    }
+
+    this.recorder?.recordSideSwap(this.state, this.matchTime);
+    this.notify('info', 'Halftime: teams switch sides');
+  }
+
+  // Everyone restarts with an empty inventory and pistol-round or overtime money
+  private resetHalf(): void {
+    const { currentRound, maxRounds, rules } = this.state.match;
+    const money = currentRound > maxRounds ? rules.overtime.startMoney : rules.startMoney;
+    this.systems.inventory.resetHalf([...this.state.teams.t.agents, ...this.state.teams.ct.agents]);
+    this.systems.economy.resetHalf(this.state, money);
+  }
+
+  // Survivors keep their loadout; InventorySystem re-equips the dead first
+  private resetAgentsToSpawn(): void {
+    this.systems.inventory.resetRound([...this.state.teams.t.agents, ...this.state.teams.ct.agents]);
+    ['t', 'ct'].forEach(side => {
+      const spawn = this.systems.tactics.getSpawnPosition(side);
+      this.state.teams[side as 't' | 'ct'].agents.forEach(agent => {
+        agent.isAlive = true;
+        agent.health = 100;
+        agent.position = { ...spawn };
+      });
+    });
+    this.systems.movement.resetAllPaths();
+    this.systems.combat.resetRound([...this.state.teams.t.agents, ...this.state.teams.ct.agents]);
+  }
+
+  private createMapState(map: MapDefinition): GameState['match']['map'] {
+    return {
+      name: map.id,
+      areas: map.areas,
+      callouts: map.callouts
+    };
+  }
+
+  public updateStrategy(side: Side, strategy: string): void {
+    if (this.state.match.status === 'ended') {
+      throw new Error('Match has ended');
+    }
+    if (!this.systems.tactics.validateStrategy(side, strategy)) {
+      throw new Error(`Unknown ${side.toUpperCase()} strategy: ${strategy}`);
+    }
+
+    this.state.teams[side].strategy = strategy;
+    this.state.round.currentStrategy[side] = strategy;
+
+    // Agents re-route to the new setup on the next tick
+    this.state.teams[side].agents.forEach(agent => this.systems.movement.resetPath(agent.id));
+
+    this.notifyListeners();
+  }
+
+  public processBuy(side: Side, agentId: string, loadout: {
+    weapons: string[];
+    equipment: string[];
+    total: number;
+  }): void {
+    if (this.state.round.phase !== 'freezetime') {
+      throw new Error('Buying is only possible during freezetime');
+    }
+
+    const team = this.getTeam(side);
+    const agent = team.agents.find(member => member.id === agentId);
+    if (!agent) {
+      throw new Error(`Agent ${agentId} is not on the ${side.toUpperCase()} team`);
+    }
+
+    // The client total is ignored: prices always come from the catalogue
+    const cost = this.systems.buy.calculateLoadoutCost(loadout, side);
+    this.systems.economy.spend(agent, cost);
+
+    this.equipWeapons(agent, loadout.weapons);
+    // Grenades stack, one per purchase; armor and the kit are only ever owned once
+    loadout.equipment.forEach(item => {
+      if (isUtility(item) || !agent.equipment.includes(item)) agent.equipment.push(item);
+    });
+    if (loadout.equipment.includes('kevlar')) {
+      agent.armor = 100;
+    }
+    this.systems.economy.syncTeamMoney(this.state);
+
+    this.notifyListeners();
+  }
+
+  // The donor pays from their own wallet; the gun goes straight to the recipient
+  public processDrop(side: Side, donorId: string, recipientId: string, weapon: string): void {
+    if (this.state.round.phase !== 'freezetime') {
+      throw new Error('Weapons can only be dropped during freezetime');
+    }
+    if (donorId === recipientId) {
+      throw new Error('Agents cannot drop a weapon for themselves');
+    }
+
+    const team = this.getTeam(side);
+    const donor = team.agents.find(member => member.id === donorId);
+    const recipient = team.agents.find(member => member.id === recipientId);
+    if (!donor || !recipient) {
+      throw new Error(`Both agents have to be on the ${side.toUpperCase()} team`);
+    }
+
+    const cost = this.systems.buy.calculateLoadoutCost({ weapons: [weapon], equipment: [] }, side);
+    this.systems.economy.spend(donor, cost);
+    this.equipWeapons(recipient, [weapon]);
+    this.state.round.drops.push({
+      id: `drop-${this.random.id()}`,
+      round: this.state.match.currentRound,
+      donorId,
+      recipientId,
+      weapon,
+      cost,
+      time: this.matchTime
+    });
+    this.systems.economy.syncTeamMoney(this.state);
+
+    this.notifyListeners();
+  }
+
+  // A new gun replaces the one in the same slot; the other slot is kept
+  private equipWeapons(agent: Agent, weapons: string[]): void {
+    const hasPistol = weapons.some(id => getWeapon(id).type === 'pistol');
+    const hasPrimary = weapons.some(id => getWeapon(id).type !== 'pistol');
+    agent.weapons = [
+      ...agent.weapons.filter(id => {
+        const isPistol = getWeapon(id).type === 'pistol';
+        return isPistol ? !hasPistol : !hasPrimary;
+      }),
+      ...weapons
+    ];
+  }
+
+  // Opens freezetime: snapshots wallets for the round report and plans both
+  // sides' buys. The bot side then picks its strategy, drops and buys its plan;
+  // the player only sees the recommendation, except headless, where nobody is
+  // at the buy menu and the player side buys its plan too
+  private startFreezetime(): void {
+    this.systems.economy.beginRound(this.state);
+    (['t', 'ct'] as const).forEach(side => {
+      this.state.teams[side].economy = this.systems.buy.planTeamBuy(this.state, side);
+    });
+    // Reports read both buy plans, and nothing they scout changes until the round goes live
+    this.state.round.scouting = {
+      t: this.systems.scouting.getReport(this.state, 't'),
+      ct: this.systems.scouting.getReport(this.state, 'ct')
+    };
+    if (!this.botSide) return;
+
+    const botSide = this.botSide;
+    const strategy = this.systems.igl.chooseStrategy(
+      this.state,
+      botSide,
+      this.systems.tactics.getAvailableStrategies(botSide),
+      this.systems.round
+    );
+    this.updateStrategy(botSide, strategy);
+
+    const buyers: Side[] = this.headless ? ['t', 'ct'] : [botSide];
+    buyers.forEach(side => this.buyTeamPlan(side));
+  }
+
+  private buyTeamPlan(side: Side): void {
+    const { agents, economy } = this.state.teams[side];
+    const buyType = economy!.buyType;
+    // Drops go first so donors spend on teammates before their own utility
+    this.systems.buy.planDrops(agents, buyType, side)
+      .forEach(drop => this.processDrop(side, drop.donor, drop.recipient, drop.weapon));
+    this.systems.buy.calculateTeamBuy(agents, buyType, side)
+      .filter(({ loadout }) => loadout.weapons.length > 0 || loadout.equipment.length > 0)
+      .forEach(({ agent, loadout }) => this.processBuy(side, agent, loadout));
+  }
+
+  // Calls only steer the calling side; issuedBy defaults to the side's shot-caller
+  public makeMidRoundCall(side: Side, call: string, issuedBy?: string): void {
+    const { phase } = this.state.round;
+    if (this.state.match.status !== 'active' || phase === 'ended' || phase === 'warmup') {
+      throw new Error('Calls can only be made during a round');
+    }
+    if (!this.systems.tactics.getAvailableMidRoundCalls(side).includes(call)) {
+      throw new Error(`Unknown ${side.toUpperCase()} call: ${call}`);
+    }
+
+    const issuer = issuedBy
+      ? this.getTeam(side).agents.find(agent => agent.id === issuedBy && agent.isAlive)
+      : this.findShotCaller(side);
+    if (issuedBy && !issuer) {
+      throw new Error(`Agent ${issuedBy} cannot make calls for ${side.toUpperCase()}`);
     }
+
+    const midRoundCall: MidRoundCall = {
+      call,
+      side,
+      issuedBy: issuer?.id ?? null,
+      timestamp: this.matchTime
+    };
+    this.state.round.activeCalls[side] = midRoundCall;
+    this.state.round.callHistory.push(midRoundCall);
+    this.state.teams[side].agents.forEach(agent => this.systems.movement.resetPath(agent.id));
+
+    this.notifyListeners();
+    this.notify('info', `${side.toUpperCase()} call: ${call}`);
+  }
+
+  // The bot side's shot-caller reacts to the round as it unfolds
+  private processBotCalls(): void {
+    if (!this.botSide) return;
+    const caller = this.findShotCaller(this.botSide);
+    if (!caller) return;
+
+    const decision = this.systems.igl.update(this.state, this.botSide, caller, this.matchTime);
+    if (decision) {
+      this.makeMidRoundCall(this.botSide, decision.call, decision.issuedBy);
+    }
+  }
+
+  // The In-Game Leader calls while alive; otherwise the best remaining leader takes over
+  private findShotCaller(side: Side): Agent | undefined {
+    const alive = this.getTeam(side).agents.filter(agent => agent.isAlive);
+    return alive.find(agent => agent.role === 'In-Game Leader')
+      ?? alive.reduce<Agent | undefined>((best, agent) => (
+        !best || agent.stats.leadership > best.stats.leadership ? agent : best
+      ), undefined);
+  }
+
+  public clearCombatResult(): void {
+    this.state.combatResult = null;
+    this.notifyListeners();
   }
 
   public pauseMatch(): void {
@@ -589,10 +826,10 @@ export default class GameController {
         this.gameLoopInterval = null;
       }
       this.notifyListeners();
-      toast.info('Match paused');
+      this.notify('info', 'Match paused');
     } catch (error) {
       console.error('Error pausing match:', error);
-      toast.error('Failed to pause match');
+      this.notify('error', 'Failed to pause match');
     }
   }
 
@@ -601,10 +838,10 @@ export default class GameController {
       this.state.match.status = 'active';
       this.startGameLoop();
       this.notifyListeners();
-      toast.success('Match resumed');
+      this.notify('success', 'Match resumed');
     } catch (error) {
       console.error('Error resuming match:', error);
-      toast.error('Failed to resume match');
+      this.notify('error', 'Failed to resume match');
     }
   }
 
@@ -624,46 +861,43 @@ export default class GameController {
     return { ...this.state };
   }
 
+  public getReplay(): Replay | null {
+    return this.recorder?.getReplay() ?? null;
+  }
+
+  public getRoundHistory(): RoundOutcome[] {
+    return [...this.systems.round.getRoundHistory()];
+  }
+
+  public getStrategyStats(side: Side, strategy: string): StrategyRecord {
+    return this.systems.round.getStrategyStats(side, strategy);
+  }
+
+  public getSeed(): number {
+    return this.random.getSeed();
+  }
+
   private createDefaultTeam(side: 't' | 'ct'): Team {
     return {
-      money: 800,
+      money: getRules().startMoney * AGENT_ROLES.length,
       roundWins: 0,
       lossBonus: 1400,
       timeoutAvailable: true,
       strategy: 'default',
-      agents: Array(5).fill(null).map((_, index) => ({
+      agents: AGENT_ROLES.map((role, index) => this.createMatchAgent({
         id: `${side}-agent-${index}`,
         name: `${side} Agent ${index + 1}`,
-        team: side,
-        role: 'rifler',
-        position: { x: 0, y: 0 },
-        isAlive: true,
-        health: 100,
-        armor: 0,
-        weapons: [],
-        equipment: [],
+        role,
         stats: {
-          aim: 50 + Math.floor(Math.random() * 50),
-          reaction: 50 + Math.floor(Math.random() * 50),
-          positioning: 50 + Math.floor(Math.random() * 50),
-          utility: 50 + Math.floor(Math.random() * 50),
-          leadership: 50 + Math.floor(Math.random() * 50),
-          clutch: 50 + Math.floor(Math.random() * 50)
-        },
-        matchStats: {
-          kills: 0,
-          deaths: 0,
-          assists: 0,
-          utilityDamage: 0,
-          flashAssists: 0
-        },
-        strategyStats: {
-          utilityUsage: 0,
-          positioningScore: 0,
-          strategyAdherence: 0,
-          impactRating: 0
+          aim: this.random.range(0.5, 0.99),
+          reaction: this.random.range(0.5, 0.99),
+          positioning: this.random.range(0.5, 0.99),
+          utility: this.random.range(0.5, 0.99),
+          leadership: this.random.range(0.5, 0.99),
+          clutch: this.random.range(0.5, 0.99)
         }
-      })),
+      }, side)),
+      economy: null,
       strategyStats: {
         roundsWonWithStrategy: {},
         strategySuccessRate: 0,
@@ -672,6 +906,35 @@ export default class GameController {
     };
   }
 
+  // The engine owns match state: rosters only bring identity, role and stats
+  private createMatchAgent(profile: AgentProfile, side: Side): Agent {
+    return {
+      ...profile,
+      stats: { ...profile.stats },
+      team: side,
+      position: { x: 0, y: 0 },
+      isAlive: true,
+      health: 100,
+      armor: 0,
+      weapons: [DEFAULT_PISTOLS[side]],
+      equipment: [],
+      economy: { current: getRules().startMoney, spent: 0, earned: 0 },
+      matchStats: {
+        kills: 0,
+        deaths: 0,
+        assists: 0,
+        utilityDamage: 0,
+        flashAssists: 0
+      },
+      strategyStats: {
+        utilityUsage: 0,
+        positioningScore: 0,
+        strategyAdherence: 0,
+        impactRating: 0
+      }
+    };
+  }
+
   public cleanup(): void {
     if (!this.isBrowser) return;
     
@@ -690,6 +953,7 @@ export default class GameController {
     return () => {
       this.listeners.delete(listener);
     };
+  }
 
   // Helper method to safely update team state
   private updateTeam(side: 't' | 'ct', updates: Partial<Team>): void {
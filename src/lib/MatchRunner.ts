@@ -0,0 +1,69 @@
+// MatchRunner.ts
+// Drives a headless GameController on a virtual clock so whole matches can be
+// simulated in Node (Jest, scripts) far faster than real time.
+import GameController from '@/lib/GameController';
+import type { Replay } from '@/lib/replay';
+
+type MatchConfig = Parameters<GameController['initializeMatch']>[0];
+type MatchState = ReturnType<GameController['getState']>;
+
+interface MatchRunnerOptions {
+  // Simulation ticks per second of match time; defaults to the controller's tickRate
+  tickRate?: number;
+  // Safety cap so a stuck match can never spin forever (seconds of match time)
+  maxMatchSeconds?: number;
+  // Capture a replay of every match (off by default to keep batch runs lean)
+  record?: boolean;
+}
+
+interface MatchRunResult {
+  state: MatchState;
+  seed: number;
+  ticks: number;
+  matchSeconds: number;
+  completed: boolean;
+  replay: Replay | null;
+}
+
+class MatchRunner {
+  private readonly DEFAULT_MAX_MATCH_SECONDS = 60 * 60 * 3;
+
+  constructor(private readonly options: MatchRunnerOptions = {}) {}
+
+  async run(config: MatchConfig): Promise<MatchRunResult> {
+    const controller = GameController.createHeadless({ record: this.options.record });
+    await controller.initializeMatch(config);
+
+    const tickRate = this.options.tickRate ?? controller.getState().meta.tickRate;
+    const deltaTime = 1000 / tickRate;
+    const maxTicks = Math.ceil(
+      (this.options.maxMatchSeconds ?? this.DEFAULT_MAX_MATCH_SECONDS) * tickRate
+    );
+
+    let ticks = 0;
+    while (controller.getState().match.status === 'active' && ticks < maxTicks) {
+      controller.step(deltaTime);
+      ticks++;
+    }
+
+    const state = controller.getState();
+    return {
+      state,
+      seed: controller.getSeed(),
+      ticks,
+      matchSeconds: (ticks * deltaTime) / 1000,
+      completed: state.match.status === 'ended',
+      replay: controller.getReplay()
+    };
+  }
+
+  async runBatch(configs: MatchConfig[]): Promise<MatchRunResult[]> {
+    const results: MatchRunResult[] = [];
+    for (const config of configs) {
+      results.push(await this.run(config));
+    }
+    return results;
+  }
+}
+
+export default MatchRunner;
@@ -0,0 +1,59 @@
+// SeededRandom.ts
+// Small deterministic PRNG (mulberry32) shared by every game system so that a
+// match config plus a seed always replays the same match.
+class SeededRandom {
+  private readonly seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.generateSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  reset(): void {
+    this.state = this.seed;
+  }
+
+  // Returns a float in [0, 1), same contract as Math.random()
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  id(length: number = 9): string {
+    let result = '';
+    while (result.length < length) {
+      result += Math.floor(this.next() * 36).toString(36);
+    }
+    return result;
+  }
+}
+
+export default SeededRandom;
@@ -0,0 +1,64 @@
+import { getPrimaryWeapon } from '@/lib/weapons';
+import { startHeadlessMatch, stepUntil } from '@/lib/__tests__/headless';
+import type GameController from '@/lib/GameController';
+import type { Agent, Side } from '@/types/game';
+
+jest.setTimeout(120000);
+
+describe('GameController team drops in a seeded headless match', () => {
+  let controller: GameController;
+
+  const agents = (side: Side) => controller.getState().teams[side].agents;
+  const wallet = (agent: Agent) => agents(agent.team).find(member => member.id === agent.id)!.economy.current;
+
+  beforeEach(async () => {
+    controller = await startHeadlessMatch(19);
+    // Round 2 freezetime, after both teams bought their plans
+    stepUntil(controller, state => state.match.currentRound === 2 && state.round.phase === 'freezetime');
+    agents('t').forEach(agent => {
+      agent.economy.current = 5000;
+    });
+  });
+
+  it('charges the donor and hands the gun straight to the recipient', () => {
+    const [donor, recipient] = agents('t');
+    const others = agents('t').slice(2).map(wallet);
+    recipient.weapons = ['glock'];
+
+    controller.processDrop('t', donor.id, recipient.id, 'ak47');
+
+    expect(wallet(donor)).toBe(5000 - 2700);
+    expect(wallet(recipient)).toBe(5000);
+    expect(agents('t').slice(2).map(wallet)).toEqual(others);
+    expect(getPrimaryWeapon(recipient.weapons)?.id).toBe('ak47');
+    expect(recipient.weapons).toContain('glock');
+    expect(controller.getState().teams.t.money).toBe(4 * 5000 + 2300);
+    expect(controller.getState().round.drops.at(-1)).toMatchObject({
+      round: 2, donorId: donor.id, recipientId: recipient.id, weapon: 'ak47', cost: 2700
+    });
+  });
+
+  it('refuses drops it cannot make and leaves both wallets alone', () => {
+    const [donor, recipient] = agents('t');
+    const enemy = agents('ct')[0];
+    const before = controller.getState().round.drops.length;
+
+    expect(() => controller.processDrop('t', donor.id, donor.id, 'ak47')).toThrow('themselves');
+    expect(() => controller.processDrop('t', donor.id, enemy.id, 'ak47')).toThrow('T team');
+    expect(() => controller.processDrop('t', donor.id, recipient.id, 'm4a4')).toThrow('only available to CT');
+    donor.economy.current = 1000;
+    expect(() => controller.processDrop('t', donor.id, recipient.id, 'ak47')).toThrow('Not enough money');
+
+    expect(wallet(donor)).toBe(1000);
+    expect(wallet(recipient)).toBe(5000);
+    expect(controller.getState().round.drops).toHaveLength(before);
+  });
+
+  it('only takes drops during freezetime', () => {
+    const [donor, recipient] = agents('t');
+    stepUntil(controller, state => state.round.phase === 'live');
+
+    expect(() => controller.processDrop('t', donor.id, recipient.id, 'ak47')).toThrow('freezetime');
+    expect(wallet(donor)).toBe(5000);
+  });
+});
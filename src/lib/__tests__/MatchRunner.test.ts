@@ -0,0 +1,66 @@
+import MatchRunner from '@/lib/MatchRunner';
+
+type MatchConfig = Parameters<MatchRunner['run']>[0];
+
+const ROLES = ['Entry Fragger', 'AWPer', 'Support', 'In-Game Leader', 'Lurker'] as const;
+
+function createTeam(prefix: string, side: 't' | 'ct') {
+  return ROLES.map((role, index) => ({
+    id: `${prefix}-${index}`,
+    name: `${prefix} ${index + 1}`,
+    team: side,
+    role,
+    position: { x: side === 't' ? 60 : 230, y: 180 },
+    isAlive: true,
+    health: 100,
+    armor: 0,
+    weapons: [side === 't' ? 'glock' : 'usp'],
+    equipment: [],
+    stats: { aim: 0.7, reaction: 0.7, positioning: 0.7, utility: 0.7, leadership: 0.7, clutch: 0.7 },
+    matchStats: { kills: 0, deaths: 0, assists: 0, utilityDamage: 0, flashAssists: 0 },
+    strategyStats: { utilityUsage: 0, positioningScore: 0, strategyAdherence: 0, impactRating: 0 }
+  }));
+}
+
+function createConfig(seed: number): MatchConfig {
+  return {
+    playerTeam: createTeam('player', 't'),
+    botTeam: createTeam('bot', 'ct'),
+    config: {
+      maxRounds: 30,
+      startingSide: 't',
+      initialStrategy: 'default',
+      difficulty: 'medium',
+      matchId: `runner-${seed}`,
+      seed
+    }
+  } as MatchConfig;
+}
+
+// Whole matches take a few seconds each in Node
+jest.setTimeout(120000);
+
+describe('MatchRunner', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('plays a 30-round match to the end on the virtual clock', async () => {
+    const result = await new MatchRunner().run(createConfig(7));
+    const { score } = result.state.match;
+
+    expect(result.completed).toBe(true);
+    expect(result.state.match.status).toBe('ended');
+    expect(Math.max(score.t, score.ct)).toBeGreaterThan(15);
+    expect(score.t + score.ct).toBeLessThanOrEqual(30);
+  });
+
+  it('ends every run from the same seed in an identical state', async () => {
+    // Start, end and meta timestamps are wall-clock stamps; nothing simulated reads them
+    jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2024, 0, 1));
+    const [first, second] = await new MatchRunner().runBatch([createConfig(11), createConfig(11)]);
+
+    expect(second.ticks).toBe(first.ticks);
+    expect(second.state).toEqual(first.state);
+  });
+});
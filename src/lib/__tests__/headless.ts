@@ -0,0 +1,62 @@
+// Seeded headless matches for the engine tests, stepped one tick at a time
+import GameController from '@/lib/GameController';
+import type { AgentProfile, AgentRole, GameState, MatchConfig } from '@/types/game';
+
+const ROLES: AgentRole[] = ['Entry Fragger', 'AWPer', 'Support', 'In-Game Leader', 'Lurker'];
+
+export function createRoster(prefix: string): AgentProfile[] {
+  return ROLES.map((role, index) => ({
+    id: `${prefix}-${index}`,
+    name: `${prefix} ${index + 1}`,
+    role,
+    stats: { aim: 0.7, reaction: 0.7, positioning: 0.7, utility: 0.7, leadership: 0.7, clutch: 0.7 }
+  }));
+}
+
+export function createMatchConfig(seed: number, overrides: Partial<MatchConfig['config']> = {}): MatchConfig {
+  return {
+    playerTeam: createRoster('player'),
+    botTeam: createRoster('bot'),
+    config: {
+      maxRounds: 30,
+      startingSide: 't',
+      initialStrategy: 'default',
+      difficulty: 'medium',
+      matchId: `headless-${seed}`,
+      seed,
+      ...overrides
+    }
+  };
+}
+
+export async function startHeadlessMatch(
+  seed: number,
+  overrides: Partial<MatchConfig['config']> = {}
+): Promise<GameController> {
+  const controller = GameController.createHeadless();
+  await controller.initializeMatch(createMatchConfig(seed, overrides));
+  return controller;
+}
+
+// Steps until `until` holds or `seconds` of match time have passed; returns whether `until` held.
+// `onTick` sees the state after every tick
+export function stepUntil(
+  controller: GameController,
+  until: (state: GameState) => boolean,
+  { seconds = 600, onTick }: { seconds?: number; onTick?: (state: GameState) => void } = {}
+): boolean {
+  const deltaTime = 1000 / controller.getState().meta.tickRate;
+  for (let elapsed = 0; elapsed < seconds * 1000; elapsed += deltaTime) {
+    controller.step(deltaTime);
+    const state = controller.getState();
+    onTick?.(state);
+    if (until(state)) return true;
+    if (state.match.status !== 'active') return false;
+  }
+  return false;
+}
+
+// Plays through the end of the given round
+export function playThroughRound(controller: GameController, round: number, onTick?: (state: GameState) => void): boolean {
+  return stepUntil(controller, state => state.match.currentRound > round || state.match.status === 'ended', { onTick });
+}
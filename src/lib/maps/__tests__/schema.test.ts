@@ -0,0 +1,23 @@
+import de_dust2 from '@/lib/maps/de_dust2';
+import { MapDefinitionSchema } from '@/lib/maps/schema';
+
+describe('mid-round call definitions', () => {
+  it('gives every Dust II call its own speed and engagement', () => {
+    Object.values(de_dust2.midRoundCalls).forEach(call => {
+      expect(call.speed).toEqual(expect.any(Number));
+      expect(call.engagement).toEqual(expect.any(String));
+    });
+  });
+
+  it.each(['speed', 'engagement'] as const)('rejects a call without %s', field => {
+    const { [field]: _omitted, ...fakeA } = de_dust2.midRoundCalls.fake_a;
+    const result = MapDefinitionSchema.safeParse({
+      ...de_dust2,
+      midRoundCalls: { ...de_dust2.midRoundCalls, fake_a: fakeA }
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.success ? [] : result.error.issues.map(issue => issue.path.join('.')))
+      .toContain(`midRoundCalls.fake_a.${field}`);
+  });
+});
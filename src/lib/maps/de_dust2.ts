@@ -0,0 +1,570 @@
+// src/lib/maps/de_dust2.ts
+import type { MapDefinitionInput, MapObstacle } from './schema';
+
+const rect = (
+  id: string,
+  name: string,
+  type: MapObstacle['type'],
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): MapObstacle => ({
+  id,
+  name,
+  type,
+  points: [
+    { x: x1, y: y1 },
+    { x: x2, y: y1 },
+    { x: x2, y: y2 },
+    { x: x1, y: y2 }
+  ]
+});
+
+const allRoles = (position: string) => ({
+  'Entry Fragger': [position],
+  'AWPer': [position],
+  'Support': [position],
+  'In-Game Leader': [position],
+  'Lurker': [position]
+});
+
+const de_dust2: MapDefinitionInput = {
+  id: 'de_dust2',
+  name: 'Dust II',
+  areas: ['A', 'B', 'Mid', 'T_Spawn', 'CT_Spawn'],
+
+  callouts: {
+    t_spawn: { name: 'T Spawn', type: 'spawn', position: { x: 60, y: 180 } },
+    ct_spawn: { name: 'CT Spawn', type: 'spawn', position: { x: 230, y: 170 } },
+    a_site: { name: 'A Site', type: 'site', position: { x: 220, y: 80 } },
+    b_platform: { name: 'B Site', type: 'site', position: { x: 70, y: 220 } },
+    t_mid: { name: 'T Mid', type: 'position', position: { x: 120, y: 150 } },
+    long_doors: { name: 'Long Doors', type: 'position', position: { x: 85, y: 80 } },
+    upper_tunnels: { name: 'Upper Tunnels', type: 'position', position: { x: 80, y: 200 } },
+    lower_tunnels: { name: 'Lower Tunnels', type: 'position', position: { x: 100, y: 220 } },
+    window: { name: 'Window', type: 'position', position: { x: 150, y: 120 } },
+    goose: { name: 'Goose', type: 'position', position: { x: 200, y: 90 } },
+    car: { name: 'Car', type: 'position', position: { x: 240, y: 70 } },
+    mid_doors: { name: 'Mid Doors', type: 'position', position: { x: 150, y: 150 } },
+    catwalk: { name: 'Catwalk', type: 'position', position: { x: 180, y: 120 } },
+    xbox: { name: 'Xbox', type: 'position', position: { x: 130, y: 130 } },
+    mid_to_b: { name: 'Mid to B', type: 'position', position: { x: 175, y: 215 } },
+    b_doors: { name: 'B Doors', type: 'position', position: { x: 115, y: 240 } }
+  },
+
+  spawns: { t: 't_spawn', ct: 'ct_spawn' },
+  sites: { A: 'a_site', B: 'b_platform' },
+
+  obstacles: [
+    // Buildings
+    rect('long_a_building', 'Long A Building', 'wall', 95, 95, 180, 112),
+    rect('outside_long', 'Outside Long', 'wall', 80, 110, 110, 140),
+    rect('tunnels', 'Tunnels', 'wall', 125, 160, 160, 205),
+    rect('upper_tunnels_wall', 'Upper Tunnels Wall', 'wall', 84, 171, 96, 185),
+    rect('b_platform_wall', 'B Platform Wall', 'wall', 40, 195, 65, 210),
+
+    // Doors
+    rect('mid_doors_north', 'Mid Doors (North)', 'door', 145, 132, 148, 142),
+    rect('mid_doors_south', 'Mid Doors (South)', 'door', 145, 158, 148, 172),
+
+    // Boxes
+    rect('xbox', 'Xbox', 'box', 133, 136, 141, 144),
+    rect('a_site_box', 'A Site Default', 'box', 228, 85, 236, 95),
+    rect('b_site_box', 'B Site Box', 'box', 45, 228, 58, 238)
+  ],
+
+  // Every connection is a straight walk that does not cross an obstacle
+  connections: [
+    // T side
+    ['t_spawn', 'long_doors'],
+    ['t_spawn', 'upper_tunnels'],
+    ['t_spawn', 't_mid'],
+    // Tunnels / B
+    ['upper_tunnels', 'b_platform'],
+    ['upper_tunnels', 'lower_tunnels'],
+    ['lower_tunnels', 't_mid'],
+    ['lower_tunnels', 'b_platform'],
+    // Mid
+    ['t_mid', 'xbox'],
+    ['t_mid', 'mid_doors'],
+    ['xbox', 'catwalk'],
+    ['mid_doors', 'window'],
+    ['mid_doors', 'ct_spawn'],
+    // A
+    ['catwalk', 'a_site'],
+    ['long_doors', 'a_site'],
+    ['a_site', 'goose'],
+    ['a_site', 'car'],
+    ['a_site', 'ct_spawn'],
+    // CT rotation to B
+    ['ct_spawn', 'mid_to_b'],
+    ['mid_to_b', 'b_doors'],
+    ['b_doors', 'b_platform']
+  ],
+
+  strategies: {
+    t_side: {
+      default: {
+        label: 'Default Setup',
+        description: 'Balanced setup with standard positions',
+        positions: {
+          'Entry Fragger': ['t_spawn', 'long_doors'],
+          'AWPer': ['t_spawn', 't_mid'],
+          'Support': ['t_spawn', 'upper_tunnels'],
+          'In-Game Leader': ['t_spawn', 'catwalk'],
+          'Lurker': ['t_spawn', 'lower_tunnels']
+        },
+        utility: {
+          'Support': ['smoke', 'flash'],
+          'Entry Fragger': ['flash', 'flash'],
+          'In-Game Leader': ['smoke', 'molotov']
+        }
+      },
+      rush_b: {
+        label: 'Rush B',
+        description: 'Fast B execute with full team commitment',
+        positions: {
+          'Entry Fragger': ['t_spawn', 'upper_tunnels', 'b_platform'],
+          'AWPer': ['t_spawn', 'upper_tunnels', 'b_platform'],
+          'Support': ['t_spawn', 'upper_tunnels', 'b_platform'],
+          'In-Game Leader': ['t_spawn', 'upper_tunnels', 'b_platform'],
+          'Lurker': ['t_spawn', 'mid_doors']
+        },
+        utility: {
+          'Support': ['smoke', 'flash', 'flash'],
+          'Entry Fragger': ['flash', 'flash'],
+          'In-Game Leader': ['molotov']
+        },
+        priority: { speed: 0.8, utility: 0.2 }
+      },
+      split_a: {
+        label: 'Split A',
+        description: 'Split attack through Long and Short A',
+        positions: {
+          'Entry Fragger': ['t_spawn', 'long_doors', 'a_site'],
+          'AWPer': ['t_spawn', 'catwalk', 'a_site'],
+          'Support': ['t_spawn', 'catwalk', 'a_site'],
+          'In-Game Leader': ['t_spawn', 'long_doors', 'a_site'],
+          'Lurker': ['t_spawn', 'upper_tunnels']
+        },
+        utility: {
+          'Support': ['smoke', 'smoke', 'flash'],
+          'Entry Fragger': ['flash', 'molotov'],
+          'In-Game Leader': ['smoke', 'flash']
+        },
+        priority: { coordination: 0.7, utility: 0.3 }
+      },
+      mid_control: {
+        label: 'Mid Control',
+        description: 'Secure mid control before site hit',
+        positions: {
+          'Entry Fragger': ['t_spawn', 't_mid', 'catwalk'],
+          'AWPer': ['t_spawn', 't_mid', 'mid_doors'],
+          'Support': ['t_spawn', 'xbox', 'catwalk'],
+          'In-Game Leader': ['t_spawn', 't_mid', 'mid_doors'],
+          'Lurker': ['t_spawn', 'lower_tunnels']
+        },
+        utility: {
+          'Support': ['smoke', 'flash'],
+          'Entry Fragger': ['flash', 'molotov'],
+          'In-Game Leader': ['smoke', 'flash']
+        }
+      },
+      fake_a_b: {
+        label: 'Fake A to B',
+        description: 'Fake presence at A before B execute',
+        positions: {
+          'Entry Fragger': ['t_spawn', 'upper_tunnels', 'b_platform'],
+          'AWPer': ['t_spawn', 'upper_tunnels', 'b_platform'],
+          'Support': ['t_spawn', 'long_doors', 'b_platform'],
+          'In-Game Leader': ['t_spawn', 'upper_tunnels', 'b_platform'],
+          'Lurker': ['t_spawn', 'long_doors']
+        },
+        utility: {
+          'Support': ['smoke', 'flash'],
+          'Lurker': ['flash', 'molotov'],
+          'In-Game Leader': ['smoke', 'flash']
+        }
+      },
+      eco_rush: {
+        label: 'Eco Rush',
+        description: 'Economic round with rushed strategy',
+        positions: {
+          'Entry Fragger': ['t_spawn', 'upper_tunnels', 'b_platform'],
+          'AWPer': ['t_spawn', 'upper_tunnels', 'b_platform'],
+          'Support': ['t_spawn', 'upper_tunnels', 'b_platform'],
+          'In-Game Leader': ['t_spawn', 'upper_tunnels', 'b_platform'],
+          'Lurker': ['t_spawn', 'upper_tunnels', 'b_platform']
+        },
+        priority: { speed: 1 }
+      }
+    },
+    ct_side: {
+      default: {
+        label: 'Default Setup',
+        description: 'Balanced setup with standard positions',
+        positions: {
+          'Entry Fragger': ['ct_spawn', 'long_doors'],
+          'AWPer': ['ct_spawn', 'mid_doors'],
+          'Support': ['ct_spawn', 'b_platform'],
+          'In-Game Leader': ['ct_spawn', 'a_site'],
+          'Lurker': ['ct_spawn', 'window']
+        },
+        utility: {
+          'Support': ['smoke', 'flash'],
+          'Entry Fragger': ['flash', 'flash'],
+          'In-Game Leader': ['smoke', 'molotov']
+        }
+      },
+      aggressive_mid: {
+        label: 'Aggressive Mid',
+        description: 'Control mid with aggressive positioning',
+        positions: {
+          'Entry Fragger': ['ct_spawn', 'mid_doors'],
+          'AWPer': ['ct_spawn', 'catwalk'],
+          'Support': ['ct_spawn', 'window'],
+          'In-Game Leader': ['ct_spawn', 'a_site'],
+          'Lurker': ['ct_spawn', 'b_platform']
+        },
+        utility: {
+          'Support': ['smoke', 'flash'],
+          'Entry Fragger': ['flash', 'flash'],
+          'In-Game Leader': ['smoke']
+        }
+      },
+      stack_a: {
+        label: 'Stack A',
+        description: 'Stack multiple players on A site',
+        positions: {
+          'Entry Fragger': ['ct_spawn', 'a_site'],
+          'AWPer': ['ct_spawn', 'goose'],
+          'Support': ['ct_spawn', 'car'],
+          'In-Game Leader': ['ct_spawn', 'a_site'],
+          'Lurker': ['ct_spawn', 'mid_doors']
+        },
+        utility: {
+          'Support': ['smoke', 'flash'],
+          'Entry Fragger': ['molotov'],
+          'In-Game Leader': ['smoke', 'flash']
+        }
+      },
+      stack_b: {
+        label: 'Stack B',
+        description: 'Stack multiple players on B site',
+        positions: {
+          'Entry Fragger': ['ct_spawn', 'b_platform'],
+          'AWPer': ['ct_spawn', 'window'],
+          'Support': ['ct_spawn', 'b_platform'],
+          'In-Game Leader': ['ct_spawn', 'b_platform'],
+          'Lurker': ['ct_spawn', 'mid_doors']
+        },
+        utility: {
+          'Support': ['smoke', 'flash'],
+          'Entry Fragger': ['molotov'],
+          'In-Game Leader': ['smoke', 'flash']
+        }
+      },
+      retake_setup: {
+        label: 'Retake Setup',
+        description: 'Setup for retake scenarios',
+        positions: {
+          'Entry Fragger': ['ct_spawn', 'car'],
+          'AWPer': ['ct_spawn', 'mid_doors'],
+          'Support': ['ct_spawn', 'window'],
+          'In-Game Leader': ['ct_spawn', 'goose'],
+          'Lurker': ['ct_spawn', 'b_platform']
+        },
+        utility: {
+          'Support': ['smoke', 'flash', 'flash'],
+          'Entry Fragger': ['flash', 'molotov'],
+          'In-Game Leader': ['smoke', 'flash']
+        }
+      }
+    }
+  },
+
+  midRoundCalls: {
+    rotate_a: {
+      label: 'Rotate to A',
+      description: 'Move the team over to A',
+      speed: 1.2,
+      engagement: 'normal',
+      positions: {
+        'Entry Fragger': ['a_site'],
+        'AWPer': ['long_doors'],
+        'Support': ['catwalk'],
+        'In-Game Leader': ['a_site'],
+        'Lurker': ['mid_doors']
+      }
+    },
+    rotate_b: {
+      label: 'Rotate to B',
+      description: 'Move the team over to B',
+      speed: 1.2,
+      engagement: 'normal',
+      positions: {
+        'Entry Fragger': ['b_platform'],
+        'AWPer': ['window'],
+        'Support': ['b_platform'],
+        'In-Game Leader': ['b_platform'],
+        'Lurker': ['upper_tunnels']
+      }
+    },
+    hold_positions: {
+      label: 'Hold Positions',
+      description: 'Stop and hold the current angles',
+      speed: 1,
+      engagement: 'hold',
+      positions: allRoles('current')
+    },
+    fall_back: {
+      label: 'Fall Back',
+      description: 'Retreat towards spawn and hold there',
+      speed: 1.1,
+      engagement: 'hold',
+      positions: allRoles('spawn')
+    },
+    push: {
+      label: 'Push',
+      description: 'Take mid and long aggressively',
+      speed: 1.2,
+      engagement: 'aggressive',
+      positions: {
+        'Entry Fragger': ['mid_doors'],
+        'AWPer': ['xbox'],
+        'Support': ['catwalk'],
+        'In-Game Leader': ['mid_doors'],
+        'Lurker': ['long_doors']
+      }
+    },
+    execute_a: {
+      label: 'Execute A',
+      description: 'Full commit onto A through long and catwalk',
+      sides: ['t'],
+      speed: 1.1,
+      engagement: 'aggressive',
+      positions: {
+        'Entry Fragger': ['a_site'],
+        'AWPer': ['long_doors'],
+        'Support': ['catwalk'],
+        'In-Game Leader': ['a_site'],
+        'Lurker': ['goose']
+      }
+    },
+    execute_b: {
+      label: 'Execute B',
+      description: 'Full commit onto B through tunnels',
+      sides: ['t'],
+      speed: 1.1,
+      engagement: 'aggressive',
+      positions: {
+        'Entry Fragger': ['b_platform'],
+        'AWPer': ['upper_tunnels'],
+        'Support': ['b_platform'],
+        'In-Game Leader': ['b_platform'],
+        'Lurker': ['b_doors']
+      }
+    },
+    fake_a: {
+      label: 'Fake A',
+      description: 'Two make noise at long while the rest wait in tunnels',
+      sides: ['t'],
+      // Slow and patient: the tunnels stack waits for the rotation instead of taking fights
+      speed: 0.8,
+      engagement: 'hold',
+      positions: {
+        'Entry Fragger': ['upper_tunnels'],
+        'AWPer': ['upper_tunnels'],
+        'Support': ['long_doors'],
+        'In-Game Leader': ['upper_tunnels'],
+        'Lurker': ['long_doors']
+      }
+    },
+    fake_b: {
+      label: 'Fake B',
+      description: 'Two show in tunnels while the rest stack for A',
+      sides: ['t'],
+      // Quick to set up, then the A stack picks off the CTs rotating through mid
+      speed: 1.1,
+      engagement: 'picks',
+      positions: {
+        'Entry Fragger': ['long_doors'],
+        'AWPer': ['long_doors'],
+        'Support': ['upper_tunnels'],
+        'In-Game Leader': ['catwalk'],
+        'Lurker': ['upper_tunnels']
+      }
+    },
+    split: {
+      label: 'Split Attack',
+      description: 'Hit A from long and catwalk at the same time',
+      sides: ['t'],
+      speed: 1.1,
+      engagement: 'aggressive',
+      positions: {
+        'Entry Fragger': ['long_doors'],
+        'AWPer': ['xbox'],
+        'Support': ['catwalk'],
+        'In-Game Leader': ['catwalk'],
+        'Lurker': ['long_doors']
+      }
+    },
+    regroup: {
+      label: 'Regroup',
+      description: 'Collapse onto the shot-caller and trade together',
+      speed: 1.2,
+      engagement: 'hold',
+      positions: allRoles('leader')
+    },
+    rush: {
+      label: 'Rush',
+      description: 'Sprint through tunnels onto B and take every duel',
+      sides: ['t'],
+      speed: 1.5,
+      engagement: 'aggressive',
+      useUtility: false,
+      positions: allRoles('b_platform')
+    },
+    play_picks: {
+      label: 'Play for Picks',
+      description: 'AWPers hold long angles while the rest stay passive',
+      speed: 0.9,
+      engagement: 'picks',
+      positions: {
+        'Entry Fragger': ['current'],
+        'AWPer': ['mid_doors'],
+        'Support': ['current'],
+        'In-Game Leader': ['current'],
+        'Lurker': ['current']
+      }
+    },
+    save: {
+      label: 'Save Round',
+      description: 'Avoid fights and keep weapons for the next round',
+      speed: 1,
+      engagement: 'avoid',
+      useUtility: false,
+      positions: allRoles('spawn')
+    }
+  },
+
+  lineups: {
+    xbox_smoke: {
+      name: 'Xbox smoke from T spawn',
+      side: 't',
+      utility: 'smoke',
+      strategies: ['default', 'mid_control'],
+      roles: ['Support', 'In-Game Leader'],
+      from: 't_spawn',
+      target: { x: 136, y: 128 },
+      difficulty: 0.4
+    },
+    ct_smoke_long: {
+      name: 'CT smoke for Long cross',
+      side: 't',
+      utility: 'smoke',
+      strategies: ['split_a'],
+      roles: ['In-Game Leader'],
+      from: 'long_doors',
+      target: { x: 212, y: 108 },
+      difficulty: 0.6
+    },
+    short_flash: {
+      name: 'Short A pop flash from Catwalk',
+      side: 't',
+      utility: 'flash',
+      strategies: ['split_a', 'mid_control'],
+      roles: ['Support', 'Entry Fragger'],
+      from: 'catwalk',
+      target: { x: 210, y: 95 },
+      difficulty: 0.3
+    },
+    b_doors_smoke: {
+      name: 'B doors smoke',
+      side: 't',
+      utility: 'smoke',
+      strategies: ['rush_b', 'fake_a_b'],
+      roles: ['Support', 'In-Game Leader'],
+      from: 'upper_tunnels',
+      target: { x: 115, y: 238 },
+      difficulty: 0.5
+    },
+    b_entrance_flash: {
+      name: 'B entrance flash over Tunnels',
+      side: 't',
+      utility: 'flash',
+      strategies: ['rush_b', 'fake_a_b'],
+      roles: ['Entry Fragger'],
+      from: 'upper_tunnels',
+      target: { x: 72, y: 214 },
+      difficulty: 0.3
+    },
+    mid_doors_smoke: {
+      name: 'Mid doors smoke from CT spawn',
+      side: 'ct',
+      utility: 'smoke',
+      strategies: ['default', 'stack_a', 'stack_b', 'retake_setup'],
+      roles: ['Support', 'In-Game Leader'],
+      from: 'ct_spawn',
+      target: { x: 150, y: 152 },
+      difficulty: 0.4
+    },
+    long_doors_molotov: {
+      name: 'Long doors molotov from A site',
+      side: 'ct',
+      utility: 'molotov',
+      strategies: ['default', 'stack_a'],
+      roles: ['In-Game Leader', 'Entry Fragger'],
+      from: 'a_site',
+      target: { x: 92, y: 84 },
+      difficulty: 0.7
+    },
+    upper_tunnels_molotov: {
+      name: 'Upper Tunnels molotov from B site',
+      side: 'ct',
+      utility: 'molotov',
+      strategies: ['stack_b'],
+      roles: ['Entry Fragger'],
+      from: 'b_platform',
+      target: { x: 80, y: 196 },
+      difficulty: 0.5
+    }
+  },
+
+  overlays: {
+    paths: {
+      default_t: { path: 'M 60,180 L 120,150', color: '#ffd700', name: 'Default T' },
+      default_ct: { path: 'M 230,170 L 180,150', color: '#4444ff', name: 'Default CT' },
+      rush_b: { path: 'M 60,180 Q 70,190 80,200 T 70,220', color: '#ff4444', name: 'Rush B' },
+      split_a: {
+        path: 'M 60,180 Q 85,80 180,120 M 60,180 Q 120,150 180,120',
+        color: '#4444ff',
+        name: 'Split A'
+      },
+      mid_control: { path: 'M 60,180 Q 120,150 150,150 T 180,120', color: '#44ff44', name: 'Mid Control' },
+      long_push: { path: 'M 60,180 Q 70,130 85,80', color: '#ff8800', name: 'Long Push' },
+      b_retake: { path: 'M 230,170 Q 150,200 70,220', color: '#00ffff', name: 'B Retake' }
+    },
+    zones: {
+      rush_b: [
+        { x: 70, y: 220, radius: 30, color: '#ff4444', name: 'Rush B Target' }
+      ],
+      split_a: [
+        { x: 85, y: 80, radius: 20, color: '#4444ff', name: 'Long Control' },
+        { x: 180, y: 120, radius: 20, color: '#4444ff', name: 'Catwalk Control' }
+      ],
+      mid_control: [
+        { x: 150, y: 150, radius: 25, color: '#44ff44', name: 'Mid Control' }
+      ],
+      default_t: [
+        { x: 120, y: 150, radius: 15, color: '#ffd700', name: 'Default Position' }
+      ],
+      default_ct: [
+        { x: 180, y: 150, radius: 15, color: '#4444ff', name: 'Default Defense' }
+      ]
+    }
+  }
+};
+
+export default de_dust2;
@@ -0,0 +1,47 @@
+// src/lib/maps/index.ts
+import { MapDefinitionSchema } from './schema';
+import type { Lineup, MapDefinition, MidRoundCallSetup } from './schema';
+import de_dust2 from './de_dust2';
+
+export const DEFAULT_MAP_ID = 'de_dust2';
+
+const registry: Record<string, MapDefinition> = {};
+
+// Validates a definition (TS object or parsed JSON) and makes it selectable
+export function registerMap(definition: unknown): MapDefinition {
+  const map = MapDefinitionSchema.parse(definition);
+  registry[map.id] = map;
+  return map;
+}
+
+export function getMap(id: string = DEFAULT_MAP_ID): MapDefinition {
+  const map = registry[id];
+  if (!map) {
+    throw new Error(`Unknown map: ${id}`);
+  }
+  return map;
+}
+
+export function hasMap(id: string): boolean {
+  return id in registry;
+}
+
+export function getAvailableMaps(): { id: string; name: string }[] {
+  return Object.values(registry).map(({ id, name }) => ({ id, name }));
+}
+
+// Calls a side can make on a map; the engine rejects anything else
+export function getMidRoundCalls(map: MapDefinition, side: 't' | 'ct'): [string, MidRoundCallSetup][] {
+  return Object.entries(map.midRoundCalls)
+    .filter(([, setup]) => !setup.sides || setup.sides.includes(side));
+}
+
+// Lineups a side's strategy throws on a map
+export function getLineups(map: MapDefinition, side: 't' | 'ct', strategy: string): [string, Lineup][] {
+  return Object.entries(map.lineups)
+    .filter(([, lineup]) => lineup.side === side && lineup.strategies.includes(strategy));
+}
+
+registerMap(de_dust2);
+
+export * from './schema';
@@ -0,0 +1,161 @@
+// src/lib/maps/schema.ts
+import { z } from 'zod';
+import { AgentRoleSchema } from '@/types/schemas';
+
+// Placeholder used by hold-style calls: "stay where you are"
+export const CURRENT_POSITION = 'current';
+// Placeholders used by mid-round calls: the agent's own spawn, or the team's shot-caller
+export const SPAWN_POSITION = 'spawn';
+export const LEADER_POSITION = 'leader';
+
+const POSITION_PLACEHOLDERS = [CURRENT_POSITION, SPAWN_POSITION, LEADER_POSITION];
+
+const PositionSchema = z.object({
+  x: z.number(),
+  y: z.number()
+});
+
+const CalloutSchema = z.object({
+  name: z.string().min(1),
+  type: z.enum(['site', 'spawn', 'position']),
+  position: PositionSchema
+});
+
+const ObstacleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: z.enum(['wall', 'door', 'box']),
+  points: z.array(PositionSchema).min(3)
+});
+
+// role -> callout ids, indexed by round phase (freezetime, live, planted)
+const RolePositionsSchema = z.record(z.array(z.string().min(1)).min(1));
+
+const StrategySetupSchema = z.object({
+  label: z.string().optional(),
+  description: z.string().optional(),
+  positions: RolePositionsSchema,
+  utility: z.record(z.array(z.string())).optional(),
+  priority: z.record(z.number()).optional()
+});
+
+// How a side fights while a call is active
+const EngagementSchema = z.enum(['aggressive', 'normal', 'hold', 'picks', 'avoid']);
+
+const MidRoundCallSetupSchema = StrategySetupSchema.extend({
+  // Sides that may make the call; both when omitted
+  sides: z.array(z.enum(['t', 'ct'])).min(1).optional(),
+  // Every call sets how fast agents move (a multiplier) and how they fight
+  speed: z.number().positive(),
+  engagement: EngagementSchema,
+  // Whether agents throw utility while the call is active
+  useUtility: z.boolean().default(true)
+});
+
+// A planned utility throw that a strategy executes every round
+const LineupSchema = z.object({
+  name: z.string().min(1),
+  side: z.enum(['t', 'ct']),
+  utility: z.enum(['smoke', 'flash', 'molotov', 'he']),
+  // Strategies of that side that include the throw
+  strategies: z.array(z.string().min(1)).min(1),
+  // Roles that may throw it; the first one in position carrying the grenade does
+  roles: z.array(AgentRoleSchema).min(1),
+  // Callout the thrower stands at, and where the grenade should land
+  from: z.string().min(1),
+  target: PositionSchema,
+  phase: z.enum(['live', 'planted']).default('live'),
+  // 0 lands for anyone, 1 needs a perfect throw
+  difficulty: z.number().min(0).max(1).default(0.5)
+});
+
+const TacticalLineSchema = z.object({
+  path: z.string(),
+  color: z.string(),
+  name: z.string()
+});
+
+const StrategyZoneSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  radius: z.number().positive(),
+  color: z.string(),
+  name: z.string().optional()
+});
+
+export const MapDefinitionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  areas: z.array(z.string()),
+  callouts: z.record(CalloutSchema),
+  spawns: z.object({ t: z.string(), ct: z.string() }),
+  sites: z.object({ A: z.string(), B: z.string() }),
+  obstacles: z.array(ObstacleSchema),
+  connections: z.array(z.tuple([z.string(), z.string()])),
+  strategies: z.object({
+    t_side: z.record(StrategySetupSchema),
+    ct_side: z.record(StrategySetupSchema)
+  }),
+  midRoundCalls: z.record(MidRoundCallSetupSchema),
+  lineups: z.record(LineupSchema).default({}),
+  overlays: z.object({
+    paths: z.record(TacticalLineSchema),
+    zones: z.record(z.array(StrategyZoneSchema))
+  }).default({ paths: {}, zones: {} })
+}).superRefine((map, ctx) => {
+  const known = (id: string) => id in map.callouts;
+  const check = (id: string, path: (string | number)[]) => {
+    if (!known(id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Unknown callout "${id}"` });
+    }
+  };
+
+  check(map.spawns.t, ['spawns', 't']);
+  check(map.spawns.ct, ['spawns', 'ct']);
+  check(map.sites.A, ['sites', 'A']);
+  check(map.sites.B, ['sites', 'B']);
+
+  map.connections.forEach(([from, to], index) => {
+    check(from, ['connections', index, 0]);
+    check(to, ['connections', index, 1]);
+  });
+
+  const checkSetups = (setups: Record<string, z.infer<typeof StrategySetupSchema>>, root: string[]) => {
+    Object.entries(setups).forEach(([name, setup]) => {
+      Object.entries(setup.positions).forEach(([role, ids]) => {
+        ids.forEach((id, index) => {
+          if (!POSITION_PLACEHOLDERS.includes(id)) check(id, [...root, name, 'positions', role, index]);
+        });
+      });
+    });
+  };
+
+  checkSetups(map.strategies.t_side, ['strategies', 't_side']);
+  checkSetups(map.strategies.ct_side, ['strategies', 'ct_side']);
+  checkSetups(map.midRoundCalls, ['midRoundCalls']);
+
+  Object.entries(map.lineups).forEach(([id, lineup]) => {
+    check(lineup.from, ['lineups', id, 'from']);
+    lineup.strategies.forEach((strategy, index) => {
+      if (!(strategy in map.strategies[`${lineup.side}_side`])) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['lineups', id, 'strategies', index],
+          message: `Unknown ${lineup.side.toUpperCase()} strategy "${strategy}"`
+        });
+      }
+    });
+  });
+});
+
+// Input shape for authoring maps (overlays optional); MapDefinition is the parsed result
+export type MapDefinitionInput = z.input<typeof MapDefinitionSchema>;
+export type MapDefinition = z.infer<typeof MapDefinitionSchema>;
+export type MapCallout = z.infer<typeof CalloutSchema>;
+export type MapObstacle = z.infer<typeof ObstacleSchema>;
+export type StrategySetup = z.infer<typeof StrategySetupSchema>;
+export type MidRoundCallSetup = z.infer<typeof MidRoundCallSetupSchema>;
+export type Engagement = z.infer<typeof EngagementSchema>;
+export type Lineup = z.infer<typeof LineupSchema>;
+export type TacticalLine = z.infer<typeof TacticalLineSchema>;
+export type StrategyZone = z.infer<typeof StrategyZoneSchema>;
@@ -0,0 +1,218 @@
+// ReplayPlayer.ts
+import type { Replay, ReplayEvent, ReplayRound } from './schema';
+import type { Agent, BombState, DuelRecord, GameState, GroundWeapon, LineupThrow, MidRoundCall, RoundEconomyReport, Side, UtilityEntity, WeaponDrop } from '@/types/game';
+
+interface AgentFrame {
+  x: number;
+  y: number;
+  health: number;
+}
+
+class ReplayPlayer {
+  private readonly replay: Replay;
+  private agentFrames: AgentFrame[] = [];
+  private cursor = 0;
+  private cursorTime = -Infinity;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+  }
+
+  getReplay(): Replay {
+    return this.replay;
+  }
+
+  getDuration(): number {
+    return this.replay.meta.duration;
+  }
+
+  getRounds(): ReplayRound[] {
+    return this.replay.rounds;
+  }
+
+  getRoundAt(time: number): ReplayRound | null {
+    let current: ReplayRound | null = null;
+    for (const round of this.replay.rounds) {
+      if (round.startTime > time) break;
+      current = round;
+    }
+    return current;
+  }
+
+  getEventsUntil(time: number, round?: number): ReplayEvent[] {
+    return this.replay.events.filter(event =>
+      event.time <= time && (round === undefined || event.round === round)
+    );
+  }
+
+  // Rebuilds a GameController-shaped state for the renderer at the given match time
+  getStateAt(time: number): GameState {
+    this.seek(time);
+
+    const { initialState, agents } = this.replay;
+    const round = this.getRoundAt(time);
+    const events = this.getEventsUntil(time);
+    const scale = this.replay.meta.positionScale;
+
+    let phase = initialState.round.phase;
+    const activeCalls: Record<Side, MidRoundCall | null> = { t: null, ct: null };
+    const callHistory: MidRoundCall[] = [];
+    const duels: DuelRecord[] = [];
+    const utility: UtilityEntity[] = [];
+    const lineups: LineupThrow[] = [];
+    const drops: WeaponDrop[] = [];
+    let economyReport: RoundEconomyReport | null = null;
+    let bomb: BombState = { carrierId: null, position: null, action: null };
+    let groundWeapons: GroundWeapon[] = [];
+    let bombSite: 'A' | 'B' | null = null;
+    let score = { t: 0, ct: 0 };
+    let winner: 't' | 'ct' | null = null;
+    let endReason: string | null = null;
+    let swapped = false;
+    const currentStrategy = { ...initialState.round.currentStrategy };
+
+    events.forEach(event => {
+      const isCurrentRound = event.round === round?.round;
+      switch (event.type) {
+        case 'phase':
+          phase = event.data.phase;
+          break;
+        case 'plant':
+          if (isCurrentRound) bombSite = event.data.site;
+          break;
+        case 'call':
+          if (isCurrentRound) {
+            const call = event.data as MidRoundCall;
+            activeCalls[call.side] = call;
+            callHistory.push(call);
+          }
+          break;
+        case 'duel':
+          if (isCurrentRound) duels.push(event.data as DuelRecord);
+          break;
+        case 'utility':
+          if (isCurrentRound && event.data.expiresAt > time) utility.push(event.data as UtilityEntity);
+          break;
+        case 'lineup':
+          if (isCurrentRound) lineups.push(event.data as LineupThrow);
+          break;
+        case 'drop':
+          if (isCurrentRound) drops.push(event.data as WeaponDrop);
+          break;
+        case 'bomb':
+          if (isCurrentRound) bomb = event.data as BombState;
+          break;
+        case 'ground_weapons':
+          if (isCurrentRound) groundWeapons = event.data.weapons as GroundWeapon[];
+          break;
+        case 'strategy':
+          currentStrategy[event.data.side as Side] = event.data.strategy;
+          break;
+        case 'round_end':
+          score = event.data.score;
+          if (isCurrentRound) {
+            winner = event.data.winner;
+            endReason = event.data.reason;
+            economyReport = event.data.economy ?? null;
+          }
+          break;
+        case 'halftime':
+          swapped = !swapped;
+          score = event.data.score;
+          break;
+      }
+    });
+
+    // Replay agents keep the side they started on; every halftime flips it
+    const sideOf = (side: Side): Side => swapped ? (side === 't' ? 'ct' : 't') : side;
+    const teams = {
+      t: { ...initialState.teams[sideOf('t')], agents: [] as Agent[] },
+      ct: { ...initialState.teams[sideOf('ct')], agents: [] as Agent[] }
+    };
+
+    agents.forEach((agent, index) => {
+      const frame = this.agentFrames[index];
+      const source = initialState.teams[agent.team].agents.find(a => a.id === agent.id);
+      if (!source) return;
+      const health = frame ? frame.health : 100;
+      const side = sideOf(agent.team);
+
+      teams[side].agents.push({
+        ...source,
+        ...agent,
+        team: side,
+        position: frame
+          ? { x: frame.x / scale, y: frame.y / scale }
+          : source.position,
+        health,
+        isAlive: health > 0
+      });
+    });
+
+    return {
+      ...initialState,
+      match: {
+        ...initialState.match,
+        status: time >= this.getDuration() ? 'ended' : 'active',
+        currentRound: round?.round ?? 1,
+        score
+      },
+      round: {
+        ...initialState.round,
+        phase,
+        bombPlanted: bombSite !== null,
+        bombSite,
+        winner,
+        endReason,
+        currentStrategy,
+        activeCalls,
+        callHistory,
+        duels,
+        utility,
+        lineups,
+        bomb,
+        groundWeapons,
+        drops,
+        economyReport,
+        // Reports are freezetime advice for live play, not part of the recording
+        scouting: null
+      },
+      teams,
+      // Replay events are not GameEvents; the viewer renders them on its own timeline
+      events: [],
+      combatResult: null
+    };
+  }
+
+  // Applies frames up to `time`, starting over from the round keyframe when needed
+  private seek(time: number): void {
+    const { frames } = this.replay;
+
+    // A round's first frame is a full keyframe, so jumping to it loses nothing
+    const round = this.getRoundAt(time);
+    const keyframe = round ? round.frameIndex : 0;
+    if (time < this.cursorTime || keyframe > this.cursor) {
+      this.cursor = keyframe;
+      this.agentFrames = [];
+    }
+
+    while (this.cursor < frames.length && frames[this.cursor][0] <= time) {
+      this.applyFrame(frames[this.cursor]);
+      this.cursor++;
+    }
+
+    this.cursorTime = time;
+  }
+
+  private applyFrame(frame: number[]): void {
+    for (let i = 1; i + 3 < frame.length; i += 4) {
+      this.agentFrames[frame[i]] = {
+        x: frame[i + 1],
+        y: frame[i + 2],
+        health: frame[i + 3]
+      };
+    }
+  }
+}
+
+export default ReplayPlayer;
@@ -0,0 +1,266 @@
+// ReplayRecorder.ts
+import { REPLAY_VERSION } from './schema';
+import type { Replay, ReplayAgent, ReplayEvent, ReplayEventType, ReplayRound } from './schema';
+import type { Agent, CombatResult, GameState } from '@/types/game';
+
+interface ReplayRecorderOptions {
+  // Position precision: 2 stores half map units
+  positionScale?: number;
+}
+
+class ReplayRecorder {
+  private readonly positionScale: number;
+  private recording = false;
+  private replay: Replay | null = null;
+  private agentIndex: Record<string, number> = {};
+  private lastValues: number[][] = [];
+  private lastLoadouts: Record<string, string> = {};
+  private lastRound = 0;
+  private lastPhase = '';
+  private lastCallCount = 0;
+  private lastDuelCount = 0;
+  private lastLineupCount = 0;
+  private lastDropCount = 0;
+  private lastBomb = '';
+  private lastGroundWeapons = '';
+  private recordedUtility = new Set<string>();
+  private lastStrategy = { t: '', ct: '' };
+
+  constructor(options: ReplayRecorderOptions = {}) {
+    this.positionScale = options.positionScale ?? 2;
+  }
+
+  start(state: GameState, time: number = 0): void {
+    const agents = this.getAgents(state);
+
+    this.agentIndex = {};
+    agents.forEach((agent, index) => {
+      this.agentIndex[agent.id] = index;
+    });
+    this.lastValues = [];
+    this.lastLoadouts = {};
+    this.lastRound = 0;
+    this.lastPhase = '';
+    this.lastCallCount = 0;
+    this.lastDuelCount = 0;
+    this.lastLineupCount = 0;
+    this.lastDropCount = 0;
+    this.lastBomb = '';
+    this.lastGroundWeapons = '';
+    this.recordedUtility.clear();
+    this.lastStrategy = { t: '', ct: '' };
+
+    this.replay = {
+      version: REPLAY_VERSION,
+      meta: {
+        matchId: state.match.id,
+        seed: state.meta.seed,
+        map: state.match.map.name,
+        tickRate: state.meta.tickRate,
+        recordedAt: Date.now(),
+        duration: 0,
+        positionScale: this.positionScale
+      },
+      agents: agents.map(({ id, name, team, role }): ReplayAgent => ({ id, name, team, role })),
+      initialState: JSON.parse(JSON.stringify(state)),
+      frames: [],
+      rounds: [],
+      events: []
+    };
+    this.recording = true;
+
+    this.recordTick(state, time);
+  }
+
+  recordTick(state: GameState, time: number): void {
+    if (!this.recording || !this.replay) return;
+
+    const isNewRound = state.match.currentRound !== this.lastRound;
+    if (isNewRound) {
+      this.lastRound = state.match.currentRound;
+      this.lastCallCount = 0;
+      this.lastDuelCount = 0;
+      this.lastLineupCount = 0;
+      this.lastDropCount = 0;
+      this.recordedUtility.clear();
+      this.replay.rounds.push({
+        round: state.match.currentRound,
+        startTime: time,
+        frameIndex: this.replay.frames.length,
+        endTime: null,
+        winner: null,
+        reason: null
+      });
+    }
+
+    this.recordFrame(state, time, isNewRound);
+    this.recordStateChanges(state, time);
+    this.replay.meta.duration = time;
+  }
+
+  recordCombat(result: CombatResult, time: number): void {
+    this.recordEvent('combat', time, { ...result });
+  }
+
+  // Teams change sides from this point on; the player swaps them back when rebuilding state
+  recordSideSwap(state: GameState, time: number): void {
+    this.recordEvent('halftime', time, { score: { ...state.match.score } });
+  }
+
+  stop(state: GameState, time: number): void {
+    if (!this.recording) return;
+
+    this.recordTick(state, time);
+    this.recordEvent('match_end', time, {
+      winner: state.match.winner,
+      score: { ...state.match.score }
+    });
+    this.recording = false;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  getReplay(): Replay | null {
+    return this.replay;
+  }
+
+  private recordEvent(type: ReplayEventType, time: number, data: Record<string, any>): void {
+    if (!this.recording || !this.replay) return;
+    this.replay.events.push({ time, round: this.lastRound, type, data });
+  }
+
+  private recordFrame(state: GameState, time: number, full: boolean): void {
+    const frame: number[] = [time];
+
+    this.getAgents(state).forEach(agent => {
+      const index = this.agentIndex[agent.id];
+      if (index === undefined) return;
+
+      const values = [
+        Math.round(agent.position.x * this.positionScale),
+        Math.round(agent.position.y * this.positionScale),
+        agent.isAlive ? Math.max(1, Math.round(agent.health)) : 0
+      ];
+      const last = this.lastValues[index];
+
+      if (full || !last || last.some((value, i) => value !== values[i])) {
+        frame.push(index, ...values);
+        this.lastValues[index] = values;
+      }
+    });
+
+    // Ticks where nobody moved or took damage are dropped entirely
+    if (frame.length > 1) {
+      this.replay!.frames.push(frame);
+    }
+  }
+
+  private recordStateChanges(state: GameState, time: number): void {
+    const { round } = state;
+
+    if (round.phase !== this.lastPhase) {
+      this.lastPhase = round.phase;
+      this.recordEvent('phase', time, { phase: round.phase });
+
+      if (round.phase === 'planted') {
+        this.recordEvent('plant', time, { site: round.bombSite });
+      }
+
+      if (round.phase === 'ended') {
+        const current = this.getCurrentRound();
+        if (current) {
+          current.endTime = time;
+          current.winner = round.winner;
+          current.reason = round.endReason;
+        }
+        this.recordEvent('round_end', time, {
+          winner: round.winner,
+          reason: round.endReason,
+          score: { ...state.match.score },
+          economy: round.economyReport
+        });
+      }
+    }
+
+    // Every call is kept, including a side repeating its active call
+    round.callHistory.slice(this.lastCallCount).forEach(call => {
+      this.recordEvent('call', time, { ...call });
+    });
+    this.lastCallCount = round.callHistory.length;
+
+    round.duels.slice(this.lastDuelCount).forEach(duel => {
+      this.recordEvent('duel', time, { ...duel });
+    });
+    this.lastDuelCount = round.duels.length;
+
+    round.lineups.slice(this.lastLineupCount).forEach(lineup => {
+      this.recordEvent('lineup', time, { ...lineup });
+    });
+    this.lastLineupCount = round.lineups.length;
+
+    round.drops.slice(this.lastDropCount).forEach(drop => {
+      this.recordEvent('drop', time, { ...drop });
+    });
+    this.lastDropCount = round.drops.length;
+
+    // Pickups, drops and plant or defuse attempts
+    const bomb = JSON.stringify(round.bomb);
+    if (bomb !== this.lastBomb) {
+      this.lastBomb = bomb;
+      this.recordEvent('bomb', time, JSON.parse(bomb));
+    }
+
+    const groundWeapons = JSON.stringify(round.groundWeapons);
+    if (groundWeapons !== this.lastGroundWeapons) {
+      this.lastGroundWeapons = groundWeapons;
+      this.recordEvent('ground_weapons', time, { weapons: JSON.parse(groundWeapons) });
+    }
+
+    // Expired utility leaves the state, so entities are tracked by id
+    round.utility.forEach(entity => {
+      if (this.recordedUtility.has(entity.id)) return;
+      this.recordedUtility.add(entity.id);
+      this.recordEvent('utility', time, { ...entity });
+    });
+
+    (['t', 'ct'] as const).forEach(side => {
+      const strategy = round.currentStrategy[side];
+      if (strategy !== this.lastStrategy[side]) {
+        this.lastStrategy[side] = strategy;
+        this.recordEvent('strategy', time, { side, strategy });
+      }
+    });
+
+    this.getAgents(state).forEach(agent => {
+      const loadout = [...agent.weapons, '|', ...agent.equipment].join(',');
+      const previous = this.lastLoadouts[agent.id];
+      this.lastLoadouts[agent.id] = loadout;
+
+      // The first sighting is the starting loadout, not a purchase, and
+      // loadouts only shrink outside freezetime as utility gets thrown
+      if (previous !== undefined && previous !== loadout && agent.isAlive && round.phase === 'freezetime') {
+        this.recordEvent('buy', time, {
+          agentId: agent.id,
+          team: agent.team,
+          weapons: [...agent.weapons],
+          equipment: [...agent.equipment],
+          money: agent.economy.current,
+          teamMoney: state.teams[agent.team].money
+        });
+      }
+    });
+  }
+
+  private getCurrentRound(): ReplayRound | undefined {
+    const rounds = this.replay?.rounds || [];
+    return rounds[rounds.length - 1];
+  }
+
+  private getAgents(state: GameState): Agent[] {
+    return [...state.teams.t.agents, ...state.teams.ct.agents];
+  }
+}
+
+export default ReplayRecorder;
@@ -0,0 +1,14 @@
+// src/lib/replay/index.ts
+import { ReplaySchema } from './schema';
+import type { Replay } from './schema';
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+// Validates a replay file's contents before it is handed to a ReplayPlayer
+export function parseReplay(json: string): Replay {
+  return ReplaySchema.parse(JSON.parse(json));
+}
+
+export * from './schema';
@@ -0,0 +1,56 @@
+// src/lib/replay/schema.ts
+import { z } from 'zod';
+import { AgentRoleSchema, GameStateSchema } from '@/types/schemas';
+
+export const REPLAY_VERSION = 8;
+
+const ReplayAgentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  team: z.enum(['t', 'ct']),
+  role: AgentRoleSchema
+});
+
+const ReplayRoundSchema = z.object({
+  round: z.number().int().positive(),
+  startTime: z.number(),
+  frameIndex: z.number().int().nonnegative(),
+  endTime: z.number().nullable(),
+  winner: z.enum(['t', 'ct']).nullable(),
+  reason: z.string().nullable()
+});
+
+const ReplayEventSchema = z.object({
+  time: z.number(),
+  round: z.number().int(),
+  type: z.enum(['phase', 'combat', 'duel', 'utility', 'lineup', 'bomb', 'ground_weapons', 'buy', 'drop', 'call', 'strategy', 'plant', 'round_end', 'halftime', 'match_end']),
+  data: z.record(z.any())
+});
+
+export const ReplaySchema = z.object({
+  version: z.literal(REPLAY_VERSION),
+  meta: z.object({
+    matchId: z.string(),
+    seed: z.number(),
+    map: z.string(),
+    tickRate: z.number(),
+    recordedAt: z.number(),
+    duration: z.number(),
+    // Positions are stored as Math.round(value * positionScale)
+    positionScale: z.number().positive()
+  }),
+  agents: z.array(ReplayAgentSchema),
+  // Match state when recording started; frames and events are applied on top of it
+  initialState: GameStateSchema,
+  // Each frame is [time, agentIndex, x, y, health, agentIndex, x, y, health, ...] holding
+  // only agents that changed since the previous frame; a round's first frame holds all agents
+  frames: z.array(z.array(z.number())),
+  rounds: z.array(ReplayRoundSchema),
+  events: z.array(ReplayEventSchema)
+});
+
+export type Replay = z.infer<typeof ReplaySchema>;
+export type ReplayAgent = z.infer<typeof ReplayAgentSchema>;
+export type ReplayRound = z.infer<typeof ReplayRoundSchema>;
+export type ReplayEvent = z.infer<typeof ReplayEventSchema>;
+export type ReplayEventType = ReplayEvent['type'];
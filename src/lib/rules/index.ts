@@ -0,0 +1,95 @@
+// src/lib/rules/index.ts
+import type { MatchRules } from '@/types/game';
+
+export type RulesPresetId = 'competitive' | 'wingman' | 'practice';
+
+// A named rule set for the lobby; maxRounds is what the preset is meant to be played over
+export interface RulesPreset {
+  id: RulesPresetId;
+  name: string;
+  description: string;
+  maxRounds: number;
+  rules: MatchRules;
+}
+
+export const RULES_PRESETS: Record<RulesPresetId, RulesPreset> = {
+  competitive: {
+    id: 'competitive',
+    name: 'Competitive',
+    description: 'MR12 with 1:55 rounds and MR3 overtime at $10000',
+    maxRounds: 24,
+    rules: {
+      warmupTime: 15,
+      freezeTime: 15,
+      roundTime: 115,
+      bombTimer: 40,
+      roundEndTime: 5,
+      halftimeTime: 15,
+      friendlyFire: false,
+      startMoney: 800,
+      maxMoney: 16000,
+      tickRate: 64,
+      overtime: { enabled: true, rounds: 6, startMoney: 10000 }
+    }
+  },
+  wingman: {
+    id: 'wingman',
+    name: 'Wingman-style short',
+    description: 'MR8 with 1:15 rounds and short breaks; overtime is a single round per side',
+    maxRounds: 16,
+    rules: {
+      warmupTime: 10,
+      freezeTime: 10,
+      roundTime: 75,
+      bombTimer: 40,
+      roundEndTime: 3,
+      halftimeTime: 10,
+      friendlyFire: false,
+      startMoney: 800,
+      maxMoney: 8000,
+      tickRate: 64,
+      overtime: { enabled: true, rounds: 2, startMoney: 8000 }
+    }
+  },
+  practice: {
+    id: 'practice',
+    name: 'Practice',
+    description: 'Long freezetimes, full money every half, no friendly fire and no overtime',
+    maxRounds: 24,
+    rules: {
+      warmupTime: 30,
+      freezeTime: 30,
+      roundTime: 115,
+      bombTimer: 40,
+      roundEndTime: 5,
+      halftimeTime: 15,
+      friendlyFire: false,
+      startMoney: 16000,
+      maxMoney: 16000,
+      tickRate: 64,
+      overtime: { enabled: false, rounds: 6, startMoney: 16000 }
+    }
+  }
+};
+
+export const DEFAULT_RULES_PRESET: RulesPresetId = 'competitive';
+
+// A fresh copy each time so callers can edit it without touching the preset
+export function getRules(id: RulesPresetId = DEFAULT_RULES_PRESET): MatchRules {
+  const { rules } = RULES_PRESETS[id];
+  return { ...rules, overtime: { ...rules.overtime } };
+}
+
+function sameRules(a: MatchRules, b: MatchRules): boolean {
+  return (Object.keys(a) as (keyof MatchRules)[]).every(key => key === 'overtime'
+    ? a.overtime.enabled === b.overtime.enabled &&
+      a.overtime.rounds === b.overtime.rounds &&
+      a.overtime.startMoney === b.overtime.startMoney
+    : a[key] === b[key]);
+}
+
+// The preset a rule set was taken from, or null once any value has been edited
+export function findRulesPreset(rules: MatchRules): RulesPresetId | null {
+  return (Object.keys(RULES_PRESETS) as RulesPresetId[])
+    .find(id => sameRules(RULES_PRESETS[id].rules, rules)) ?? null;
+}
@@ -1,71 +1,13 @@
 // AgentSystem.ts
-interface Position {
-  x: number;
-  y: number;
-}
-
-interface AgentStats {
-  aim: number;
-  reaction: number;
-  positioning: number;
-  utility: number;
-  leadership: number;
-  clutch: number;
-}
+import SeededRandom from '../SeededRandom';
+import { getRules } from '../rules';
+import { AGENT_ROLES } from '@/types/game';
+import type { Agent, AgentRole, AgentStats, MatchStats, StrategyStats } from '@/types/game';
 
-interface MatchStats {
-  kills: number;
-  deaths: number;
-  assists: number;
-  utilityDamage: number;
-  flashAssists: number;
-  tradingSuccess: number;
-}
-
-interface StrategyStats {
-  utilityUsage: number;
-  positioningScore: number;
-  strategyAdherence: number;
-  impactRating: number;
-  successfulCalls: number;
-  failedCalls: number;
-}
-
-interface Agent {
-  id: string;
-  name: string;
-  team: 't' | 'ct';
-  role: string;
-  position: Position;
-  isAlive: boolean;
-  health: number;
-  armor: number;
-  weapons: string[];
-  equipment: string[];
-  stats: AgentStats;
-  matchStats: MatchStats;
-  strategyStats: StrategyStats;
-}
-
-interface RoleRequirements {
-  [key: string]: {
-    aim: number;
-    reaction: number;
-    positioning: number;
-    utility: number;
-    leadership: number;
-    clutch: number;
-  };
-}
+type RoleRequirements = Record<AgentRole, AgentStats>;
 
 class AgentSystem {
-  private readonly ROLES = [
-    'Entry Fragger',
-    'AWPer',
-    'Support',
-    'In-Game Leader',
-    'Lurker'
-  ];
+  private readonly ROLES = AGENT_ROLES;
 
   private readonly ROLE_REQUIREMENTS: RoleRequirements = {
     'Entry Fragger': {
@@ -110,20 +52,25 @@ class AgentSystem {
     }
   };
 
+  private random: SeededRandom = new SeededRandom();
+  private startMoney = getRules().startMoney;
+
   constructor() {}
 
-  public initialize(gameState: any): void {
+  public initialize(gameState: any, random: SeededRandom): void {
     // Initialize any necessary state
+    this.random = random;
+    this.startMoney = gameState.match.rules.startMoney;
     console.log('AgentSystem initialized');
   }
 
-  generateAgent(team: 't' | 'ct', preferredRole?: string): Agent {
+  generateAgent(team: 't' | 'ct', preferredRole?: AgentRole): Agent {
     const stats = this.generateStats();
     const role = preferredRole || this.determineOptimalRole(stats);
     const name = this.generateName();
 
     return {
-      id: `${team}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: `${team}-${this.random.id()}`,
       name,
       team,
       role,
@@ -133,6 +80,7 @@ class AgentSystem {
       armor: 0,
       weapons: [],
       equipment: [],
+      economy: { current: this.startMoney, spent: 0, earned: 0 },
       stats,
       matchStats: this.initializeMatchStats(),
       strategyStats: this.initializeStrategyStats()
@@ -172,7 +120,7 @@ class AgentSystem {
     };
   }
 
-  private determineOptimalRole(stats: AgentStats): string {
+  private determineOptimalRole(stats: AgentStats): AgentRole {
     let bestRole = this.ROLES[0];
     let bestScore = -1;
 
@@ -194,8 +142,8 @@ class AgentSystem {
     let totalWeight = 0;
 
     for (const [stat, requirement] of Object.entries(requirements)) {
-      const weight = requirement;
-      score += stats[stat as keyof AgentStats] * weight;
+      const weight = requirement ?? 0;
+      score += (stats[stat as keyof AgentStats] ?? 0) * weight;
       totalWeight += weight;
     }
 
@@ -208,7 +156,7 @@ class AgentSystem {
       assists,
       utilityDamage,
       flashAssists,
-      tradingSuccess
+      tradingSuccess = 0
     } = agent.matchStats;
 
     const {
@@ -249,27 +197,29 @@ class AgentSystem {
     strategy: string,
     roundOutcome: 'success' | 'failure'
   ): void {
+    const stats = agent.strategyStats;
+    stats.successfulCalls = stats.successfulCalls ?? 0;
+    stats.failedCalls = stats.failedCalls ?? 0;
+
     if (roundOutcome === 'success') {
-      agent.strategyStats.successfulCalls++;
+      stats.successfulCalls++;
     } else {
-      agent.strategyStats.failedCalls++;
+      stats.failedCalls++;
     }
 
     // Update strategy adherence based on performance
-    const totalCalls = 
-      agent.strategyStats.successfulCalls + 
-      agent.strategyStats.failedCalls;
+    const totalCalls = stats.successfulCalls + stats.failedCalls;
     
     if (totalCalls > 0) {
-      agent.strategyStats.strategyAdherence = 
-        agent.strategyStats.successfulCalls / totalCalls;
+      stats.strategyAdherence = stats.successfulCalls / totalCalls;
     }
   }
 
   private normalizedRandom(min: number, max: number): number {
     // Generate a more normal distribution between min and max
-    const u1 = Math.random();
-    const u2 = Math.random();
+    // Clamp away from 0 so the log never blows up
+    const u1 = Math.max(this.random.next(), Number.EPSILON);
+    const u2 = this.random.next();
     const normal = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
     const normalized = (normal + 3) / 6; // Convert to 0-1 range
     return Math.min(max, Math.max(min, min + (max - min) * normalized));
@@ -287,11 +237,11 @@ class AgentSystem {
     ];
 
     return `${
-      firstNames[Math.floor(Math.random() * firstNames.length)]
+      this.random.pick(firstNames)
     } "${
       this.generateNickname()
     }" ${
-      lastNames[Math.floor(Math.random() * lastNames.length)]
+      this.random.pick(lastNames)
     }`;
   }
 
@@ -301,7 +251,7 @@ class AgentSystem {
       "storm", "hawk", "steel", "blade", "frost"
     ];
 
-    return nicknames[Math.floor(Math.random() * nicknames.length)];
+    return this.random.pick(nicknames);
   }
 }
 
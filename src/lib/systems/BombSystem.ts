@@ -0,0 +1,161 @@
+// BombSystem.ts
+import SeededRandom from '../SeededRandom';
+import { getMap } from '../maps';
+import type { Agent, BombSite, BombState, GameState, Position } from '@/types/game';
+
+// A completed plant or defuse and who did it
+export interface BombEvent {
+  outcome: 'planted' | 'defused';
+  agentId: string;
+}
+
+class BombSystem {
+  private readonly PLANT_TIME = 3000;
+  private readonly DEFUSE_TIME = 10000;
+  private readonly KIT_DEFUSE_TIME = 5000;
+  private readonly SITE_RADIUS = 20; // how far from the site callout the bomb can go down
+  private readonly PICKUP_RANGE = 5;
+  private readonly DEFUSE_RANGE = 5;
+
+  private sites: Record<BombSite, Position> = {
+    A: { x: 0, y: 0 },
+    B: { x: 0, y: 0 }
+  };
+  private random: SeededRandom = new SeededRandom();
+
+  public initialize(gameState: any, random: SeededRandom): void {
+    this.random = random;
+    const map = getMap(gameState.match.map.name);
+    this.sites = {
+      A: map.callouts[map.sites.A].position,
+      B: map.callouts[map.sites.B].position
+    };
+    console.log('BombSystem initialized');
+  }
+
+  // Hands the bomb to a random T at the start of every round
+  resetRound(state: GameState): void {
+    const carriers = state.teams.t.agents.filter(agent => agent.isAlive);
+    state.round.bomb = {
+      carrierId: carriers.length > 0 ? this.random.pick(carriers).id : null,
+      position: null,
+      action: null
+    };
+  }
+
+  // Advances the bomb by one tick; returns what the round has to react to
+  update(state: GameState, now: number): BombEvent | null {
+    const { round } = state;
+    if (round.phase !== 'live' && round.phase !== 'planted') return null;
+
+    const event = this.updateAction(state, now);
+    if (event) return event;
+
+    if (round.phase === 'live') {
+      this.updateCarrier(round.bomb, state.teams.t.agents);
+      if (!round.bomb.action) this.startPlant(round.bomb, state.teams.t.agents, now);
+    } else if (!round.bomb.action) {
+      this.startDefuse(round.bomb, state.teams.ct.agents, now);
+    }
+
+    return null;
+  }
+
+  // The site whose zone contains a position, if any
+  getSiteAt(position: Position): BombSite | null {
+    return (['A', 'B'] as const).find(site =>
+      this.calculateDistance(position, this.sites[site]) <= this.SITE_RADIUS
+    ) ?? null;
+  }
+
+  // Plants fail on any damage; defuses only when the defuser dies or leaves the bomb
+  private updateAction(state: GameState, now: number): BombEvent | null {
+    const { round } = state;
+    const { bomb } = round;
+    const action = bomb.action;
+    if (!action) return null;
+
+    const agent = [...state.teams.t.agents, ...state.teams.ct.agents].find(a => a.id === action.agentId);
+    const interrupted = !agent || !agent.isAlive || (
+      action.type === 'plant'
+        ? agent.health < action.health
+        : !bomb.position || this.calculateDistance(agent.position, bomb.position) > this.DEFUSE_RANGE
+    );
+    if (interrupted) {
+      bomb.action = null;
+      return null;
+    }
+    if (now < action.completesAt) return null;
+
+    bomb.action = null;
+    if (action.type === 'defuse') return { outcome: 'defused', agentId: agent.id };
+
+    bomb.carrierId = null;
+    bomb.position = { x: agent.position.x, y: agent.position.y };
+    round.bombPlanted = true;
+    round.bombSite = this.getSiteAt(agent.position);
+    round.plantTime = now;
+    return { outcome: 'planted', agentId: agent.id };
+  }
+
+  // A dead carrier drops the bomb where they fell; the first T to reach it picks it up
+  private updateCarrier(bomb: BombState, terrorists: Agent[]): void {
+    const carrier = terrorists.find(agent => agent.id === bomb.carrierId);
+    if (carrier && !carrier.isAlive) {
+      bomb.carrierId = null;
+      bomb.position = { x: carrier.position.x, y: carrier.position.y };
+    }
+
+    if (!bomb.carrierId && bomb.position) {
+      const position = bomb.position;
+      const picker = terrorists.find(agent =>
+        agent.isAlive && this.calculateDistance(agent.position, position) <= this.PICKUP_RANGE
+      );
+      if (picker) {
+        bomb.carrierId = picker.id;
+        bomb.position = null;
+      }
+    }
+  }
+
+  private startPlant(bomb: BombState, terrorists: Agent[], now: number): void {
+    const carrier = terrorists.find(agent => agent.id === bomb.carrierId && agent.isAlive);
+    if (!carrier || !this.getSiteAt(carrier.position)) return;
+
+    bomb.action = {
+      type: 'plant',
+      agentId: carrier.id,
+      startedAt: now,
+      completesAt: now + this.PLANT_TIME,
+      health: carrier.health
+    };
+  }
+
+  // Defuse kits halve the defuse time
+  private startDefuse(bomb: BombState, counterTerrorists: Agent[], now: number): void {
+    const position = bomb.position;
+    if (!position) return;
+
+    const defuser = counterTerrorists.find(agent =>
+      agent.isAlive && this.calculateDistance(agent.position, position) <= this.DEFUSE_RANGE
+    );
+    if (!defuser) return;
+
+    const hasKit = defuser.equipment.includes('defuse');
+    bomb.action = {
+      type: 'defuse',
+      agentId: defuser.id,
+      startedAt: now,
+      completesAt: now + (hasKit ? this.KIT_DEFUSE_TIME : this.DEFUSE_TIME),
+      health: defuser.health
+    };
+  }
+
+  private calculateDistance(pos1: Position, pos2: Position): number {
+    const dx = pos2.x - pos1.x;
+    const dy = pos2.y - pos1.y;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+}
+
+export default BombSystem;
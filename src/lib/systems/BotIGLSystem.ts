@@ -0,0 +1,256 @@
+// BotIGLSystem.ts
+import SeededRandom from '../SeededRandom';
+import { getMap } from '../maps';
+import type { MapDefinition } from '../maps';
+import { isSideSwapRound } from './RoundSystem';
+import type RoundSystem from './RoundSystem';
+import type { RoundOutcome } from './RoundSystem';
+import type { Agent, BombSite, GameDifficulty, GameState, Position, Side } from '@/types/game';
+
+// How hard the IGL thinks; higher difficulties learn faster and react sooner
+interface IGLProfile {
+  exploration: number; // chance of an uninformed pick
+  exploitation: number; // weight on countering the opponent's habits over our own record
+  memory: number; // rounds of our own history read for the opponent's habits
+  reactionChance: number; // chance a mid-round situation gets a call at all
+  reactionDelay: number; // ms between noticing a situation and calling it
+}
+
+export interface BotCall {
+  call: string;
+  issuedBy: string;
+}
+
+class BotIGLSystem {
+  private readonly PROFILES: Record<GameDifficulty, IGLProfile> = {
+    easy: { exploration: 0.5, exploitation: 0, memory: 4, reactionChance: 0.35, reactionDelay: 6000 },
+    medium: { exploration: 0.25, exploitation: 0.4, memory: 8, reactionChance: 0.6, reactionDelay: 3000 },
+    hard: { exploration: 0.1, exploitation: 0.7, memory: 16, reactionChance: 0.85, reactionDelay: 1500 },
+    expert: { exploration: 0.05, exploitation: 0.9, memory: 30, reactionChance: 1, reactionDelay: 500 }
+  };
+  private readonly ECONOMY_WEIGHT = 0.15;
+  private readonly LOSING_STREAK_PENALTY = 0.1;
+  private readonly NOVELTY_BONUS = 0.1;
+  private readonly MAN_ADVANTAGE = 2;
+  private readonly LATE_ROUND = 25; // seconds left before the Ts have to go
+  private readonly SAVE_TIME = 40; // seconds left below which an outnumbered T side saves
+  private readonly RETAKE_TIME = 10; // seconds left on the bomb below which a retake is hopeless
+
+  private profile: IGLProfile = this.PROFILES.medium;
+  private map: MapDefinition | null = null;
+  private random: SeededRandom = new SeededRandom();
+
+  // Per-round bookkeeping for mid-round calls
+  private round = 0;
+  private handled = new Set<string>();
+  private dead = new Set<string>();
+  private pending: { call: string; at: number } | null = null;
+
+  public initialize(gameState: any, random: SeededRandom): void {
+    this.random = random;
+    this.map = getMap(gameState.match.map.name);
+    this.resetRound(gameState.match.currentRound);
+    console.log('BotIGLSystem initialized');
+  }
+
+  setDifficulty(difficulty: GameDifficulty): void {
+    this.profile = this.PROFILES[difficulty];
+  }
+
+  // Freezetime pick: the side's record with each strategy this match, how it
+  // fares against what the opponent tends to play, the buy and the score. All
+  // history comes from RoundSystem
+  chooseStrategy(state: GameState, side: Side, available: string[], rounds: RoundSystem): string {
+    if (available.length === 0) return 'default';
+    if (this.random.chance(this.profile.exploration)) return this.random.pick(available);
+
+    const opponent: Side = side === 't' ? 'ct' : 't';
+    const called = this.calledOnSide(state, rounds.getRoundHistory()).slice(-this.profile.memory);
+    const predicted = this.predictOpponent(called, opponent);
+    const behind = state.match.score[opponent] - state.match.score[side];
+    const lastTwo = called.slice(-2).map(round => round.strategies[side]);
+    const slumping = lastTwo.length === 2 && lastTwo.every(round => !round.success && round.strategy === lastTwo[0].strategy)
+      ? lastTwo[0].strategy
+      : null;
+
+    const scored = available.map(strategy => {
+      const played = called.filter(round => round.strategies[side].strategy === strategy);
+      const { wins, totalRounds } = rounds.getStrategyStats(side, strategy);
+      const own = this.winRate(wins, totalRounds);
+      const matchup = predicted.length > 0
+        ? predicted.reduce((sum, { strategy: expected, weight }) => {
+          const against = played.filter(round => round.strategies[opponent].strategy === expected);
+          return sum + weight * this.winRate(against.filter(round => round.winner === side).length, against.length);
+        }, 0)
+        : own;
+
+      let score = (1 - this.profile.exploitation) * own + this.profile.exploitation * matchup;
+      score += this.ECONOMY_WEIGHT * this.economyFit(state, side, strategy);
+      if (strategy === slumping) score -= this.LOSING_STREAK_PENALTY;
+      if (behind >= 3 && played.length === 0) score += this.NOVELTY_BONUS;
+      return { strategy, score };
+    });
+
+    const best = Math.max(...scored.map(({ score }) => score));
+    return this.random.pick(scored.filter(({ score }) => best - score < 1e-9)).strategy;
+  }
+
+  // Mid-round: notices kills, plants and the clock, and after the profile's
+  // reaction delay returns a call for the shot-caller to make. A better leader
+  // misses fewer situations
+  update(state: GameState, side: Side, caller: Agent, now: number): BotCall | null {
+    const { round } = state;
+    if (state.match.currentRound !== this.round) this.resetRound(state.match.currentRound);
+    if (round.phase !== 'live' && round.phase !== 'planted') return null;
+
+    const situation = this.readSituation(state, side);
+    if (situation && !this.handled.has(situation.key)) {
+      this.handled.add(situation.key);
+      const chance = this.profile.reactionChance * (0.5 + caller.stats.leadership / 2);
+      if (this.random.chance(chance)) {
+        this.pending = { call: situation.call, at: now + this.profile.reactionDelay };
+      }
+    }
+
+    if (!this.pending || now < this.pending.at) return null;
+    const { call } = this.pending;
+    this.pending = null;
+    return round.activeCalls[side]?.call === call ? null : { call, issuedBy: caller.id };
+  }
+
+  // The first situation that calls for something, most urgent first
+  private readSituation(state: GameState, side: Side): { key: string; call: string } | null {
+    const { round } = state;
+    const opponent: Side = side === 't' ? 'ct' : 't';
+    const ours = state.teams[side].agents.filter(agent => agent.isAlive).length;
+    const theirs = state.teams[opponent].agents.filter(agent => agent.isAlive).length;
+    const contact = this.findNewDeath(state);
+
+    const pick = (key: string, ...calls: string[]) => {
+      const call = calls.find(name => this.hasCall(side, name));
+      return call ? { key, call } : null;
+    };
+
+    if (side === 't') {
+      if (round.bombPlanted) return pick('planted', 'hold_positions');
+      if (theirs - ours >= this.MAN_ADVANTAGE && round.timeLeft < this.SAVE_TIME) return pick('outnumbered', 'save');
+      if (theirs - ours >= this.MAN_ADVANTAGE) return pick('behind', 'regroup');
+      if (ours - theirs >= this.MAN_ADVANTAGE) {
+        return pick('ahead', `execute_${this.weakerSite(state, opponent).toLowerCase()}`);
+      }
+      if (round.timeLeft < this.LATE_ROUND) {
+        return pick('late', `execute_${this.weakerSite(state, opponent).toLowerCase()}`);
+      }
+      // Losing the opening duel at a site means it is held; go to the other one
+      if (contact && contact.side === side) {
+        const other = contact.site === 'A' ? 'b' : 'a';
+        return pick('opening', `execute_${other}`, `rotate_${other}`);
+      }
+      return null;
+    }
+
+    if (round.bombPlanted) {
+      const bombSite = round.bombSite ?? 'A';
+      if (theirs - ours >= this.MAN_ADVANTAGE && round.timeLeft < this.RETAKE_TIME) return pick('lost', 'save');
+      return pick('retake', `rotate_${bombSite.toLowerCase()}`);
+    }
+    if (theirs - ours >= this.MAN_ADVANTAGE) return pick('behind', 'fall_back');
+    if (ours - theirs >= this.MAN_ADVANTAGE) return pick('ahead', 'push', 'play_picks');
+    // First contact shows where the Ts are
+    if (contact) return pick('contact', `rotate_${contact.site.toLowerCase()}`);
+    return null;
+  }
+
+  // The site and side of the latest agent to die since the last tick
+  private findNewDeath(state: GameState): { site: BombSite; side: Side } | null {
+    const fallen = [...state.teams.t.agents, ...state.teams.ct.agents]
+      .filter(agent => !agent.isAlive && !this.dead.has(agent.id));
+    fallen.forEach(agent => this.dead.add(agent.id));
+
+    const latest = fallen[fallen.length - 1];
+    return latest ? { site: this.nearestSite(latest.position), side: latest.team } : null;
+  }
+
+  // The site fewer living defenders are closer to
+  private weakerSite(state: GameState, defenders: Side): BombSite {
+    const alive = state.teams[defenders].agents.filter(agent => agent.isAlive);
+    const atA = alive.filter(agent => this.nearestSite(agent.position) === 'A').length;
+    return atA * 2 > alive.length ? 'B' : 'A';
+  }
+
+  private nearestSite(position: Position): BombSite {
+    if (!this.map) return 'A';
+    const { callouts, sites } = this.map;
+    return this.calculateDistance(position, callouts[sites.A].position)
+      <= this.calculateDistance(position, callouts[sites.B].position) ? 'A' : 'B';
+  }
+
+  // Rounds the bot's team played on the side it is on now: an even number of
+  // side swaps since. The rest of the history is the other team on this side
+  private calledOnSide(state: GameState, history: RoundOutcome[]): RoundOutcome[] {
+    const { currentRound, maxRounds, rules: { overtime } } = state.match;
+    return history.filter(outcome => {
+      let swaps = 0;
+      for (let round = outcome.round; round < currentRound; round++) {
+        if (isSideSwapRound(round, maxRounds, overtime)) swaps++;
+      }
+      return swaps % 2 === 0;
+    });
+  }
+
+  // Recent rounds count more; weights sum to 1
+  private predictOpponent(rounds: RoundOutcome[], opponent: Side): { strategy: string; weight: number }[] {
+    const weights: Record<string, number> = {};
+    rounds.forEach((round, index) => {
+      const recency = Math.pow(0.8, rounds.length - 1 - index);
+      const { strategy } = round.strategies[opponent];
+      weights[strategy] = (weights[strategy] ?? 0) + recency;
+    });
+    const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+    return Object.entries(weights).map(([strategy, weight]) => ({ strategy, weight: weight / total }));
+  }
+
+  // Laplace-smoothed, so an untried strategy starts at an even chance
+  private winRate(wins: number, rounds: number): number {
+    return (wins + 1) / (rounds + 2);
+  }
+
+  // Cheap rounds want fast, low-utility hits; full buys want utility and coordination
+  private economyFit(state: GameState, side: Side, strategy: string): number {
+    const buyType = state.teams[side].economy?.buyType;
+    const priority = this.map?.strategies[`${side}_side`][strategy]?.priority ?? {};
+    const speed = priority.speed ?? 0;
+    const utility = priority.utility ?? 0;
+    const coordination = priority.coordination ?? 0;
+
+    switch (buyType) {
+      case 'save':
+      case 'force':
+        return speed - utility;
+      case 'full':
+        return utility + coordination - speed / 2;
+      default:
+        return 0;
+    }
+  }
+
+  private hasCall(side: Side, call: string): boolean {
+    const setup = this.map?.midRoundCalls[call];
+    return !!setup && (!setup.sides || setup.sides.includes(side));
+  }
+
+  private resetRound(round: number): void {
+    this.round = round;
+    this.handled.clear();
+    this.dead.clear();
+    this.pending = null;
+  }
+
+  private calculateDistance(pos1: Position, pos2: Position): number {
+    const dx = pos2.x - pos1.x;
+    const dy = pos2.y - pos1.y;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+}
+
+export default BotIGLSystem;
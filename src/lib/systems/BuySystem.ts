@@ -1,15 +1,8 @@
 // BuySystem.ts
-interface Weapon {
-  cost: number;
-  type: 'pistol' | 'smg' | 'rifle' | 'sniper';
-  preference: string[];
-}
-
-interface Equipment {
-  cost: number;
-  priority: number;
-  ctOnly?: boolean;
-}
+import SeededRandom from '../SeededRandom';
+import { getWinThreshold, isLastRoundOfPeriod, isPistolRound, isSideSwapRound } from './RoundSystem';
+import { EQUIPMENT, WEAPONS, canBuy, getPrimaryWeapon } from '../weapons';
+import type { Agent, BuyPlan, BuyType, GameState, Side } from '@/types/game';
 
 interface BuyStrategy {
   maxSpend: number;
@@ -22,51 +15,43 @@ interface Loadout {
   total: number;
 }
 
+// A gun the donor should buy for a teammate who cannot afford one
+export interface PlannedDrop {
+  donor: string;
+  recipient: string;
+  weapon: string;
+}
+
+// Which loadout strategy each planned buy spends with; saving buys nothing
+const BUY_STRATEGIES: Record<BuyType, string | null> = {
+  full: 'full',
+  force: 'force',
+  half: 'semi',
+  save: null
+};
+
 class BuySystem {
-  private weapons: Record<string, Weapon>;
-  private equipment: Record<string, Equipment>;
+  private readonly weapons = WEAPONS;
+  private readonly equipment = EQUIPMENT;
+  // Rough cost of a rifle, armor and a couple of grenades (plus a kit on CT)
+  private readonly FULL_BUY_COST: Record<Side, number> = { t: 4100, ct: 4900 };
+  // What an agent who kept their rifle still needs
+  private readonly REFILL_COST = 1400;
+  private readonly FULL_BUY_MIN_AGENTS = 4;
+  private readonly HALF_BUY_MIN_AVERAGE = 2000;
   private buyStrategies: Record<string, BuyStrategy>;
+  private random: SeededRandom = new SeededRandom();
 
   constructor() {
-    this.initializeWeapons();
-    this.initializeEquipment();
     this.initializeBuyStrategies();
   }
 
-  public initialize(gameState: any): void {
+  public initialize(gameState: any, random: SeededRandom): void {
     // Initialize any state-dependent variables
+    this.random = random;
     console.log('BuySystem initialized');
   }
 
-  private initializeWeapons(): void {
-    this.weapons = {
-      // Pistols
-      glock: { cost: 200, type: 'pistol', preference: ['Entry Fragger'] },
-      usp: { cost: 200, type: 'pistol', preference: ['Support'] },
-      deagle: { cost: 700, type: 'pistol', preference: ['AWPer', 'Entry Fragger'] },
-
-      // SMGs
-      mp9: { cost: 1250, type: 'smg', preference: ['Support', 'In-Game Leader'] },
-      mac10: { cost: 1050, type: 'smg', preference: ['Entry Fragger', 'Lurker'] },
-
-      // Rifles
-      ak47: { cost: 2700, type: 'rifle', preference: ['Entry Fragger', 'Lurker'] },
-      m4a4: { cost: 3100, type: 'rifle', preference: ['Support', 'In-Game Leader'] },
-      awp: { cost: 4750, type: 'sniper', preference: ['AWPer'] }
-    };
-  }
-
-  private initializeEquipment(): void {
-    this.equipment = {
-      kevlar: { cost: 650, priority: 1 },
-      helmet: { cost: 350, priority: 2 },
-      defuse: { cost: 400, priority: 3, ctOnly: true },
-      flash: { cost: 200, priority: 4 },
-      smoke: { cost: 300, priority: 5 },
-      molotov: { cost: 400, priority: 6 }
-    };
-  }
-
   private initializeBuyStrategies(): void {
     this.buyStrategies = {
       eco: {
@@ -91,11 +76,18 @@ class BuySystem {
           kevlar: 0.2,
           utility: 0.2
         }
+      },
+      force: {
+        maxSpend: Infinity, // whatever the wallet holds
+        priorities: {
+          primary: 0.7,
+          kevlar: 0.3
+        }
       }
     };
   }
 
-  calculateAgentBuy(agent: any, money: number, strategy: string, side: 't' | 'ct'): Loadout {
+  calculateAgentBuy(agent: Agent, money: number, strategy: string, side: 't' | 'ct'): Loadout {
     const loadout: Loadout = {
       weapons: [],
       equipment: [],
@@ -110,8 +102,13 @@ class BuySystem {
     const maxSpend = Math.min(money, buyStrategy.maxSpend);
     let remainingMoney = maxSpend;
 
+    // Agents who kept a long gun from last round only top up
+    const hasPrimary = this.hasPrimary(agent);
+
     // Primary weapon selection based on strategy and role
-    if (strategy === 'full' || (strategy === 'semi' && remainingMoney > 2000)) {
+    if (hasPrimary) {
+      // Nothing to buy
+    } else if (strategy === 'full' || strategy === 'force' || (strategy === 'semi' && remainingMoney > 2000)) {
       const weapon = this.selectWeaponForAgent(agent, strategy, remainingMoney);
       if (weapon) {
         loadout.weapons.push(weapon);
@@ -119,9 +116,11 @@ class BuySystem {
       }
     }
 
-    // Always consider pistol if no primary or eco round
-    if (loadout.weapons.length === 0 || strategy === 'eco') {
-      const pistol = this.selectPistolForAgent(agent, remainingMoney);
+    // Always consider pistol if no primary or eco round. Outside eco rounds an
+    // unarmored agent keeps enough for kevlar before upgrading their pistol
+    if (!hasPrimary && (loadout.weapons.length === 0 || strategy === 'eco')) {
+      const armorReserve = strategy !== 'eco' && agent.armor < 100 ? this.equipment.kevlar.cost : 0;
+      const pistol = this.selectPistolForAgent(agent, remainingMoney - armorReserve);
       if (pistol) {
         loadout.weapons.push(pistol);
         remainingMoney -= this.weapons[pistol].cost;
@@ -137,20 +136,36 @@ class BuySystem {
     return loadout;
   }
 
-  private selectWeaponForAgent(agent: any, strategy: string, money: number): string | null {
+  private hasPrimary(agent: Agent): boolean {
+    const weapon = getPrimaryWeapon(agent.weapons ?? []);
+    return !!weapon && weapon.type !== 'pistol';
+  }
+
+  private getFullBuyNeed(agent: Agent, side: Side): number {
+    return this.hasPrimary(agent) ? this.REFILL_COST : this.FULL_BUY_COST[side];
+  }
+
+  private selectWeaponForAgent(agent: Agent, strategy: string, money: number): string | null {
     const preferredWeapons = Object.entries(this.weapons)
       .filter(([name, weapon]) => {
+        if (!canBuy(name, agent.team) || agent.weapons.includes(name)) return false;
         const matchesStrategy =
           (strategy === 'full' && (weapon.type === 'rifle' || weapon.type === 'sniper')) ||
+          (strategy === 'force' && weapon.type !== 'pistol') ||
           (strategy === 'semi' && weapon.type === 'smg');
-        const isPreferred = weapon.preference.includes(agent.role);
+        const isPreferred = weapon.preferredBy.includes(agent.role);
         const isAffordable = weapon.cost <= money;
 
-        return matchesStrategy && isPreferred && isAffordable;
+        // Roles whose favourites belong to the other side settle for any gun but the AWP
+        return matchesStrategy && (isPreferred || weapon.type !== 'sniper') && isAffordable;
       })
       .sort((a, b) => {
-        const aPreferenceIndex = a[1].preference.indexOf(agent.role);
-        const bPreferenceIndex = b[1].preference.indexOf(agent.role);
+        const preference = (weapon: typeof a[1]) => {
+          const index = weapon.preferredBy.indexOf(agent.role);
+          return index === -1 ? Infinity : index;
+        };
+        const aPreferenceIndex = preference(a[1]);
+        const bPreferenceIndex = preference(b[1]);
         if (aPreferenceIndex !== bPreferenceIndex) {
           return aPreferenceIndex - bPreferenceIndex;
         }
@@ -160,12 +175,15 @@ class BuySystem {
     return preferredWeapons.length > 0 ? preferredWeapons[0][0] : null;
   }
 
-  private selectPistolForAgent(agent: any, money: number): string | null {
+  // Never the pistol the agent already carries
+  private selectPistolForAgent(agent: Agent, money: number): string | null {
     const affordablePistols = Object.entries(this.weapons)
-      .filter(([name, weapon]) => weapon.type === 'pistol' && weapon.cost <= money)
+      .filter(([name, weapon]) => (
+        weapon.type === 'pistol' && weapon.cost <= money && canBuy(name, agent.team) && !agent.weapons.includes(name)
+      ))
       .sort((a, b) => {
-        const aPreferred = a[1].preference.includes(agent.role) ? 1 : 0;
-        const bPreferred = b[1].preference.includes(agent.role) ? 1 : 0;
+        const aPreferred = a[1].preferredBy.includes(agent.role) ? 1 : 0;
+        const bPreferred = b[1].preferredBy.includes(agent.role) ? 1 : 0;
         if (aPreferred !== bPreferred) {
           return bPreferred - aPreferred;
         }
@@ -175,28 +193,37 @@ class BuySystem {
     return affordablePistols.length > 0 ? affordablePistols[0][0] : null;
   }
 
-  private selectEquipment(agent: any, money: number, strategy: string, side: 't' | 'ct'): string[] {
+  private selectEquipment(agent: Agent, money: number, strategy: string, side: 't' | 'ct'): string[] {
     const equipment: string[] = [];
     let remainingMoney = money;
 
     if (remainingMoney <= 0) return equipment;
 
+    // Survivors keep their armor and anything they did not use
+    const owned = new Set<string>(agent.equipment ?? []);
+    if (agent.armor >= 100) owned.add('kevlar');
+
     const prioritizedEquipment = Object.entries(this.equipment)
-      .filter(([name, item]) => !item.ctOnly || side === 'ct')
+      .filter(([name]) => canBuy(name, side) && !owned.has(name))
       .sort((a, b) => a[1].priority - b[1].priority);
 
-    if (strategy !== 'eco' && remainingMoney >= this.equipment.kevlar.cost) {
-      equipment.push('kevlar');
-      remainingMoney -= this.equipment.kevlar.cost;
+    if (strategy !== 'eco') {
+      if (!owned.has('kevlar') && remainingMoney >= this.equipment.kevlar.cost) {
+        equipment.push('kevlar');
+        remainingMoney -= this.equipment.kevlar.cost;
+      }
 
-      if (remainingMoney >= this.equipment.helmet.cost) {
+      const hasKevlar = owned.has('kevlar') || equipment.includes('kevlar');
+      if (hasKevlar && !owned.has('helmet') && remainingMoney >= this.equipment.helmet.cost) {
         equipment.push('helmet');
         remainingMoney -= this.equipment.helmet.cost;
       }
     }
 
     prioritizedEquipment.forEach(([name, item]) => {
-      if (item.cost <= remainingMoney) {
+      // A helmet is worthless without the vest it attaches to
+      if (name === 'helmet' && !owned.has('kevlar') && !equipment.includes('kevlar')) return;
+      if (!equipment.includes(name) && item.cost <= remainingMoney) {
         equipment.push(name);
         remainingMoney -= item.cost;
       }
@@ -205,18 +232,155 @@ class BuySystem {
     return equipment;
   }
 
-  calculateTeamBuy(agents: any[], teamMoney: number, strategy: string, side: 't' | 'ct') {
-    if (agents.length === 0 || teamMoney <= 0) {
-      return [];
-    }
+  // Prices a requested loadout from the catalogue; throws on items the side cannot buy
+  calculateLoadoutCost(loadout: { weapons: string[]; equipment: string[] }, side: 't' | 'ct'): number {
+    const weaponCost = loadout.weapons.reduce((sum, name) => {
+      const weapon = this.weapons[name];
+      if (!weapon) {
+        throw new Error(`Unknown weapon: ${name}`);
+      }
+      if (!canBuy(name, side)) {
+        throw new Error(`${name} is only available to ${weapon.side?.toUpperCase()}`);
+      }
+      return sum + weapon.cost;
+    }, 0);
+
+    const equipmentCost = loadout.equipment.reduce((sum, name) => {
+      const item = this.equipment[name];
+      if (!item) {
+        throw new Error(`Unknown equipment: ${name}`);
+      }
+      if (!canBuy(name, side)) {
+        throw new Error(`${name} is only available to CT`);
+      }
+      return sum + item.cost;
+    }, 0);
+
+    return weaponCost + equipmentCost;
+  }
+
+  // Agents who cannot afford a full buy get a rifle from the teammate with the
+  // most money left over after their own full buy. Only on full and force buys
+  planDrops(agents: Agent[], buyType: BuyType, side: Side): PlannedDrop[] {
+    if (buyType !== 'full' && buyType !== 'force') return [];
+
+    const spare: Record<string, number> = Object.fromEntries(
+      agents.map(agent => [agent.id, agent.economy.current - this.getFullBuyNeed(agent, side)])
+    );
+    const drops: PlannedDrop[] = [];
+
+    agents
+      .filter(agent => !this.hasPrimary(agent) && spare[agent.id] < 0)
+      .forEach(recipient => {
+        const donor = agents
+          .filter(agent => agent.id !== recipient.id && spare[agent.id] > 0)
+          .sort((a, b) => spare[b.id] - spare[a.id])[0];
+        if (!donor) return;
+
+        const weapon = this.selectWeaponForAgent(recipient, 'full', spare[donor.id]);
+        if (!weapon) return;
+
+        drops.push({ donor: donor.id, recipient: recipient.id, weapon });
+        spare[donor.id] -= this.weapons[weapon].cost;
+      });
+
+    return drops;
+  }
 
-    const individualMoney = Math.floor(teamMoney / agents.length);
+  // Every agent spends from their own wallet according to the team's plan
+  calculateTeamBuy(agents: Agent[], buyType: BuyType, side: Side): { agent: string; loadout: Loadout }[] {
+    const strategy = BUY_STRATEGIES[buyType];
+    if (!strategy) return [];
 
-    return agents.map((agent) => ({
+    return agents.map(agent => ({
       agent: agent.id,
-      loadout: this.calculateAgentBuy(agent, individualMoney, strategy, side),
+      loadout: this.calculateAgentBuy(agent, agent.economy.current, strategy, side)
     }));
   }
+
+  // Decides full buy, force, half-buy or save from the wallets, the loss bonus
+  // and the score, and says why
+  planTeamBuy(state: GameState, side: Side): BuyPlan {
+    const team = state.teams[side];
+    const opponent: Side = side === 't' ? 'ct' : 't';
+    const { agents } = team;
+    const { currentRound, maxRounds, score, rules: { overtime, maxMoney } } = state.match;
+
+    const teamMoney = agents.reduce((sum, agent) => sum + agent.economy.current, 0);
+    const averageMoney = agents.length > 0 ? teamMoney / agents.length : 0;
+    const needs = (agent: Agent) => this.getFullBuyNeed(agent, side);
+    const readyNow = agents.filter(agent => agent.economy.current >= needs(agent)).length;
+    const readyAfterSave = agents.filter(agent => agent.economy.current + team.lossBonus >= needs(agent)).length;
+    // Teammates who can still pay for their own armor once someone drops them a rifle
+    const armedByDrops = this.planDrops(agents, 'full', side).filter(drop => {
+      const recipient = agents.find(agent => agent.id === drop.recipient);
+      return !!recipient && recipient.economy.current >= this.REFILL_COST;
+    }).length;
+
+    const decide = (): { buyType: BuyType; reasons: string[] } => {
+      if (isPistolRound(currentRound, maxRounds)) {
+        return { buyType: 'force', reasons: ['Pistol round: there is nothing to save for'] };
+      }
+      if (readyNow >= this.FULL_BUY_MIN_AGENTS) {
+        return { buyType: 'full', reasons: [`${readyNow} of ${agents.length} can afford rifles, armor and utility`] };
+      }
+      if (readyNow + armedByDrops >= this.FULL_BUY_MIN_AGENTS) {
+        return {
+          buyType: 'full',
+          reasons: [
+            `${readyNow} of ${agents.length} can afford rifles, armor and utility`,
+            `${armedByDrops} more can full buy with a rifle dropped by a teammate`
+          ]
+        };
+      }
+      if (score[opponent] + 1 > getWinThreshold(currentRound, maxRounds, overtime)) {
+        return { buyType: 'force', reasons: ['Opponent is one round from winning the match'] };
+      }
+      if (isSideSwapRound(currentRound, maxRounds, overtime) || isLastRoundOfPeriod(currentRound, maxRounds, overtime)) {
+        return { buyType: 'force', reasons: ['Last round of the half: money resets afterwards'] };
+      }
+      if (readyAfterSave >= this.FULL_BUY_MIN_AGENTS) {
+        return {
+          buyType: 'save',
+          reasons: [
+            `Only ${readyNow} of ${agents.length} can full buy now`,
+            `Saving leaves ${readyAfterSave} able to full buy next round even with a loss ($${team.lossBonus} loss bonus)`
+          ]
+        };
+      }
+      if (averageMoney >= this.HALF_BUY_MIN_AVERAGE) {
+        return {
+          buyType: 'half',
+          reasons: [
+            `Only ${readyNow} of ${agents.length} can full buy and saving would not change that`,
+            'SMGs and armor keep the round winnable without emptying every wallet'
+          ]
+        };
+      }
+      return {
+        buyType: 'save',
+        reasons: [`An average of $${Math.round(averageMoney)} is too little for a useful buy`]
+      };
+    };
+
+    const { buyType, reasons } = decide();
+    // Same order as the buy itself: donors pay for drops first and buy with what is left,
+    // and recipients buy as if they already hold the dropped gun
+    const strategy = BUY_STRATEGIES[buyType];
+    const drops = this.planDrops(agents, buyType, side);
+    const minimumNextRound = agents.reduce((sum, agent) => {
+      const dropped = drops.filter(drop => drop.donor === agent.id)
+        .reduce((total, drop) => total + this.weapons[drop.weapon].cost, 0);
+      const received = drops.filter(drop => drop.recipient === agent.id).map(drop => drop.weapon);
+      const wallet = agent.economy.current - dropped;
+      const spent = strategy
+        ? this.calculateAgentBuy({ ...agent, weapons: [...agent.weapons, ...received] }, wallet, strategy, side).total
+        : 0;
+      return sum + Math.min(maxMoney, wallet - spent + team.lossBonus);
+    }, 0);
+
+    return { buyType, reasons, teamMoney, minimumNextRound };
+  }
 }
 
 export default BuySystem;
\ No newline at end of file
@@ -1,77 +1,60 @@
 // CombatSystem.ts
-interface Position {
-  x: number;
-  y: number;
+import SeededRandom from '../SeededRandom';
+import MapGeometry from './MapGeometry';
+import { getLineups, getMap } from '../maps';
+import { getPrimaryWeapon, getUtility, isUtility, HEADSHOT_MULTIPLIER, RANGE_UNIT } from '../weapons';
+import type { Engagement, Lineup, MapDefinition, MidRoundCallSetup } from '../maps';
+import type {
+  Agent,
+  CombatParticipant,
+  CombatResult,
+  DuelRecord,
+  DuelShot,
+  GameState,
+  Position,
+  Side,
+  UtilityEntity,
+  Weapon
+} from '@/types/game';
+
+// Rounds left in the agent's magazine and when they can next pull the trigger
+interface WeaponState {
+  weapon: string;
+  rounds: number;
+  nextShotAt: number;
 }
 
-interface Agent {
+// An open exchange of fire. Agents only shoot in their oldest open duel, so a
+// third agent can crossfire someone who is busy with another opponent.
+interface ActiveDuel {
   id: string;
-  name: string;
-  team: 't' | 'ct';
-  role: string;
-  position: Position;
-  isAlive: boolean;
-  health: number;
-  armor: number;
-  weapons: string[];
-  equipment: string[];
-  stats: {
-    aim: number;
-    reaction: number;
-    positioning: number;
-    utility: number;
-  };
-  matchStats: {
-    kills: number;
-    deaths: number;
-    assists: number;
-    utilityDamage: number;
-    flashAssists: number;
-  };
-  strategyStats: {
-    utilityUsage: number;
-    positioningScore: number;
-    strategyAdherence: number;
-    impactRating: number;
-  };
+  round: number;
+  agents: [Agent, Agent];
+  initiator: string;
+  startTime: number;
+  readyAt: Record<string, number>;
+  shotsFired: Record<string, number>;
+  shots: DuelShot[];
+  winner: string | null;
 }
 
-interface CombatResult {
-  type: 'kill' | 'damage' | 'utility' | 'trade';
-  attacker: {
-    id: string;
-    name: string;
-    team: 't' | 'ct';
-    role: string;
-  };
-  victim?: {
-    id: string;
-    name: string;
-    team: 't' | 'ct';
-    role: string;
-  };
-  weapon?: string;
-  damage?: number;
-  isHeadshot?: boolean;
-  isStrategyKill?: boolean;
-  isTradeKill?: boolean;
-  position?: Position;
+interface CombatUpdate {
+  results: CombatResult[];
+  duels: DuelRecord[];
 }
 
 class CombatSystem {
   private readonly TRADE_KILL_TIME = 3000; // 3 seconds window for trade kills
-  private readonly MAX_FLASH_DURATION = 3000;
-  private readonly BASE_DAMAGE = {
-    rifle: { body: 25, head: 100 },
-    smg: { body: 20, head: 80 },
-    pistol: { body: 15, head: 65 },
-    awp: { body: 100, head: 100 },
-    utility: {
-      molotov: 40,
-      grenade: 50,
-      flash: 0
-    }
-  };
+  private readonly BASE_REACTION_TIME = 150;
+  private readonly REACTION_TIME_RANGE = 300; // added at reaction 0
+  private readonly SPOTTING_DELAY = 150; // target was not looking for this fight
+  private readonly SPRAY_DECAY = 0.9;
+  private readonly MIN_SPRAY_ACCURACY = 0.4;
+  private readonly MAX_THROW_DISTANCE = 120;
+  private readonly LINEUP_RANGE = 20; // how close to the lineup spot the thrower must stand
+  private readonly LINEUP_MISS_DISTANCE = 25;
+  private readonly FLASHED_ACCURACY = 0.15; // share of normal accuracy while blind
+  private readonly HE_ARMOR_REDUCTION = 0.5;
 
   private lastDeaths: Map<string, {
     time: number;
@@ -79,52 +62,158 @@ class CombatSystem {
     killer: string;
   }> = new Map();
 
-  public initialize(gameState: any): void {
+  private weaponStates: Map<string, WeaponState> = new Map();
+  private activeDuels: ActiveDuel[] = [];
+  private smokes: UtilityEntity[] = [];
+  private lastUtilityUpdate: number | null = null;
+  private random: SeededRandom = new SeededRandom();
+  private geometry: MapGeometry = new MapGeometry();
+  private midRoundCalls: Record<string, MidRoundCallSetup> = {};
+  private map: MapDefinition | null = null;
+  private friendlyFire = false;
+
+  public initialize(gameState: any, random: SeededRandom): void {
     // Initialize combat system state
+    this.random = random;
     this.lastDeaths.clear();
+    this.weaponStates.clear();
+    this.activeDuels = [];
+    this.smokes = [];
+    this.lastUtilityUpdate = null;
+    const map = getMap(gameState.match.map.name);
+    this.geometry.loadMap(map);
+    this.midRoundCalls = map.midRoundCalls;
+    this.map = map;
+    this.friendlyFire = gameState.match.rules.friendlyFire;
   }
+
+  // Every agent starts a round with a full magazine, clear eyes and nobody in a fight
+  public resetRound(agents: Agent[]): void {
+    this.weaponStates.clear();
+    this.activeDuels = [];
+    this.smokes = [];
+    this.lastUtilityUpdate = null;
+    agents.forEach(agent => {
+      if (!agent.status) return;
+      agent.status.isReloading = false;
+      agent.status.isFlashed = false;
+      delete agent.status.flashedUntil;
+    });
+  }
+
+  // Plays out open duels up to `now`, then lets agents without a fight pick one
   processCombatRound(
     agents: Agent[],
-    state: any,
-    strategies: { t: string; ct: string }
-  ): CombatResult[] {
+    state: GameState,
+    strategies: { t: string; ct: string },
+    now: number
+  ): CombatUpdate {
     const results: CombatResult[] = [];
-    const aliveAgents = agents.filter(a => a.isAlive);
+    const duels: DuelRecord[] = [];
+    this.updateUtilityState(agents, state, now);
+    const engagements: Record<Side, Engagement> = {
+      t: this.getActiveCall(state, 't')?.engagement ?? 'normal',
+      ct: this.getActiveCall(state, 'ct')?.engagement ?? 'normal'
+    };
+
+    [...this.activeDuels].forEach(duel => {
+      results.push(...this.advanceDuel(duel, strategies, engagements, now));
+      if (this.isDuelOver(duel)) {
+        duels.push(this.endDuel(duel, now));
+      }
+    });
 
-    // Process combat for each alive agent
+    const aliveAgents = agents.filter(a => a.isAlive);
     aliveAgents.forEach(attacker => {
-      const targets = this.findValidTargets(attacker, aliveAgents);
-      
-      targets.forEach(target => {
-        // Check if combat occurs based on strategy and positions
-        if (this.shouldEngageCombat(attacker, target, strategies)) {
-          const combatResult = this.resolveCombat(attacker, target, strategies);
-          if (combatResult) {
-            results.push(combatResult);
-          }
-        }
+      if (attacker.status?.isFlashed) return;
+      if (this.activeDuels.some(duel => duel.agents.includes(attacker))) return;
+
+      // Engagement range is cheap to check, so it goes before line of sight
+      const target = aliveAgents
+        .filter(candidate => candidate.team !== attacker.team)
+        .filter(candidate => this.shouldEngageCombat(attacker, candidate, strategies, engagements[attacker.team]))
+        .filter(candidate => this.hasLineOfSight(attacker.position, candidate.position))
+        .sort((a, b) =>
+          this.calculateDistance(attacker.position, a.position) - this.calculateDistance(attacker.position, b.position)
+        )[0];
+
+      if (target) {
+        this.startDuel(attacker, target, state.match.currentRound, strategies, engagements, now);
+      }
+    });
+
+    return { results, duels };
+  }
+
+  // Burns whoever stands in fire, throws planned lineups, then lets agents with
+  // a reason throw whatever utility the remaining lineups do not need
+  processUtility(
+    agents: Agent[],
+    state: GameState,
+    strategies: { t: string; ct: string },
+    now: number
+  ): CombatResult[] {
+    const results: CombatResult[] = [];
+    const elapsed = now - (this.lastUtilityUpdate ?? now);
+    this.lastUtilityUpdate = now;
+
+    state.round.utility
+      .filter(entity => entity.type === 'molotov')
+      .forEach(molotov => {
+        const thrower = agents.find(agent => agent.id === molotov.thrownBy);
+        const damage = Math.round((getUtility('molotov').effect.damage ?? 0) * elapsed / 1000);
+        if (!thrower || damage <= 0) return;
+
+        agents
+          .filter(agent => agent.isAlive && (this.friendlyFire || agent.team !== molotov.side))
+          .filter(agent => this.calculateDistance(agent.position, molotov.position) <= molotov.radius)
+          .forEach(agent => results.push(this.applyUtilityDamage(thrower, agent, 'molotov', damage, now)));
       });
 
-      // Process utility usage
-      if (attacker.equipment.length > 0) {
-        const utilityResult = this.processUtilityUsage(attacker, aliveAgents, strategies);
-        if (utilityResult) {
-          results.push(...utilityResult);
-        }
+    results.push(...this.throwLineups(agents, state, strategies, now));
+    const pending = this.getPendingLineups(state, strategies);
+
+    agents.forEach(agent => {
+      if (!agent.isAlive || agent.status?.isFlashed) return;
+      const call = this.getActiveCall(state, agent.team);
+      if (call?.useUtility === false) return;
+
+      const aliveAgents = agents.filter(a => a.isAlive);
+      const plan = this.chooseThrow(agent, aliveAgents, strategies, call?.engagement ?? 'normal', pending);
+      if (plan) {
+        results.push(...this.throwUtility(agent, plan.utility, plan.target, state, aliveAgents, now).results);
       }
     });
 
     return results;
   }
 
+  private getActiveCall(state: GameState, side: Side): MidRoundCallSetup | null {
+    const call = state.round.activeCalls[side];
+    return call ? this.midRoundCalls[call.call] || null : null;
+  }
+
   private shouldEngageCombat(
     attacker: Agent,
     target: Agent,
-    strategies: { t: string; ct: string }
+    strategies: { t: string; ct: string },
+    engagement: Engagement
   ): boolean {
     const distance = this.calculateDistance(attacker.position, target.position);
     const strategy = strategies[attacker.team];
 
+    // An active call overrides the strategy's engagement rules
+    switch (engagement) {
+      case 'avoid':
+        return distance < 25; // only fight when cornered
+      case 'aggressive':
+        return distance < 90;
+      case 'hold':
+        return distance < 60;
+      case 'picks':
+        return attacker.role === 'AWPer' ? distance < 150 : distance < 40;
+    }
+
     // Strategy-based engagement rules
     switch (strategy) {
       case 'rush_b':
@@ -140,144 +229,501 @@ class CombatSystem {
     }
   }
 
-  private resolveCombat(
+  private startDuel(
+    initiator: Agent,
+    target: Agent,
+    round: number,
+    strategies: { t: string; ct: string },
+    engagements: Record<Side, Engagement>,
+    now: number
+  ): void {
+    // Whoever was not looking for the fight needs a moment to find the shooter
+    const targetSpotted = this.shouldEngageCombat(target, initiator, strategies, engagements[target.team]);
+
+    this.activeDuels.push({
+      id: `${now}-${initiator.id}-${target.id}`,
+      round,
+      agents: [initiator, target],
+      initiator: initiator.id,
+      startTime: now,
+      readyAt: {
+        [initiator.id]: now + this.getReactionTime(initiator),
+        // A blinded target cannot answer before the flash wears off
+        [target.id]: Math.max(
+          now + this.getReactionTime(target) + (targetSpotted ? 0 : this.SPOTTING_DELAY),
+          target.status?.isFlashed ? target.status.flashedUntil ?? now : now
+        )
+      },
+      shotsFired: { [initiator.id]: 0, [target.id]: 0 },
+      shots: [],
+      winner: null
+    });
+  }
+
+  // Fires every shot due by `now`, earliest first, until the duel is decided
+  private advanceDuel(
+    duel: ActiveDuel,
+    strategies: { t: string; ct: string },
+    engagements: Record<Side, Engagement>,
+    now: number
+  ): CombatResult[] {
+    const results: CombatResult[] = [];
+
+    while (!this.isDuelOver(duel)) {
+      const next = this.getNextShot(duel, now);
+      if (!next) break;
+
+      const target = duel.agents[0] === next.agent ? duel.agents[1] : duel.agents[0];
+      const result = this.fireDuelShot(duel, next.agent, target, next.weapon, strategies, engagements[next.agent.team], next.time);
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    return results;
+  }
+
+  private fireDuelShot(
+    duel: ActiveDuel,
     attacker: Agent,
     target: Agent,
-    strategies: { t: string; ct: string }
+    weapon: Weapon,
+    strategies: { t: string; ct: string },
+    engagement: Engagement,
+    time: number
   ): CombatResult | null {
-    const weapon = this.getPrimaryWeapon(attacker);
-    if (!weapon) return null;
+    const shotIndex = duel.shotsFired[attacker.id]++;
+    this.fireShot(attacker, weapon, time);
+    if (attacker.status?.isReloading) {
+      duel.shotsFired[attacker.id] = 0; // recoil resets while reloading
+    }
 
-    // Calculate hit probability based on multiple factors
-    const baseProbability = this.calculateHitProbability(attacker, target, strategies);
+    // The first bullet goes where the weapon's accuracy puts it; the spray drifts after
+    const sprayFactor = Math.max(this.MIN_SPRAY_ACCURACY, Math.pow(this.SPRAY_DECAY, shotIndex));
+    const blindFactor = (attacker.status?.flashedUntil ?? 0) > time ? this.FLASHED_ACCURACY : 1;
+    const hitProbability = this.calculateHitProbability(attacker, target, weapon, strategies, engagement)
+      * sprayFactor * blindFactor;
     const distance = this.calculateDistance(attacker.position, target.position);
-    const isHeadshot = Math.random() < (attacker.stats.aim * 0.3);
-
-    if (Math.random() < baseProbability) {
-      const damage = this.calculateDamage(weapon, distance, isHeadshot, target.armor);
-      target.health -= damage;
-
-      // Update stats
-      if (target.health <= 0) {
-        target.isAlive = false;
-        attacker.matchStats.kills++;
-        target.matchStats.deaths++;
-
-        // Check for trade kill
-        const isTradeKill = this.checkTradeKill(attacker, target);
-        
-        // Update last deaths for trade kill tracking
-        this.lastDeaths.set(target.id, {
-          time: Date.now(),
-          position: { ...target.position },
-          killer: attacker.id
-        });
-
-        return {
-          type: 'kill',
-          attacker: {
-            id: attacker.id,
-            name: attacker.name,
-            team: attacker.team,
-            role: attacker.role
-          },
-          victim: {
-            id: target.id,
-            name: target.name,
-            team: target.team,
-            role: target.role
-          },
-          weapon,
-          damage,
-          isHeadshot,
-          isStrategyKill: this.isStrategyBasedKill(attacker, target, strategies),
-          isTradeKill,
-          position: { ...target.position }
-        };
-      }
+    const isHeadshot = this.random.next() < (attacker.stats.aim * 0.3);
+    const hit = this.random.next() < hitProbability;
+
+    const shot: DuelShot = { shooter: attacker.id, time, hit, damage: 0, isHeadshot: hit && isHeadshot };
+    duel.shots.push(shot);
+    if (!hit) return null;
+
+    const { damage, armorDamage } = this.calculateDamage(weapon, distance, isHeadshot, target);
+    shot.damage = damage;
+    target.health -= damage;
+    target.armor = Math.max(0, target.armor - armorDamage);
 
+    if (target.health > 0) {
       return {
+        id: `${time}-${attacker.id}-${target.id}`,
         type: 'damage',
-        attacker: {
-          id: attacker.id,
-          name: attacker.name,
-          team: attacker.team,
-          role: attacker.role
-        },
-        victim: {
-          id: target.id,
-          name: target.name,
-          team: target.team,
-          role: target.role
-        },
-        weapon,
+        attacker: this.toParticipant(attacker),
+        victim: this.toParticipant(target),
+        weapon: weapon.id,
         damage,
-        position: { ...target.position }
+        position: { ...target.position },
+        timestamp: time
       };
     }
 
-    return null;
+    duel.winner = attacker.id;
+    const isTradeKill = this.registerKill(attacker, target, time);
+
+    return {
+      id: `${time}-${attacker.id}-${target.id}`,
+      type: 'kill',
+      attacker: this.toParticipant(attacker),
+      victim: this.toParticipant(target),
+      weapon: weapon.id,
+      damage,
+      isHeadshot,
+      isStrategyKill: this.isStrategyBasedKill(attacker, target, strategies),
+      isTradeKill,
+      position: { ...target.position },
+      timestamp: time
+    };
   }
-  private processUtilityUsage(
-    attacker: Agent,
-    targets: Agent[],
-    strategies: { t: string; ct: string }
-  ): CombatResult[] {
-    const results: CombatResult[] = [];
-    const utilities = [...attacker.equipment];
-
-    utilities.forEach(utility => {
-      const affectedTargets = this.findUtilityTargets(attacker, targets, utility);
-      
-      affectedTargets.forEach(target => {
-        const damage = this.BASE_DAMAGE.utility[utility] || 0;
-        
-        if (utility === 'flash') {
-          // Process flash effects
-          this.processFlashEffect(attacker, target);
-        } else if (damage > 0) {
-          target.health -= damage;
-          target.matchStats.utilityDamage += damage;
-
-          results.push({
-            type: 'utility',
-            attacker: {
-              id: attacker.id,
-              name: attacker.name,
-              team: attacker.team,
-              role: attacker.role
-            },
-            victim: {
-              id: target.id,
-              name: target.name,
-              team: target.team,
-              role: target.role
-            },
-            damage,
-            position: { ...target.position }
-          });
+
+  // Marks the target dead and returns whether the kill was a trade
+  private registerKill(attacker: Agent, target: Agent, time: number): boolean {
+    target.isAlive = false;
+    target.matchStats.deaths++;
+
+    // Team kills and suicides (friendly fire only) take a kill away and are never trades
+    if (attacker.team === target.team) {
+      attacker.matchStats.kills--;
+      return false;
+    }
+    attacker.matchStats.kills++;
+
+    // Check for trade kill
+    const isTradeKill = this.checkTradeKill(attacker, target, time);
+
+    // Update last deaths for trade kill tracking
+    this.lastDeaths.set(target.id, {
+      time,
+      position: { ...target.position },
+      killer: attacker.id
+    });
+
+    return isTradeKill;
+  }
+
+  // A duel ends when either side dies (here or elsewhere) or sight is broken
+  private isDuelOver(duel: ActiveDuel): boolean {
+    const [a, b] = duel.agents;
+    return !a.isAlive || !b.isAlive || !this.hasLineOfSight(a.position, b.position);
+  }
+
+  private endDuel(duel: ActiveDuel, now: number): DuelRecord {
+    this.activeDuels = this.activeDuels.filter(other => other !== duel);
+    // A kill ends the duel on the fatal shot; anything else ends it this tick
+    const lastShot = duel.shots[duel.shots.length - 1];
+    const endTime = duel.winner && lastShot ? lastShot.time : now;
+
+    // Survivors turn to their next open duel, which costs another reaction
+    duel.agents.filter(agent => agent.isAlive).forEach(agent => {
+      this.activeDuels.forEach(other => {
+        if (other.readyAt[agent.id] !== undefined) {
+          other.readyAt[agent.id] = Math.max(other.readyAt[agent.id], endTime + this.getReactionTime(agent));
         }
       });
+    });
+
+    return {
+      id: duel.id,
+      round: duel.round,
+      participants: [this.toParticipant(duel.agents[0]), this.toParticipant(duel.agents[1])],
+      initiator: duel.initiator,
+      startTime: duel.startTime,
+      endTime,
+      firstShooter: duel.shots[0]?.shooter ?? null,
+      winner: duel.winner,
+      outcome: duel.winner ? 'kill' : 'disengaged',
+      shots: duel.shots
+    };
+  }
+
+  // The earliest shot due by `now` from an agent for whom this is the primary duel
+  private getNextShot(duel: ActiveDuel, now: number): { agent: Agent; weapon: Weapon; time: number } | null {
+    let next: { agent: Agent; weapon: Weapon; time: number } | null = null;
+
+    for (const agent of duel.agents) {
+      const weapon = getPrimaryWeapon(agent.weapons);
+      if (!weapon || this.getPrimaryDuel(agent) !== duel) continue;
+
+      const time = Math.max(duel.readyAt[agent.id], this.getWeaponState(agent, weapon).nextShotAt);
+      if (time <= now && (!next || time < next.time)) {
+        next = { agent, weapon, time };
+      }
+    }
+
+    return next;
+  }
+
+  private getPrimaryDuel(agent: Agent): ActiveDuel | undefined {
+    return this.activeDuels.find(duel => duel.agents.includes(agent));
+  }
 
-      // Update utility usage stats
-      attacker.strategyStats.utilityUsage += 0.2;
+  private getReactionTime(agent: Agent): number {
+    return this.BASE_REACTION_TIME
+      + (1 - agent.stats.reaction) * this.REACTION_TIME_RANGE
+      + this.random.range(0, 50);
+  }
+
+  private toParticipant(agent: Agent): CombatParticipant {
+    return {
+      id: agent.id,
+      name: agent.name,
+      team: agent.team,
+      role: agent.role
+    };
+  }
+
+  // Drops expired smokes and molotovs and lets flashed agents see again
+  private updateUtilityState(agents: Agent[], state: GameState, now: number): void {
+    state.round.utility = state.round.utility.filter(entity => entity.expiresAt > now);
+    this.smokes = state.round.utility.filter(entity => entity.type === 'smoke');
+
+    agents.forEach(agent => {
+      if (agent.status?.isFlashed && (agent.status.flashedUntil ?? 0) <= now) {
+        agent.status.isFlashed = false;
+      }
+    });
+  }
+
+  // Each lineup goes once per round, thrown by the first eligible agent on its spot
+  private throwLineups(
+    agents: Agent[],
+    state: GameState,
+    strategies: { t: string; ct: string },
+    now: number
+  ): CombatResult[] {
+    const results: CombatResult[] = [];
+
+    this.getPendingLineups(state, strategies).forEach(([id, lineup]) => {
+      if (!this.map || this.getActiveCall(state, lineup.side)?.useUtility === false) return;
+
+      const from = this.map.callouts[lineup.from].position;
+      const aliveAgents = agents.filter(agent => agent.isAlive);
+      const thrower = aliveAgents.find(agent =>
+        agent.team === lineup.side &&
+        lineup.roles.includes(agent.role) &&
+        agent.equipment.includes(lineup.utility) &&
+        !agent.status?.isFlashed &&
+        this.calculateDistance(agent.position, from) <= this.LINEUP_RANGE
+      );
+      if (!thrower) return;
+
+      // Utility skill against the lineup's difficulty decides whether it lands
+      const successChance = Math.max(0.05, Math.min(0.98,
+        0.35 + thrower.stats.utility * 0.6 - lineup.difficulty * 0.3
+      ));
+      const success = this.random.chance(successChance);
+      const missAngle = this.random.range(0, 2 * Math.PI);
+      const target = success
+        ? lineup.target
+        : {
+            x: lineup.target.x + Math.cos(missAngle) * this.LINEUP_MISS_DISTANCE,
+            y: lineup.target.y + Math.sin(missAngle) * this.LINEUP_MISS_DISTANCE
+          };
+
+      const thrown = this.throwUtility(thrower, lineup.utility, target, state, aliveAgents, now, 0);
+      results.push(...thrown.results);
+      state.round.lineups.push({
+        lineupId: id,
+        name: lineup.name,
+        agentId: thrower.id,
+        side: lineup.side,
+        from: { ...from },
+        position: { ...thrown.entity.position },
+        success,
+        time: now
+      });
     });
 
     return results;
   }
 
+  private getPendingLineups(state: GameState, strategies: { t: string; ct: string }): [string, Lineup][] {
+    const map = this.map;
+    if (!map) return [];
+
+    const thrown = new Set(state.round.lineups.map(lineup => lineup.lineupId));
+    return (['t', 'ct'] as const)
+      .flatMap(side => getLineups(map, side, strategies[side]))
+      .filter(([id, lineup]) => !thrown.has(id) && lineup.phase === state.round.phase);
+  }
+
+  // Flash, molotov or HE the nearest enemy worth fighting; smoke one that is not
+  private chooseThrow(
+    agent: Agent,
+    aliveAgents: Agent[],
+    strategies: { t: string; ct: string },
+    engagement: Engagement,
+    pendingLineups: [string, Lineup][]
+  ): { utility: string; target: Position } | null {
+    // Grenades a pending lineup still needs are not spent reactively
+    const utilities = agent.equipment.filter(isUtility);
+    pendingLineups
+      .filter(([, lineup]) => lineup.side === agent.team && lineup.roles.includes(agent.role))
+      .forEach(([, lineup]) => {
+        const index = utilities.indexOf(lineup.utility);
+        if (index >= 0) utilities.splice(index, 1);
+      });
+    if (utilities.length === 0) return null;
+
+    // Better utility players find the moment more often
+    if (!this.random.chance(0.2 + agent.stats.utility * 0.5)) return null;
+
+    const enemy = aliveAgents
+      .filter(other => other.team !== agent.team)
+      .filter(other => this.calculateDistance(agent.position, other.position) <= this.MAX_THROW_DISTANCE)
+      .filter(other => this.hasLineOfSight(agent.position, other.position))
+      .sort((a, b) =>
+        this.calculateDistance(agent.position, a.position) - this.calculateDistance(agent.position, b.position)
+      )[0];
+    if (!enemy) return null;
+
+    if (!this.shouldEngageCombat(agent, enemy, strategies, engagement)) {
+      return utilities.includes('smoke')
+        ? {
+            utility: 'smoke',
+            target: {
+              x: (agent.position.x + enemy.position.x) / 2,
+              y: (agent.position.y + enemy.position.y) / 2
+            }
+          }
+        : null;
+    }
+
+    const utility = ['flash', 'molotov', 'he'].find(id => utilities.includes(id));
+    return utility ? { utility, target: { ...enemy.position } } : null;
+  }
+
+  private throwUtility(
+    thrower: Agent,
+    utilityId: string,
+    target: Position,
+    state: GameState,
+    aliveAgents: Agent[],
+    now: number,
+    // Landing spread shrinks with the thrower's utility skill
+    spread: number = (1 - thrower.stats.utility) * 15
+  ): { entity: UtilityEntity; results: CombatResult[] } {
+    thrower.equipment.splice(thrower.equipment.indexOf(utilityId), 1);
+    thrower.strategyStats.utilityUsage += 0.2;
+
+    const { type, effect } = getUtility(utilityId);
+    const entity: UtilityEntity = {
+      id: `${now}-${thrower.id}-${utilityId}`,
+      type,
+      thrownBy: thrower.id,
+      side: thrower.team,
+      position: {
+        x: target.x + this.random.range(-spread, spread),
+        y: target.y + this.random.range(-spread, spread)
+      },
+      radius: effect.radius,
+      thrownAt: now,
+      expiresAt: type === 'smoke' || type === 'molotov' ? now + effect.duration : now
+    };
+    state.round.utility.push(entity);
+
+    switch (type) {
+      case 'smoke':
+        this.smokes.push(entity);
+        return { entity, results: [] };
+      case 'flash':
+        this.detonateFlash(thrower, entity, effect.duration, aliveAgents, now);
+        return { entity, results: [] };
+      case 'he':
+        return { entity, results: this.detonateHe(thrower, entity, effect.damage ?? 0, aliveAgents, now) };
+      default:
+        return { entity, results: [] };
+    }
+  }
+
+  // Blinds everyone in range who can see the pop, longer the closer they are
+  private detonateFlash(
+    thrower: Agent,
+    flash: UtilityEntity,
+    maxDuration: number,
+    agents: Agent[],
+    now: number
+  ): void {
+    agents.forEach(agent => {
+      const distance = this.calculateDistance(agent.position, flash.position);
+      if (distance > flash.radius) return;
+      if (!this.isFacing(agent, thrower, flash.position)) return;
+      if (!this.hasLineOfSight(agent.position, flash.position)) return;
+
+      const flashedUntil = now + maxDuration * (1 - distance / flash.radius);
+      agent.status = {
+        ...agent.status,
+        isFlashed: true,
+        flashedUntil: Math.max(agent.status?.flashedUntil ?? 0, flashedUntil)
+      };
+      if (agent.team !== thrower.team) {
+        thrower.matchStats.flashAssists++;
+      }
+    });
+  }
+
+  // Damage falls off linearly from the centre; smoke does not stop the blast
+  private detonateHe(
+    thrower: Agent,
+    grenade: UtilityEntity,
+    maxDamage: number,
+    agents: Agent[],
+    now: number
+  ): CombatResult[] {
+    return agents
+      .filter(agent => agent.isAlive && (this.friendlyFire || agent.team !== thrower.team))
+      .filter(agent => this.calculateDistance(agent.position, grenade.position) <= grenade.radius)
+      .filter(agent => this.geometry.hasLineOfSight(agent.position, grenade.position))
+      .map(agent => {
+        const falloff = 1 - this.calculateDistance(agent.position, grenade.position) / grenade.radius;
+        const armorFactor = agent.armor > 0 ? this.HE_ARMOR_REDUCTION : 1;
+        return this.applyUtilityDamage(thrower, agent, 'he', Math.round(maxDamage * falloff * armorFactor), now);
+      });
+  }
+
+  private applyUtilityDamage(
+    attacker: Agent,
+    target: Agent,
+    utility: string,
+    damage: number,
+    now: number
+  ): CombatResult {
+    target.health -= damage;
+    if (attacker.team !== target.team) {
+      attacker.matchStats.utilityDamage += damage;
+    }
+
+    const result: CombatResult = {
+      id: `${now}-${attacker.id}-${target.id}-${utility}`,
+      type: 'utility',
+      attacker: this.toParticipant(attacker),
+      victim: this.toParticipant(target),
+      weapon: utility,
+      damage,
+      position: { ...target.position },
+      timestamp: now
+    };
+
+    if (target.health > 0) return result;
+
+    const isTradeKill = this.registerKill(attacker, target, now);
+    return { ...result, type: 'kill', isTradeKill };
+  }
+
+  // Agents carry no heading unless one is set; without it the thrower's
+  // enemies are assumed to be watching for them and teammates to look away
+  private isFacing(agent: Agent, thrower: Agent, point: Position): boolean {
+    const { angle } = agent.position;
+    if (angle === undefined) return agent.team !== thrower.team;
+
+    const toPoint = Math.atan2(point.y - agent.position.y, point.x - agent.position.x);
+    const difference = Math.abs(Math.atan2(Math.sin(toPoint - angle), Math.cos(toPoint - angle)));
+    return difference < Math.PI / 2;
+  }
+
   private calculateHitProbability(
     attacker: Agent,
     target: Agent,
-    strategies: { t: string; ct: string }
+    weapon: Weapon,
+    strategies: { t: string; ct: string },
+    engagement: Engagement
   ): number {
     const distance = this.calculateDistance(attacker.position, target.position);
-    const baseAccuracy = attacker.stats.aim;
+    const baseAccuracy = attacker.stats.aim * weapon.accuracy;
     const positioningBonus = attacker.strategyStats.positioningScore * 0.2;
     const strategyBonus = this.getStrategyBonus(attacker, strategies[attacker.team]);
+    const engagementBonus = this.getEngagementBonus(attacker, engagement, distance);
     const distancePenalty = Math.min(1, 100 / distance);
 
-    return Math.min(0.9, baseAccuracy * distancePenalty + positioningBonus + strategyBonus);
+    return Math.max(0, Math.min(0.9,
+      baseAccuracy * distancePenalty + positioningBonus + strategyBonus + engagementBonus
+    ));
+  }
+
+  private getEngagementBonus(attacker: Agent, engagement: Engagement, distance: number): number {
+    switch (engagement) {
+      case 'aggressive':
+        return 0.05;
+      case 'hold':
+        return 0.05; // pre-aimed angles
+      case 'picks':
+        return attacker.role === 'AWPer' && distance > 80 ? 0.15 : 0;
+      case 'avoid':
+        return -0.1; // shooting while disengaging
+      default:
+        return 0;
+    }
   }
 
   private getStrategyBonus(attacker: Agent, strategy: string): number {
@@ -293,46 +739,71 @@ class CombatSystem {
     }
   }
 
+  // Headshots only hit armor when the target bought a helmet; armor soaks
+  // what the weapon fails to penetrate and loses half of it
   private calculateDamage(
-    weapon: string,
+    weapon: Weapon,
     distance: number,
     isHeadshot: boolean,
-    targetArmor: number
-  ): number {
-    const weaponType = this.getWeaponType(weapon);
-    const baseDamage = isHeadshot 
-      ? this.BASE_DAMAGE[weaponType].head 
-      : this.BASE_DAMAGE[weaponType].body;
-
-    const distanceMultiplier = Math.max(0.5, 1 - (distance / 200));
-    const armorMultiplier = targetArmor > 0 ? 0.75 : 1;
+    target: Agent
+  ): { damage: number; armorDamage: number } {
+    const falloff = Math.pow(weapon.rangeModifier, distance / RANGE_UNIT);
+    const rawDamage = weapon.damage * falloff * (isHeadshot ? HEADSHOT_MULTIPLIER : 1);
+
+    const isArmored = target.armor > 0 && (!isHeadshot || target.equipment.includes('helmet'));
+    if (!isArmored) {
+      return { damage: Math.floor(rawDamage), armorDamage: 0 };
+    }
 
-    return Math.floor(baseDamage * distanceMultiplier * armorMultiplier);
+    const absorbed = rawDamage * (1 - weapon.armorPenetration);
+    return {
+      damage: Math.floor(rawDamage - absorbed),
+      armorDamage: Math.floor(absorbed / 2)
+    };
   }
-  private findValidTargets(attacker: Agent, agents: Agent[]): Agent[] {
-    return agents.filter(target => 
-      target.team !== attacker.team &&
-      target.isAlive &&
-      this.hasLineOfSight(attacker.position, target.position)
-    );
+
+  // Spends a round; an empty magazine starts a reload instead of the next shot
+  private fireShot(agent: Agent, weapon: Weapon, now: number): void {
+    const state = this.getWeaponState(agent, weapon);
+    if (state.rounds === 0) {
+      state.rounds = weapon.magazineSize;
+      if (agent.status) agent.status.isReloading = false;
+    }
+    state.rounds--;
+
+    if (state.rounds === 0) {
+      state.nextShotAt = now + weapon.reloadTime;
+      agent.status = { ...agent.status, isReloading: true };
+    } else {
+      state.nextShotAt = now + 1000 / weapon.fireRate;
+    }
   }
 
-  private findUtilityTargets(
-    attacker: Agent,
-    targets: Agent[],
-    utility: string
-  ): Agent[] {
-    const radius = utility === 'flash' ? 100 : 50;
-    return targets.filter(target =>
-      target.team !== attacker.team &&
-      target.isAlive &&
-      this.calculateDistance(attacker.position, target.position) <= radius
-    );
+  private getWeaponState(agent: Agent, weapon: Weapon): WeaponState {
+    let state = this.weaponStates.get(agent.id);
+    if (!state || state.weapon !== weapon.id) {
+      state = { weapon: weapon.id, rounds: weapon.magazineSize, nextShotAt: 0 };
+      this.weaponStates.set(agent.id, state);
+    }
+    return state;
   }
 
   private hasLineOfSight(pos1: Position, pos2: Position): boolean {
-    // Simplified line of sight check - can be enhanced with map geometry
-    return true;
+    return !this.isBlockedBySmoke(pos1, pos2) && this.geometry.hasLineOfSight(pos1, pos2);
+  }
+
+  private isBlockedBySmoke(from: Position, to: Position): boolean {
+    return this.smokes.some(smoke => this.distanceToSegment(smoke.position, from, to) <= smoke.radius);
+  }
+
+  private distanceToSegment(point: Position, a: Position, b: Position): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+    return this.calculateDistance(point, { x: a.x + t * dx, y: a.y + t * dy });
   }
 
   private calculateDistance(pos1: Position, pos2: Position): number {
@@ -352,11 +823,11 @@ class CombatSystem {
     return Math.abs(angle) > (2 * Math.PI / 3);
   }
 
-  private checkTradeKill(attacker: Agent, victim: Agent): boolean {
+  private checkTradeKill(attacker: Agent, victim: Agent, now: number): boolean {
     const lastDeath = this.lastDeaths.get(attacker.id);
     if (!lastDeath) return false;
 
-    const timeSinceLastDeath = Date.now() - lastDeath.time;
+    const timeSinceLastDeath = now - lastDeath.time;
     return timeSinceLastDeath <= this.TRADE_KILL_TIME;
   }
 
@@ -380,23 +851,6 @@ class CombatSystem {
         return attacker.strategyStats.positioningScore > 0.7;
     }
   }
-
-  private getWeaponType(weapon: string): 'rifle' | 'smg' | 'pistol' | 'awp' {
-    if (weapon === 'awp') return 'awp';
-    if (['ak47', 'm4a4'].includes(weapon)) return 'rifle';
-    if (['mac10', 'mp9'].includes(weapon)) return 'smg';
-    return 'pistol';
-  }
-
-  private getPrimaryWeapon(agent: Agent): string | null {
-    return agent.weapons[0] || null;
-  }
-
-  private processFlashEffect(attacker: Agent, target: Agent): void {
-    // Update flash assist stats
-    attacker.matchStats.flashAssists++;
-    target.strategyStats.positioningScore *= 0.8; // Temporary penalty for being flashed
-  }
 }
 
 export default CombatSystem;
\ No newline at end of file
@@ -0,0 +1,144 @@
+// EconomySystem.ts
+import SeededRandom from '../SeededRandom';
+import { isWeapon, getWeapon } from '../weapons';
+import { getRules } from '../rules';
+import type { Agent, GameState, MatchRules, RoundEndCause, Side, TeamRoundEconomy, WeaponType } from '@/types/game';
+
+// Competitive economy: every agent has their own wallet, capped at the rules' maxMoney
+class EconomySystem {
+  private readonly LOSS_BONUS_MIN = 1400;
+  private readonly LOSS_BONUS_MAX = 3400;
+  private readonly LOSS_BONUS_STEP = 500;
+  private readonly ROUND_WIN_REWARDS: Record<RoundEndCause, number> = {
+    elimination: 3250,
+    bomb_detonated: 3500,
+    bomb_defused: 3500,
+    time: 3250
+  };
+  private readonly KILL_REWARDS: Record<WeaponType, number> = {
+    pistol: 300,
+    smg: 600,
+    rifle: 300,
+    sniper: 100,
+    heavy: 900
+  };
+  private readonly UTILITY_KILL_REWARD = 300;
+  private readonly OBJECTIVE_REWARD = 300; // the planter or defuser
+  private readonly PLANT_LOSS_BONUS = 800; // every T when the bomb went down but the round was lost
+  private readonly TEAM_KILL_PENALTY = 300;
+
+  private random: SeededRandom = new SeededRandom();
+  private rules: MatchRules = getRules();
+  // Wallet totals at the start of the round, for the post-round report
+  private roundStart: Record<string, { spent: number; earned: number }> = {};
+
+  public initialize(gameState: any, random: SeededRandom): void {
+    this.random = random;
+    this.rules = gameState.match.rules;
+    console.log('EconomySystem initialized');
+  }
+
+  // Call at the start of every freezetime, before anyone buys
+  beginRound(state: GameState): void {
+    this.roundStart = {};
+    [...state.teams.t.agents, ...state.teams.ct.agents].forEach(agent => {
+      this.roundStart[agent.id] = { spent: agent.economy.spent, earned: agent.economy.earned };
+    });
+  }
+
+  // Every half starts over: pistol-round money (or the overtime amount) and the lowest loss bonus
+  resetHalf(state: GameState, money: number = this.rules.startMoney): void {
+    (['t', 'ct'] as const).forEach(side => {
+      const team = state.teams[side];
+      team.lossBonus = this.LOSS_BONUS_MIN;
+      team.agents.forEach(agent => {
+        agent.economy.current = money;
+      });
+    });
+    this.syncTeamMoney(state);
+  }
+
+  earn(agent: Agent, amount: number): void {
+    const earned = Math.max(0, Math.min(amount, this.rules.maxMoney - agent.economy.current));
+    agent.economy.current += earned;
+    agent.economy.earned += earned;
+  }
+
+  spend(agent: Agent, amount: number): void {
+    if (amount > agent.economy.current) {
+      throw new Error(`Not enough money: ${amount} needed, ${agent.economy.current} available`);
+    }
+    agent.economy.current -= amount;
+    agent.economy.spent += amount;
+  }
+
+  // Grenade kills pay the flat utility reward; guns pay by weapon class
+  rewardKill(agent: Agent, weapon?: string): void {
+    const reward = weapon && isWeapon(weapon)
+      ? this.KILL_REWARDS[getWeapon(weapon).type]
+      : this.UTILITY_KILL_REWARD;
+    this.earn(agent, reward);
+  }
+
+  // With friendly fire on, killing a teammate (or yourself) costs money instead of paying
+  penalizeTeamKill(agent: Agent): void {
+    agent.economy.current = Math.max(0, agent.economy.current - this.TEAM_KILL_PENALTY);
+  }
+
+  rewardObjective(agent: Agent): void {
+    this.earn(agent, this.OBJECTIVE_REWARD);
+  }
+
+  // Pays both teams and moves their loss-bonus ladders; call once per round
+  settleRound(state: GameState, winner: Side, cause: RoundEndCause): void {
+    const loser: Side = winner === 't' ? 'ct' : 't';
+    const winningTeam = state.teams[winner];
+    const losingTeam = state.teams[loser];
+
+    winningTeam.agents.forEach(agent => this.earn(agent, this.ROUND_WIN_REWARDS[cause]));
+
+    const plantBonus = loser === 't' && state.round.bombPlanted ? this.PLANT_LOSS_BONUS : 0;
+    losingTeam.agents.forEach(agent => {
+      // Ts who run down the clock without planting get nothing
+      if (loser === 't' && cause === 'time' && agent.isAlive) return;
+      this.earn(agent, losingTeam.lossBonus + plantBonus);
+    });
+
+    losingTeam.lossBonus = Math.min(losingTeam.lossBonus + this.LOSS_BONUS_STEP, this.LOSS_BONUS_MAX);
+    winningTeam.lossBonus = Math.max(winningTeam.lossBonus - this.LOSS_BONUS_STEP, this.LOSS_BONUS_MIN);
+
+    this.syncTeamMoney(state);
+    state.round.economyReport = {
+      round: state.match.currentRound,
+      teams: {
+        t: this.summarizeRound(state, 't'),
+        ct: this.summarizeRound(state, 'ct')
+      },
+      drops: [...state.round.drops]
+    };
+  }
+
+  private summarizeRound(state: GameState, side: Side): TeamRoundEconomy {
+    const team = state.teams[side];
+    const delta = (agent: Agent, key: 'spent' | 'earned') =>
+      agent.economy[key] - (this.roundStart[agent.id]?.[key] ?? 0);
+
+    return {
+      buyType: team.economy?.buyType ?? null,
+      spent: team.agents.reduce((sum, agent) => sum + delta(agent, 'spent'), 0),
+      earned: team.agents.reduce((sum, agent) => sum + delta(agent, 'earned'), 0),
+      money: team.money,
+      lossBonus: team.lossBonus
+    };
+  }
+
+  // Team money is only ever a sum for display and buy decisions
+  syncTeamMoney(state: GameState): void {
+    (['t', 'ct'] as const).forEach(side => {
+      const team = state.teams[side];
+      team.money = team.agents.reduce((sum, agent) => sum + agent.economy.current, 0);
+    });
+  }
+}
+
+export default EconomySystem;
@@ -0,0 +1,97 @@
+// InventorySystem.ts
+import SeededRandom from '../SeededRandom';
+import { getPrimaryWeapon, getWeapon, isWeapon, DEFAULT_PISTOLS } from '../weapons';
+import type { Agent, GameState, Position } from '@/types/game';
+
+// CS-style persistence: survivors keep their weapons, armor and unused utility
+// into the next round, the dead lose everything and drop their best gun
+class InventorySystem {
+  private readonly PICKUP_RANGE = 8;
+
+  private random: SeededRandom = new SeededRandom();
+
+  public initialize(gameState: any, random: SeededRandom): void {
+    this.random = random;
+    console.log('InventorySystem initialized');
+  }
+
+  // Runs before agents respawn: whoever died last round starts over with a pistol
+  resetRound(agents: Agent[]): void {
+    agents.forEach(agent => {
+      if (agent.isAlive) return;
+      agent.weapons = [DEFAULT_PISTOLS[agent.team]];
+      agent.equipment = [];
+      agent.armor = 0;
+    });
+  }
+
+  // At halftime everyone starts over with their new side's pistol
+  resetHalf(agents: Agent[]): void {
+    agents.forEach(agent => {
+      agent.weapons = [DEFAULT_PISTOLS[agent.team]];
+      agent.equipment = [];
+      agent.armor = 0;
+    });
+  }
+
+  update(state: GameState, now: number): void {
+    const agents = [...state.teams.t.agents, ...state.teams.ct.agents];
+
+    agents
+      .filter(agent => !agent.isAlive && (agent.weapons.length > 0 || agent.equipment.length > 0))
+      .forEach(agent => this.dropInventory(agent, state, now));
+
+    const { phase } = state.round;
+    if (phase === 'live' || phase === 'planted') {
+      agents.filter(agent => agent.isAlive).forEach(agent => this.tryPickup(agent, state, now));
+    }
+  }
+
+  private dropInventory(agent: Agent, state: GameState, now: number): void {
+    const weapon = getPrimaryWeapon(agent.weapons);
+    if (weapon) {
+      this.drop(weapon.id, agent, agent.position, state, now);
+    }
+    agent.weapons = [];
+    agent.equipment = [];
+    agent.armor = 0;
+  }
+
+  // Agents only stop for a gun that beats the one it would replace, and leave
+  // the replaced gun where they stood
+  private tryPickup(agent: Agent, state: GameState, now: number): void {
+    const ground = state.round.groundWeapons.find(item => {
+      if (this.calculateDistance(agent.position, item.position) > this.PICKUP_RANGE) return false;
+      const weapon = getWeapon(item.weapon);
+      const current = getPrimaryWeapon(agent.weapons);
+      if (weapon.type === 'pistol' && current && current.type !== 'pistol') return false;
+      return !current || weapon.cost > current.cost;
+    });
+    if (!ground) return;
+
+    const isPistol = getWeapon(ground.weapon).type === 'pistol';
+    const replaced = agent.weapons.filter(id => isWeapon(id) && (getWeapon(id).type === 'pistol') === isPistol);
+
+    state.round.groundWeapons = state.round.groundWeapons.filter(item => item !== ground);
+    replaced.forEach(id => this.drop(id, agent, agent.position, state, now));
+    agent.weapons = [...agent.weapons.filter(id => !replaced.includes(id)), ground.weapon];
+  }
+
+  private drop(weapon: string, agent: Agent, position: Position, state: GameState, now: number): void {
+    state.round.groundWeapons.push({
+      id: `ground-${this.random.id()}`,
+      weapon,
+      position: { x: position.x, y: position.y },
+      droppedBy: agent.id,
+      droppedAt: now
+    });
+  }
+
+  private calculateDistance(pos1: Position, pos2: Position): number {
+    const dx = pos2.x - pos1.x;
+    const dy = pos2.y - pos1.y;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+}
+
+export default InventorySystem;
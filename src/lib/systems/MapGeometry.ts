@@ -0,0 +1,78 @@
+// MapGeometry.ts
+import { getMap } from '../maps';
+import type { MapDefinition, MapObstacle } from '../maps';
+import type { Position } from '@/types/game';
+
+type ObstacleType = MapObstacle['type'];
+type Obstacle = MapObstacle;
+
+class MapGeometry {
+  private obstacles: Obstacle[] = [];
+
+  constructor(map: MapDefinition = getMap()) {
+    this.loadMap(map);
+  }
+
+  loadMap(map: MapDefinition): void {
+    this.obstacles = map.obstacles;
+  }
+
+  hasLineOfSight(from: Position, to: Position): boolean {
+    return !this.obstacles.some(obstacle => this.rayHitsObstacle(from, to, obstacle));
+  }
+
+  getBlockingObstacle(from: Position, to: Position): Obstacle | null {
+    return this.obstacles.find(obstacle => this.rayHitsObstacle(from, to, obstacle)) || null;
+  }
+
+  isInsideObstacle(position: Position): boolean {
+    return this.obstacles.some(obstacle => this.isPointInPolygon(position, obstacle.points));
+  }
+
+  getObstacles(): Obstacle[] {
+    return this.obstacles;
+  }
+
+  private rayHitsObstacle(from: Position, to: Position, obstacle: Obstacle): boolean {
+    const { points } = obstacle;
+
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      if (this.segmentsIntersect(from, to, a, b)) return true;
+    }
+
+    // A ray fully contained in an obstacle crosses no edge but is still blocked
+    return this.isPointInPolygon(from, points) && this.isPointInPolygon(to, points);
+  }
+
+  private segmentsIntersect(p1: Position, p2: Position, p3: Position, p4: Position): boolean {
+    const d1 = this.cross(p3, p4, p1);
+    const d2 = this.cross(p3, p4, p2);
+    const d3 = this.cross(p1, p2, p3);
+    const d4 = this.cross(p1, p2, p4);
+
+    // Proper crossings only: grazing a corner or running along an edge keeps sight
+    return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) &&
+      ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+  }
+
+  private cross(a: Position, b: Position, c: Position): number {
+    return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  }
+
+  private isPointInPolygon(point: Position, polygon: Position[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      const crosses = (a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+      if (crosses) inside = !inside;
+    }
+    return inside;
+  }
+}
+
+export type { Obstacle, ObstacleType };
+export default MapGeometry;
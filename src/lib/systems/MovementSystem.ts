@@ -1,42 +1,35 @@
 // MovementSystem.ts
-import Dust2TacticsSystem from './Dust2TacticsSystem';
+import TacticsSystem from './TacticsSystem';
+import NavigationGraph from './NavigationGraph';
+import SeededRandom from '../SeededRandom';
+import type { Agent, BombState, MidRoundCall, Position, UtilityEntity } from '@/types/game';
 
-interface Position {
-  x: number;
-  y: number;
-}
-
-interface Agent {
-  id: string;
-  team: 't' | 'ct';
-  role: string;
-  position: Position;
-  isAlive: boolean;
-  strategyStats?: {
-    positioningScore: number;
-    strategyAdherence: number;
-  };
-}
 
 interface MovementPath {
   points: Position[];
   currentIndex: number;
+  target: Position;
 }
 
 class MovementSystem {
-  private tactics: Dust2TacticsSystem;
+  private tactics: TacticsSystem;
+  private navigation: NavigationGraph;
   private agentPaths: Map<string, MovementPath>;
-  private readonly MOVEMENT_SPEED = 2;
+  private readonly MOVEMENT_SPEED = 15; // map units per second
   private readonly CLOSE_DISTANCE = 5;
+  private random: SeededRandom = new SeededRandom();
 
   constructor() {
-    this.tactics = new Dust2TacticsSystem();
+    this.tactics = new TacticsSystem();
+    this.navigation = new NavigationGraph();
     this.agentPaths = new Map();
   }
 
-  public initialize(gameState: any): void {
+  public initialize(gameState: any, random: SeededRandom): void {
+    this.random = random;
     this.agentPaths.clear();
-    this.tactics.initialize(gameState);
+    this.tactics.initialize(gameState, random);
+    this.navigation.loadMap(this.tactics.getMap());
   }
 
   updatePositions(
@@ -44,99 +37,134 @@ class MovementSystem {
     phase: string,
     deltaTime: number,
     strategy: string,
-    currentCall: string | null
+    currentCall: MidRoundCall | null,
+    utility: UtilityEntity[] = [],
+    bomb: BombState | null = null
   ): void {
+    const callSetup = currentCall ? this.tactics.getMidRoundCall(currentCall.call) : null;
+    const speed = this.MOVEMENT_SPEED * (callSetup?.speed ?? 1);
+    const caller = agents.find(agent => agent.id === currentCall?.issuedBy && agent.isAlive);
+    const fires = utility.filter(entity => entity.type === 'molotov');
+    // Holding and saving calls keep agents off the bomb
+    const playsObjective = callSetup?.engagement !== 'hold' && callSetup?.engagement !== 'avoid';
+    const bombObjective = bomb && playsObjective ? this.findBombObjective(agents, phase, bomb) : null;
+
     agents.forEach(agent => {
       if (!agent.isAlive) return;
+      // Planting or defusing agents stay put until they finish or are interrupted
+      if (bomb?.action?.agentId === agent.id) return;
 
       let targetPosition: Position;
 
       // Get target position based on current situation
       if (currentCall) {
-        targetPosition = this.getCallBasedPosition(agent, currentCall);
+        targetPosition = this.tactics.getPositionForCall(agent, currentCall.call, caller?.position);
       } else {
         targetPosition = this.tactics.getPositionForAgent(agent, phase, strategy);
       }
 
-      // Create or update path
-      if (!this.agentPaths.has(agent.id)) {
+      // The carrier's route ends on the nearest site
+      if (bombObjective?.agentId === agent.id) {
+        targetPosition = bombObjective.position ?? this.tactics.getNearestSite(targetPosition);
+      }
+
+      // Create or update path when the target changes (phase, strategy or call)
+      const currentPath = this.agentPaths.get(agent.id);
+      if (!currentPath || !this.isSamePosition(currentPath.target, targetPosition)) {
         this.createPath(agent, targetPosition);
       }
 
       // Move agent along path
-      this.moveAlongPath(agent, deltaTime);
+      this.moveAlongPath(agent, deltaTime, speed, fires);
 
       // Update strategy stats
       this.updatePositioningStats(agent, targetPosition);
     });
   }
 
+  // Who moves for the bomb: the carrier while live (position null: to a site),
+  // the closest T to a dropped bomb, or the closest CT to a planted one
+  private findBombObjective(
+    agents: Agent[],
+    phase: string,
+    bomb: BombState
+  ): { agentId: string; position: Position | null } | null {
+    const alive = agents.filter(agent => agent.isAlive);
+    if (phase === 'live') {
+      const carrier = alive.find(agent => agent.id === bomb.carrierId);
+      if (carrier) return { agentId: carrier.id, position: null };
+    }
+
+    const side = phase === 'live' ? 't' : phase === 'planted' ? 'ct' : null;
+    const position = bomb.position;
+    if (!side || !position) return null;
+
+    const runner = alive
+      .filter(agent => agent.team === side)
+      .reduce<Agent | null>((closest, agent) => (
+        !closest || this.calculateDistance(agent.position, position) < this.calculateDistance(closest.position, position)
+          ? agent
+          : closest
+      ), null);
+    return runner ? { agentId: runner.id, position: { ...position } } : null;
+  }
+
   private createPath(agent: Agent, targetPosition: Position): void {
     const path = this.calculatePath(agent.position, targetPosition);
     this.agentPaths.set(agent.id, {
       points: path,
-      currentIndex: 0
+      currentIndex: 0,
+      target: { ...targetPosition }
     });
   }
 
   private calculatePath(start: Position, end: Position): Position[] {
-    // Basic path calculation - can be enhanced with pathfinding
-    const path: Position[] = [];
-    const steps = 10; // Number of intermediate points
-
-    for (let i = 0; i <= steps; i++) {
-      path.push({
-        x: start.x + (end.x - start.x) * (i / steps),
-        y: start.y + (end.y - start.y) * (i / steps)
-      });
-    }
-
-    return path;
+    // A* over the map's navigation graph so agents never walk through walls
+    return this.navigation.findPath(start, end);
   }
 
-  private moveAlongPath(agent: Agent, deltaTime: number): void {
+  // Agents wait at the edge of a burning molotov rather than walk into it
+  private moveAlongPath(agent: Agent, deltaTime: number, speed: number, fires: UtilityEntity[]): void {
     const path = this.agentPaths.get(agent.id);
     if (!path) return;
+    const start = { ...agent.position };
+    const startIndex = path.currentIndex;
+
+    let remaining = speed * (deltaTime / 1000);
 
-    const targetPoint = path.points[path.currentIndex];
-    const distance = this.calculateDistance(agent.position, targetPoint);
+    while (remaining > 0 && path.currentIndex < path.points.length) {
+      const targetPoint = path.points[path.currentIndex];
+      const distance = this.calculateDistance(agent.position, targetPoint);
 
-    if (distance <= this.CLOSE_DISTANCE) {
-      // Move to next point in path
-      if (path.currentIndex < path.points.length - 1) {
+      // Snap onto the waypoint instead of overshooting it
+      if (distance <= remaining) {
+        agent.position = { ...targetPoint };
+        remaining -= distance;
+        if (path.currentIndex === path.points.length - 1) return;
         path.currentIndex++;
-        return;
+        continue;
       }
+
+      const direction = this.getNormalizedDirection(agent.position, targetPoint);
+      agent.position = {
+        x: agent.position.x + direction.x * remaining,
+        y: agent.position.y + direction.y * remaining
+      };
+      remaining = 0;
     }
 
-    // Move towards current target point
-    const direction = this.getNormalizedDirection(agent.position, targetPoint);
-    const movement = this.MOVEMENT_SPEED * deltaTime;
+    if (!this.isInFire(start, fires) && this.isInFire(agent.position, fires)) {
+      agent.position = start;
+      path.currentIndex = startIndex;
+    }
+  }
 
-    agent.position = {
-      x: agent.position.x + direction.x * movement,
-      y: agent.position.y + direction.y * movement
-    };
+  private isInFire(position: Position, fires: UtilityEntity[]): boolean {
+    return fires.some(fire => this.calculateDistance(position, fire.position) <= fire.radius);
   }
 
-  private getCallBasedPosition(agent: Agent, call: string): Position {
-    // Get positions based on mid-round calls
-    switch (call) {
-      case 'rotate_a':
-        return this.tactics.getPositionForRotate(agent, 'A');
-      case 'rotate_b':
-        return this.tactics.getPositionForRotate(agent, 'B');
-      case 'execute_a':
-        return this.tactics.getPositionForExecute(agent, 'A');
-      case 'execute_b':
-        return this.tactics.getPositionForExecute(agent, 'B');
-      case 'fall_back':
-        return this.tactics.getPositionForFallback(agent);
-      case 'hold_positions':
-        return agent.position; // Stay in current position
-      default:
-        return this.tactics.getDefaultPosition(agent);
-    }
+  private isSamePosition(a: Position, b: Position): boolean {
+    return this.calculateDistance(a, b) <= this.CLOSE_DISTANCE;
   }
 
   private updatePositioningStats(agent: Agent, targetPosition: Position): void {
@@ -175,26 +203,6 @@ class MovementSystem {
     };
   }
 
-  private shouldHoldPosition(agent: Agent, strategy: string): boolean {
-    return (
-      strategy === 'default' ||
-      (agent.role === 'AWPer' && strategy === 'hold_positions')
-    );
-  }
-
-  private getStrategicMoveSpeed(agent: Agent, strategy: string): number {
-    switch (strategy) {
-      case 'rush_b':
-        return this.MOVEMENT_SPEED * 1.5;
-      case 'eco_rush':
-        return this.MOVEMENT_SPEED * 1.3;
-      case 'default':
-        return this.MOVEMENT_SPEED;
-      default:
-        return this.MOVEMENT_SPEED;
-    }
-  }
-
   // Reset path for an agent (useful when strategy changes)
   resetPath(agentId: string): void {
     this.agentPaths.delete(agentId);
@@ -0,0 +1,160 @@
+// NavigationGraph.ts
+import MapGeometry from './MapGeometry';
+import { getMap } from '../maps';
+import type { MapDefinition } from '../maps';
+import type { Position } from '@/types/game';
+
+interface NavNode {
+  id: string;
+  position: Position;
+  neighbors: string[];
+}
+
+class NavigationGraph {
+  private nodes: Map<string, NavNode> = new Map();
+  private geometry: MapGeometry;
+
+  constructor(map: MapDefinition = getMap(), geometry: MapGeometry = new MapGeometry(map)) {
+    this.geometry = geometry;
+    this.loadMap(map);
+  }
+
+  // Every callout is a node; connections should be straight walks that do not
+  // cross any of the map's obstacles
+  loadMap(map: MapDefinition): void {
+    this.geometry.loadMap(map);
+    this.nodes.clear();
+    Object.entries(map.callouts).forEach(([id, callout]) => {
+      this.nodes.set(id, { id, position: callout.position, neighbors: [] });
+    });
+
+    map.connections.forEach(([from, to]) => this.connect(from, to));
+  }
+
+  private connect(from: string, to: string): void {
+    const a = this.nodes.get(from);
+    const b = this.nodes.get(to);
+    if (!a || !b) {
+      console.warn(`NavigationGraph: unknown node in connection ${from} -> ${to}`);
+      return;
+    }
+    if (!this.geometry.hasLineOfSight(a.position, b.position)) {
+      console.warn(`NavigationGraph: connection ${from} -> ${to} crosses an obstacle`);
+    }
+    a.neighbors.push(to);
+    b.neighbors.push(from);
+  }
+
+  // Returns walkable waypoints from start to end (both included)
+  findPath(start: Position, end: Position): Position[] {
+    const startNode = this.getNearestNode(start);
+    const endNode = this.getNearestNode(end);
+
+    if (!startNode || !endNode || startNode.id === endNode.id) {
+      return [start, end];
+    }
+
+    const route = this.findRoute(startNode.id, endNode.id);
+    if (!route) return [start, end];
+
+    const points = route.map(id => this.nodes.get(id)!.position);
+    return this.dedupe([start, ...points, end]);
+  }
+
+  // A* over node ids; returns null when the nodes are not connected
+  findRoute(fromId: string, toId: string): string[] | null {
+    const goal = this.nodes.get(toId);
+    if (!this.nodes.has(fromId) || !goal) return null;
+
+    const open = new Set<string>([fromId]);
+    const cameFrom = new Map<string, string>();
+    const gScore = new Map<string, number>([[fromId, 0]]);
+    const fScore = new Map<string, number>([
+      [fromId, this.distance(this.nodes.get(fromId)!.position, goal.position)]
+    ]);
+
+    while (open.size > 0) {
+      let current = '';
+      let bestScore = Infinity;
+      open.forEach(id => {
+        const score = fScore.get(id) ?? Infinity;
+        if (score < bestScore) {
+          bestScore = score;
+          current = id;
+        }
+      });
+
+      if (current === toId) {
+        return this.reconstructRoute(cameFrom, current);
+      }
+
+      open.delete(current);
+      const currentNode = this.nodes.get(current)!;
+
+      currentNode.neighbors.forEach(neighborId => {
+        const neighbor = this.nodes.get(neighborId)!;
+        const tentative = (gScore.get(current) ?? Infinity) +
+          this.distance(currentNode.position, neighbor.position);
+
+        if (tentative < (gScore.get(neighborId) ?? Infinity)) {
+          cameFrom.set(neighborId, current);
+          gScore.set(neighborId, tentative);
+          fScore.set(neighborId, tentative + this.distance(neighbor.position, goal.position));
+          open.add(neighborId);
+        }
+      });
+    }
+
+    return null;
+  }
+
+  getNodePosition(id: string): Position | null {
+    return this.nodes.get(id)?.position || null;
+  }
+
+  // Nearest node the position can walk to directly, falling back to the
+  // nearest node overall if every node is behind a wall
+  private getNearestNode(position: Position): NavNode | null {
+    let nearest: NavNode | null = null;
+    let nearestVisible: NavNode | null = null;
+    let nearestDistance = Infinity;
+    let nearestVisibleDistance = Infinity;
+
+    for (const node of Array.from(this.nodes.values())) {
+      const distance = this.distance(position, node.position);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = node;
+      }
+      if (distance < nearestVisibleDistance && this.geometry.hasLineOfSight(position, node.position)) {
+        nearestVisibleDistance = distance;
+        nearestVisible = node;
+      }
+    }
+
+    return nearestVisible || nearest;
+  }
+
+  private reconstructRoute(cameFrom: Map<string, string>, current: string): string[] {
+    const route = [current];
+    while (cameFrom.has(current)) {
+      current = cameFrom.get(current)!;
+      route.unshift(current);
+    }
+    return route;
+  }
+
+  private dedupe(points: Position[]): Position[] {
+    return points.filter((point, index) =>
+      index === 0 || this.distance(point, points[index - 1]) > 0.01
+    );
+  }
+
+  private distance(a: Position, b: Position): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+}
+
+export default NavigationGraph;
@@ -1,171 +1,201 @@
 // RoundSystem.ts
-interface RoundState {
-  phase: 'warmup' | 'freezetime' | 'live' | 'planted' | 'ended';
-  timeLeft: number;
-  bombPlanted: boolean;
-  bombSite: 'A' | 'B' | null;
-  plantTime: number | null;
-  winner: 't' | 'ct' | null;
-  endReason: string | null;
-  currentStrategy: {
-    t: string;
-    ct: string;
+import SeededRandom from '../SeededRandom';
+import { getRules } from '../rules';
+import type { CombatResult, GameState, MatchRules, OvertimeConfig, RoundEndCause, Side } from '@/types/game';
+
+// Sides swap after this round
+export function getHalftimeRound(maxRounds: number): number {
+  return Math.floor(maxRounds / 2);
+}
+
+// The first round of each regulation half, played with starting money
+export function isPistolRound(round: number, maxRounds: number): boolean {
+  return round === 1 || round === getHalftimeRound(maxRounds) + 1;
+}
+
+// Which overtime a round belongs to (0 in regulation) and its number within it
+export function getOvertimeRound(round: number, maxRounds: number, overtime: OvertimeConfig): {
+  overtime: number;
+  round: number;
+} {
+  if (round <= maxRounds) return { overtime: 0, round };
+  const played = round - maxRounds - 1;
+  return {
+    overtime: Math.floor(played / overtime.rounds) + 1,
+    round: (played % overtime.rounds) + 1
   };
-  activeCall: string | null;
 }
 
-interface StrategyOutcome {
+// A team has won once its score passes this; it grows by half an overtime per overtime
+export function getWinThreshold(round: number, maxRounds: number, overtime: OvertimeConfig): number {
+  const period = getOvertimeRound(round, maxRounds, overtime).overtime;
+  return (maxRounds + period * overtime.rounds) / 2;
+}
+
+// The last round of regulation or of the current overtime
+export function isLastRoundOfPeriod(round: number, maxRounds: number, overtime: OvertimeConfig): boolean {
+  const current = getOvertimeRound(round, maxRounds, overtime);
+  return current.overtime === 0 ? round === maxRounds : current.round === overtime.rounds;
+}
+
+// Sides swap after this round: regulation halftime and halfway through every overtime
+export function isSideSwapRound(round: number, maxRounds: number, overtime: OvertimeConfig): boolean {
+  const current = getOvertimeRound(round, maxRounds, overtime);
+  return current.overtime === 0
+    ? round === getHalftimeRound(maxRounds)
+    : current.round === overtime.rounds / 2;
+}
+
+export function formatRoundLabel(round: number, maxRounds: number, overtime: OvertimeConfig): string {
+  const current = getOvertimeRound(round, maxRounds, overtime);
+  return current.overtime === 0
+    ? `Round ${round}`
+    : `Overtime ${current.overtime} · Round ${current.round}`;
+}
+
+// How one side's strategy played out in a finished round
+export interface StrategyOutcome {
   strategy: string;
   success: boolean;
-  kills: number;
-  objectives: boolean;
-  roundTime: number;
+  kills: number; // enemies killed; team kills do not count
+  objectives: boolean; // planted as T, defused as CT
+  roundTime: number; // seconds from going live to the end of the round
 }
 
-class RoundSystem {
-  private readonly ROUND_TIME = 115;
-  private readonly FREEZE_TIME = 15;
-  private readonly WARMUP_TIME = 5;
-  private readonly BOMB_TIMER = 40;
-  private readonly POST_ROUND_TIME = 7;
-
-  private roundHistory: {
-    winner: 't' | 'ct';
-    strategies: {
-      t: StrategyOutcome;
-      ct: StrategyOutcome;
-    };
-    endReason: string;
-  }[] = [];
+export interface RoundOutcome {
+  round: number;
+  winner: Side;
+  cause: RoundEndCause;
+  endReason: string;
+  strategies: Record<Side, StrategyOutcome>;
+}
+
+// A side's record with one strategy over the match so far
+export interface StrategyRecord {
+  totalRounds: number;
+  wins: number;
+  avgKills: number;
+  avgTime: number;
+  objectiveSuccess: number;
+}
 
-  private currentState: RoundState | null = null;
+// Owns the round lifecycle: phase clock, transitions, scoring and the history
+// of how each strategy did. GameController layers buys, economy and sides on top
+class RoundSystem {
+  private rules: MatchRules = getRules();
+  private roundHistory: RoundOutcome[] = [];
+  private roundKills: Record<Side, number> = { t: 0, ct: 0 };
+  private liveAt: number | null = null;
+  private random: SeededRandom = new SeededRandom();
 
-  constructor() {
+  public initialize(gameState: any, random: SeededRandom): void {
+    this.random = random;
+    this.rules = gameState.match.rules;
     this.resetHistory();
+    gameState.round.phase = 'warmup';
+    gameState.round.timeLeft = this.rules.warmupTime;
+    console.log('RoundSystem initialized');
   }
 
-  public initialize(gameState: any): void {
-    this.currentState = this.initializeRound();
-    console.log('RoundSystem initialized');
+  // Runs the phase clock in match time; true on the tick it runs out
+  updateTimer(state: GameState, deltaTime: number): boolean {
+    const { round } = state;
+    if (round.timeLeft <= 0) return false;
+    round.timeLeft -= deltaTime / 1000;
+    return round.timeLeft <= 0;
   }
 
-  initializeRound(): RoundState {
-    return {
-      phase: 'warmup',
-      timeLeft: this.WARMUP_TIME,
-      bombPlanted: false,
-      bombSite: null,
-      plantTime: null,
-      winner: null,
-      endReason: null,
-      currentStrategy: {
-        t: 'default',
-        ct: 'default'
-      },
-      activeCall: null
-    };
+  endWarmup(state: GameState): void {
+    state.round.phase = 'freezetime';
+    state.round.timeLeft = this.rules.freezeTime;
   }
 
-  updateTimer(state: RoundState): RoundState {
-    if (state.timeLeft <= 0) {
-      switch (state.phase) {
-        case 'warmup':
-          return {
-            ...state,
-            phase: 'freezetime',
-            timeLeft: this.FREEZE_TIME
-          };
-        case 'freezetime':
-          return {
-            ...state,
-            phase: 'live',
-            timeLeft: this.ROUND_TIME
-          };
-        case 'live':
-          if (!state.bombPlanted) {
-            return this.endRound(state, 'ct', 'Time ran out');
-          }
-          return state;
-        case 'planted':
-          return this.endRound(state, 't', 'Bomb detonated');
-        case 'ended':
-          return state;
-        default:
-          return state;
-      }
-    }
+  goLive(state: GameState, now: number): void {
+    state.round.phase = 'live';
+    state.round.timeLeft = this.rules.roundTime;
+    this.liveAt = now;
+  }
 
-    if (state.bombPlanted && state.plantTime) {
-      const bombTimeLeft = this.BOMB_TIMER - ((Date.now() - state.plantTime) / 1000);
-      if (bombTimeLeft <= 0) {
-        return this.endRound(state, 't', 'Bomb detonated');
-      }
-    }
+  // BombSystem has already placed the bomb; the round switches to its timer
+  plantBomb(state: GameState): void {
+    if (state.round.phase !== 'live') return;
+    state.round.phase = 'planted';
+    state.round.timeLeft = this.rules.bombTimer;
+  }
 
-    return {
-      ...state,
-      timeLeft: Math.max(0, state.timeLeft - 1)
-    };
+  registerKill(result: CombatResult): void {
+    if (result.type !== 'kill' || !result.victim || result.victim.team === result.attacker.team) return;
+    this.roundKills[result.attacker.team]++;
   }
 
-  plantBomb(state: RoundState, site: 'A' | 'B'): RoundState {
-    if (state.phase !== 'live' || state.bombPlanted) return state;
+  // Scores the round and records both strategies; the post-round break starts here
+  endRound(state: GameState, winner: Side, cause: RoundEndCause, reason: string, now: number): RoundOutcome {
+    const { round, match } = state;
+    const roundTime = this.liveAt !== null ? (now - this.liveAt) / 1000 : 0;
+    const outcomeFor = (side: Side): StrategyOutcome => ({
+      strategy: round.currentStrategy[side],
+      success: winner === side,
+      kills: 0,
+      objectives: side === 't' ? round.bombPlanted : cause === 'bomb_defused',
+      roundTime
+    });
 
-    return {
-      ...state,
-      phase: 'planted',
-      bombPlanted: true,
-      bombSite: site,
-      plantTime: Date.now(),
-      timeLeft: this.BOMB_TIMER
+    round.phase = 'ended';
+    round.timeLeft = this.rules.roundEndTime;
+    round.winner = winner;
+    round.endReason = reason;
+    match.score[winner]++;
+    state.teams[winner].roundWins++;
+
+    const outcome: RoundOutcome = {
+      round: match.currentRound,
+      winner,
+      cause,
+      endReason: reason,
+      strategies: { t: outcomeFor('t'), ct: outcomeFor('ct') }
     };
+    this.roundHistory.push(outcome);
+    this.evaluateStrategySuccess(this.roundKills.t, this.roundKills.ct);
+    this.updateTeamStats(state, outcome);
+    return outcome;
   }
 
-  defuseBomb(state: RoundState): RoundState {
-    if (!state.bombPlanted) return state;
-    return this.endRound(state, 'ct', 'Bomb defused');
+  // Sides swap during a longer break than a normal round end
+  startHalftime(state: GameState): void {
+    state.round.timeLeft = this.rules.halftimeTime;
   }
 
-  endRound(state: RoundState, winner: 't' | 'ct', reason: string): RoundState {
-    // Record strategy outcomes
-    const tStrategy = state.currentStrategy.t;
-    const ctStrategy = state.currentStrategy.ct;
-
-    this.roundHistory.push({
-      winner,
-      strategies: {
-        t: {
-          strategy: tStrategy,
-          success: winner === 't',
-          kills: 0,
-          objectives: state.bombPlanted,
-          roundTime: this.ROUND_TIME - state.timeLeft
-        },
-        ct: {
-          strategy: ctStrategy,
-          success: winner === 'ct',
-          kills: 0,
-          objectives: winner === 'ct' && state.bombPlanted,
-          roundTime: this.ROUND_TIME - state.timeLeft
-        }
+  // A clean round in freezetime; momentum and each team's strategy carry over
+  startRound(state: GameState): void {
+    state.round = {
+      phase: 'freezetime',
+      timeLeft: this.rules.freezeTime,
+      bombPlanted: false,
+      bombSite: null,
+      plantTime: null,
+      winner: null,
+      endReason: null,
+      currentStrategy: {
+        t: state.teams.t.strategy,
+        ct: state.teams.ct.strategy
       },
-      endReason: reason
-    });
-
-    return {
-      ...state,
-      phase: 'ended',
-      timeLeft: this.POST_ROUND_TIME,
-      winner,
-      endReason: reason
+      activeCalls: { t: null, ct: null },
+      callHistory: [],
+      duels: [],
+      utility: [],
+      lineups: [],
+      bomb: { carrierId: null, position: null, action: null },
+      groundWeapons: [],
+      drops: [],
+      economyReport: null,
+      scouting: null,
+      momentum: state.round.momentum
     };
+    this.roundKills = { t: 0, ct: 0 };
+    this.liveAt = null;
   }
 
-  evaluateStrategySuccess(
-    state: RoundState,
-    tKills: number,
-    ctKills: number
-  ): void {
+  evaluateStrategySuccess(tKills: number, ctKills: number): void {
     const currentRound = this.roundHistory[this.roundHistory.length - 1];
     if (!currentRound) return;
 
@@ -173,13 +203,23 @@ class RoundSystem {
     currentRound.strategies.ct.kills = ctKills;
   }
 
-  getStrategyStats(team: 't' | 'ct', strategy: string): {
-    totalRounds: number;
-    wins: number;
-    avgKills: number;
-    avgTime: number;
-    objectiveSuccess: number;
-  } {
+  // Team stats travel with the team object, so they stay correct across side swaps
+  private updateTeamStats(state: GameState, outcome: RoundOutcome): void {
+    const played = this.roundHistory.length;
+    (['t', 'ct'] as const).forEach(side => {
+      const team = state.teams[side];
+      team.strategyStats.strategySuccessRate = team.roundWins / played;
+    });
+
+    const team = state.teams[outcome.winner];
+    const { strategy, roundTime } = outcome.strategies[outcome.winner];
+    const stats = team.strategyStats;
+    stats.roundsWonWithStrategy[strategy] = (stats.roundsWonWithStrategy[strategy] ?? 0) + 1;
+    stats.lastSuccessfulStrategy = strategy;
+    stats.averageExecutionTime = ((stats.averageExecutionTime ?? 0) * (team.roundWins - 1) + roundTime) / team.roundWins;
+  }
+
+  getStrategyStats(team: Side, strategy: string): StrategyRecord {
     const relevantRounds = this.roundHistory.filter(
       round => round.strategies[team].strategy === strategy
     );
@@ -217,21 +257,18 @@ class RoundSystem {
     };
   }
 
-  getRoundHistory(): typeof this.roundHistory {
+  getRoundHistory(): RoundOutcome[] {
     return this.roundHistory;
   }
 
-  getLastRoundOutcome(): typeof this.roundHistory[0] | null {
+  getLastRoundOutcome(): RoundOutcome | null {
     return this.roundHistory[this.roundHistory.length - 1] || null;
   }
 
   resetHistory(): void {
     this.roundHistory = [];
-    this.currentState = null;
-  }
-
-  getCurrentState(): RoundState | null {
-    return this.currentState;
+    this.roundKills = { t: 0, ct: 0 };
+    this.liveAt = null;
   }
 }
 
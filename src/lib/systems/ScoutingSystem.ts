@@ -0,0 +1,251 @@
+// ScoutingSystem.ts
+import SeededRandom from '../SeededRandom';
+import { getMap } from '../maps';
+import type { MapDefinition } from '../maps';
+import { isPistolRound } from './RoundSystem';
+import type { RoundOutcome } from './RoundSystem';
+import type {
+  BombSite,
+  CounterSuggestion,
+  GameState,
+  Position,
+  ScoutedRoundType,
+  ScoutingReport,
+  Side,
+  UtilityType
+} from '@/types/game';
+
+// What one team did on one side in one round
+export interface ScoutedRound {
+  round: number;
+  team: string; // the team's agent ids, so records follow a team across side swaps
+  side: Side;
+  roundType: ScoutedRoundType;
+  site: BombSite | null; // the site hit as T, the site stacked as CT
+  contactTime: number | null; // seconds from going live to first contact
+  plantTime: number | null; // seconds from going live to the plant
+  utility: Partial<Record<UtilityType, number>>;
+  positions: string[]; // callouts the living agents held at first contact
+  won: boolean;
+}
+
+// Per-round scouting of both teams, read during freezetime as counter-strategy advice
+class ScoutingSystem {
+  private readonly SAMPLE = 5; // most recent matching rounds considered
+  private readonly MIN_SAMPLE = 2; // below this the report falls back to every round type
+  private readonly HABIT = 0.6; // share of rounds that makes something a habit
+  private readonly FAST_CONTACT = 20; // seconds
+  private readonly SITE_RADIUS = 40; // how close to a site's callout counts as on the site
+  private readonly HIT = 2; // attackers on a site that show where an unplanted round went
+  private readonly STACK = 3; // defenders on one site that make a stack
+  private readonly COMMITTED = 3; // roles a strategy must send to a site to count as hitting or holding it
+
+  private records: ScoutedRound[] = [];
+  private map: MapDefinition | null = null;
+  private random: SeededRandom = new SeededRandom();
+
+  // Per-round observations
+  private round = 0;
+  private liveAt: number | null = null;
+  private contact: { time: number; positions: Record<Side, Position[]> } | null = null;
+  private utility: Record<Side, Partial<Record<UtilityType, number>>> = { t: {}, ct: {} };
+  private seenUtility = new Set<string>();
+
+  public initialize(gameState: any, random: SeededRandom): void {
+    this.random = random;
+    this.map = getMap(gameState.match.map.name);
+    this.records = [];
+    this.resetRound(gameState.match.currentRound);
+    console.log('ScoutingSystem initialized');
+  }
+
+  // Call every tick; notes when the round went live, first contact and the utility thrown
+  observe(state: GameState, now: number): void {
+    const { round } = state;
+    if (state.match.currentRound !== this.round) this.resetRound(state.match.currentRound);
+    if (round.phase !== 'live' && round.phase !== 'planted') return;
+    if (this.liveAt === null) this.liveAt = now;
+
+    // Expired utility leaves the state, so entities are tracked by id
+    round.utility.forEach(entity => {
+      if (this.seenUtility.has(entity.id)) return;
+      this.seenUtility.add(entity.id);
+      const thrown = this.utility[entity.side];
+      thrown[entity.type] = (thrown[entity.type] ?? 0) + 1;
+    });
+
+    const fought = round.duels.length > 0 || round.bombPlanted ||
+      [...state.teams.t.agents, ...state.teams.ct.agents].some(agent => !agent.isAlive);
+    if (!this.contact && fought) {
+      const living = (side: Side) => state.teams[side].agents
+        .filter(agent => agent.isAlive)
+        .map(agent => ({ ...agent.position }));
+      this.contact = { time: now, positions: { t: living('t'), ct: living('ct') } };
+    }
+  }
+
+  // Call once per round, after RoundSystem has scored it
+  recordRound(state: GameState, outcome: RoundOutcome): void {
+    (['t', 'ct'] as const).forEach(side => {
+      const positions = this.contact?.positions[side] ?? [];
+      this.records.push({
+        round: outcome.round,
+        team: this.teamKey(state, side),
+        side,
+        roundType: this.getRoundType(state, side),
+        site: side === 't'
+          ? state.round.bombSite ?? this.findOccupiedSite(positions, this.HIT)
+          : this.findOccupiedSite(positions, this.STACK),
+        contactTime: this.contact && this.liveAt !== null ? (this.contact.time - this.liveAt) / 1000 : null,
+        plantTime: state.round.plantTime !== null && this.liveAt !== null
+          ? (state.round.plantTime - this.liveAt) / 1000
+          : null,
+        utility: { ...this.utility[side] },
+        positions: positions.map(position => this.nearestCallout(position)),
+        won: outcome.winner === side
+      });
+    });
+  }
+
+  // What the team on the other side has done on that side in rounds like the coming one
+  getReport(state: GameState, side: Side): ScoutingReport {
+    const opponent: Side = side === 't' ? 'ct' : 't';
+    const roundType = this.getRoundType(state, opponent);
+    const played = this.records.filter(record => (
+      record.team === this.teamKey(state, opponent) && record.side === opponent
+    ));
+    const sameType = played.filter(record => record.roundType === roundType);
+    const rounds = (sameType.length >= this.MIN_SAMPLE ? sameType : played).slice(-this.SAMPLE);
+    const label = sameType.length >= this.MIN_SAMPLE ? `${roundType} rounds` : 'rounds';
+
+    const sites: Record<BombSite, number> = {
+      A: rounds.filter(record => record.site === 'A').length,
+      B: rounds.filter(record => record.site === 'B').length
+    };
+    const contacts = rounds
+      .map(record => record.contactTime)
+      .filter((time): time is number => time !== null);
+    const utility = rounds.reduce((sum, record) => (
+      sum + Object.values(record.utility).reduce((total, count) => total + (count ?? 0), 0)
+    ), 0);
+
+    const callouts: Record<string, number> = {};
+    rounds.forEach(record => new Set(record.positions).forEach(callout => {
+      callouts[callout] = (callouts[callout] ?? 0) + 1;
+    }));
+
+    return {
+      side,
+      roundType,
+      scouted: rounds.length,
+      sites,
+      averageContact: contacts.length > 0
+        ? contacts.reduce((sum, time) => sum + time, 0) / contacts.length
+        : null,
+      averageUtility: rounds.length > 0 ? utility / rounds.length : 0,
+      positions: Object.entries(callouts)
+        .map(([callout, count]) => ({ callout, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 3),
+      suggestions: this.suggest(side, roundType, rounds, sites, label)
+    };
+  }
+
+  // A habitual site is answered by stacking it as CT, or by hitting the other site as T
+  private suggest(
+    side: Side,
+    roundType: ScoutedRoundType,
+    rounds: ScoutedRound[],
+    sites: Record<BombSite, number>,
+    label: string
+  ): CounterSuggestion[] {
+    if (rounds.length < this.MIN_SAMPLE) return [];
+    const fast = rounds.filter(record => record.contactTime !== null && record.contactTime < this.FAST_CONTACT).length;
+
+    return (['A', 'B'] as const)
+      .filter(site => sites[site] / rounds.length >= this.HABIT)
+      .flatMap(site => {
+        const target: BombSite = side === 'ct' ? site : site === 'A' ? 'B' : 'A';
+        const strategy = this.findStrategy(side, target, roundType !== 'gun');
+        if (!strategy) return [];
+
+        const habit = side === 'ct'
+          ? `${fast / rounds.length >= this.HABIT ? 'rushed' : 'hit'} ${site}`
+          : `stacked ${site}`;
+        return [{
+          strategy,
+          reason: `They ${habit} ${sites[site]} of the last ${rounds.length} ${label}`
+        }];
+      });
+  }
+
+  // Of the strategies sending a majority to the site, pistol and eco rounds
+  // want the lightest on utility and gun rounds the heaviest
+  private findStrategy(side: Side, site: BombSite, eco: boolean): string | null {
+    const map = this.map;
+    if (!map) return null;
+    const candidates = Object.entries(map.strategies[`${side}_side`])
+      .filter(([, setup]) => Object.values(setup.positions)
+        .filter(callouts => this.isOnSite(map.callouts[callouts[callouts.length - 1]].position, site))
+        .length >= this.COMMITTED)
+      .map(([strategy, setup]) => ({
+        strategy,
+        utility: Object.values(setup.utility ?? {}).reduce((sum, grenades) => sum + grenades.length, 0)
+      }));
+    if (candidates.length === 0) return null;
+
+    return candidates.reduce((best, candidate) => (
+      eco ? candidate.utility < best.utility : candidate.utility > best.utility
+    ) ? candidate : best).strategy;
+  }
+
+  private getRoundType(state: GameState, side: Side): ScoutedRoundType {
+    const { currentRound, maxRounds } = state.match;
+    if (isPistolRound(currentRound, maxRounds)) return 'pistol';
+    const buyType = state.teams[side].economy?.buyType;
+    return buyType === 'save' || buyType === 'force' ? 'eco' : 'gun';
+  }
+
+  // The site with at least `minimum` of the positions on it, the busier one if both are
+  private findOccupiedSite(positions: Position[], minimum: number): BombSite | null {
+    const atA = positions.filter(position => this.isOnSite(position, 'A')).length;
+    const atB = positions.filter(position => this.isOnSite(position, 'B')).length;
+    if (atA === atB || Math.max(atA, atB) < minimum) return null;
+    return atA > atB ? 'A' : 'B';
+  }
+
+  private isOnSite(position: Position, site: BombSite): boolean {
+    if (!this.map) return false;
+    const { callouts, sites } = this.map;
+    return this.calculateDistance(position, callouts[sites[site]].position) <= this.SITE_RADIUS;
+  }
+
+  private nearestCallout(position: Position): string {
+    if (!this.map) return 'unknown';
+    return Object.entries(this.map.callouts).reduce((best, [id, callout]) => (
+      this.calculateDistance(position, callout.position) < best.distance
+        ? { id, distance: this.calculateDistance(position, callout.position) }
+        : best
+    ), { id: 'unknown', distance: Infinity }).id;
+  }
+
+  private teamKey(state: GameState, side: Side): string {
+    return state.teams[side].agents.map(agent => agent.id).join(',');
+  }
+
+  private resetRound(round: number): void {
+    this.round = round;
+    this.liveAt = null;
+    this.contact = null;
+    this.utility = { t: {}, ct: {} };
+    this.seenUtility.clear();
+  }
+
+  private calculateDistance(pos1: Position, pos2: Position): number {
+    const dx = pos2.x - pos1.x;
+    const dy = pos2.y - pos1.y;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+}
+
+export default ScoutingSystem;
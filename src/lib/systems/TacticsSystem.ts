@@ -0,0 +1,133 @@
+// TacticsSystem.ts
+import SeededRandom from '../SeededRandom';
+import { getMap, getMidRoundCalls, CURRENT_POSITION, SPAWN_POSITION, LEADER_POSITION } from '../maps';
+import type { MapDefinition, MidRoundCallSetup, StrategySetup } from '../maps';
+import type { Agent } from '@/types/game';
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+interface TeamStrategies {
+  [strategy: string]: StrategySetup;
+}
+
+class TacticsSystem {
+  private map: MapDefinition;
+  private mapPositions: { [key: string]: Position } = {};
+  private strategies: { t_side: TeamStrategies; ct_side: TeamStrategies } = { t_side: {}, ct_side: {} };
+  private midRoundCalls: { [key: string]: MidRoundCallSetup } = {};
+  private random: SeededRandom = new SeededRandom();
+
+  constructor(map: MapDefinition = getMap()) {
+    this.map = map;
+    this.loadMap(map);
+  }
+
+  public initialize(gameState: any, random: SeededRandom): void {
+    this.random = random;
+    this.loadMap(getMap(gameState.match.map.name));
+    console.log(`TacticsSystem initialized (${this.map.id})`);
+  }
+
+  loadMap(map: MapDefinition): void {
+    this.map = map;
+    this.mapPositions = Object.fromEntries(
+      Object.entries(map.callouts).map(([id, callout]) => [id, callout.position])
+    );
+    this.strategies = map.strategies;
+    this.midRoundCalls = map.midRoundCalls;
+  }
+
+  getMap(): MapDefinition {
+    return this.map;
+  }
+
+  getPositionForAgent(agent: Agent, phase: string, strategy: string): Position {
+    const side = agent.team;
+    const sideKey = `${side}_side` as 't_side' | 'ct_side';
+    
+    // Get strategy positions
+    const currentStrategy = this.strategies[sideKey]?.[strategy || 'default'];
+    if (!currentStrategy) return this.getDefaultPosition(agent);
+
+    const positions = currentStrategy.positions[agent.role];
+    if (!positions) return this.getDefaultPosition(agent);
+
+    const positionIndex = this.getPhasePositionIndex(phase);
+    const positionName = positions[Math.min(positionIndex, positions.length - 1)];
+    return this.mapPositions[positionName] || this.getDefaultPosition(agent);
+  }
+
+  // leaderPosition is where the side's shot-caller stands, for regroup-style calls
+  getPositionForCall(agent: Agent, call: string, leaderPosition?: Position): Position {
+    const positionName = this.midRoundCalls[call]?.positions[agent.role]?.[0];
+
+    switch (positionName) {
+      case undefined:
+        return this.getDefaultPosition(agent);
+      case CURRENT_POSITION:
+        return agent.position;
+      case SPAWN_POSITION:
+        return this.getSpawnPosition(agent.team);
+      case LEADER_POSITION:
+        return leaderPosition || agent.position;
+      default:
+        return this.mapPositions[positionName] || this.getDefaultPosition(agent);
+    }
+  }
+
+  getMidRoundCall(call: string): MidRoundCallSetup | null {
+    return this.midRoundCalls[call] || null;
+  }
+
+  private getPhasePositionIndex(phase: string): number {
+    switch (phase) {
+      case 'freezetime': return 0;
+      case 'live': return 1;
+      case 'planted': return 2;
+      case 'ended': return 0;
+      default: return 0;
+    }
+  }
+
+  getDefaultPosition(agent: Agent): Position {
+    return this.getSpawnPosition(agent.team);
+  }
+
+  getSpawnPosition(side: string): Position {
+    return this.mapPositions[this.map.spawns[side === 't' ? 't' : 'ct']];
+  }
+
+  // The bomb site closest to a position, e.g. to the end of a carrier's route
+  getNearestSite(position: Position): Position {
+    const [a, b] = [this.map.sites.A, this.map.sites.B].map(id => this.mapPositions[id]);
+    const distance = (site: Position) => Math.hypot(site.x - position.x, site.y - position.y);
+    return distance(a) <= distance(b) ? a : b;
+  }
+
+  getUtilityForStrategy(agent: Agent, strategy: string): string[] {
+    const side = `${agent.team}_side` as 't_side' | 'ct_side';
+    const setup = this.strategies[side]?.[strategy || 'default'];
+    return setup?.utility?.[agent.role] || [];
+  }
+
+  getAvailableStrategies(side: 't' | 'ct'): string[] {
+    return Object.keys(this.strategies[`${side}_side`]);
+  }
+
+  getAvailableMidRoundCalls(side: 't' | 'ct'): string[] {
+    return getMidRoundCalls(this.map, side).map(([call]) => call);
+  }
+
+  validateStrategy(side: 't' | 'ct', strategy: string): boolean {
+    return !!this.strategies[`${side}_side`][strategy];
+  }
+
+  getStrategyPriority(side: 't' | 'ct', strategy: string): Record<string, number> {
+    return this.strategies[`${side}_side`][strategy]?.priority || {};
+  }
+}
+
+export default TacticsSystem;
\ No newline at end of file
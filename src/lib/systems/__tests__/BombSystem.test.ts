@@ -0,0 +1,101 @@
+import { getMap } from '@/lib/maps';
+import { playThroughRound, startHeadlessMatch } from '@/lib/__tests__/headless';
+import type { BombAction, BombSite, GameState, Position, RoundEndCause } from '@/types/game';
+
+jest.setTimeout(120000);
+
+// What the bomb did in one round, as seen tick by tick
+interface BombRound {
+  round: number;
+  cause: RoundEndCause | null;
+  plant: BombAction | null;
+  plantTime: number | null;
+  site: BombSite | null;
+  position: Position | null;
+  defuse: BombAction | null;
+  defuserHasKit: boolean;
+  endedAt: number;
+}
+
+describe('BombSystem in a seeded headless match', () => {
+  const map = getMap('de_dust2');
+  const rounds: BombRound[] = [];
+  const strayCarriers: string[] = [];
+  let bombTimer = 0;
+
+  beforeAll(async () => {
+    const controller = await startHeadlessMatch(1);
+    const deltaTime = 1000 / controller.getState().meta.tickRate;
+    bombTimer = controller.getState().match.rules.bombTimer * 1000;
+    let now = 0;
+    let current: BombRound | null = null;
+
+    const onTick = (state: GameState) => {
+      now += deltaTime;
+      const { round, match } = state;
+      const { bomb } = round;
+
+      if (round.phase === 'live' || round.phase === 'planted') {
+        current ??= {
+          round: match.currentRound, cause: null, plant: null, plantTime: null, site: null,
+          position: null, defuse: null, defuserHasKit: false, endedAt: 0
+        };
+        if (bomb.carrierId && !state.teams.t.agents.some(agent => agent.id === bomb.carrierId)) {
+          strayCarriers.push(`${match.currentRound}: ${bomb.carrierId}`);
+        }
+        if (bomb.action?.type === 'plant') current.plant = { ...bomb.action };
+        if (bomb.action?.type === 'defuse') {
+          current.defuse = { ...bomb.action };
+          current.defuserHasKit = state.teams.ct.agents
+            .some(agent => agent.id === bomb.action!.agentId && agent.equipment.includes('defuse'));
+        }
+        if (round.bombPlanted && current.plantTime === null) {
+          current.plantTime = round.plantTime;
+          current.site = round.bombSite;
+          current.position = bomb.position && { ...bomb.position };
+        }
+      } else if (round.phase === 'ended' && current) {
+        current.endedAt = now;
+        rounds.push(current);
+        current = null;
+      }
+    };
+
+    for (let round = 1; round <= 16; round++) playThroughRound(controller, round, onTick);
+    const causes = new Map(controller.getRoundHistory().map(outcome => [outcome.round, outcome.cause]));
+    rounds.forEach(round => { round.cause = causes.get(round.round) ?? null; });
+  });
+
+  it('only ever hands the bomb to a T', () => {
+    expect(strayCarriers).toEqual([]);
+  });
+
+  it('plants on a site after a full plant time', () => {
+    const planted = rounds.filter(round => round.plantTime !== null);
+    expect(planted.length).toBeGreaterThan(0);
+    planted.forEach(({ plant, plantTime, site, position }) => {
+      expect(plantTime! - plant!.startedAt).toBeGreaterThanOrEqual(3000);
+      expect(site).not.toBeNull();
+      const { x, y } = map.callouts[map.sites[site!]].position;
+      expect(Math.hypot(position!.x - x, position!.y - y)).toBeLessThanOrEqual(20);
+    });
+  });
+
+  it('ends defused rounds after the defuse time, halved by a kit', () => {
+    const defused = rounds.filter(round => round.cause === 'bomb_defused');
+    expect(defused.length).toBeGreaterThan(0);
+    defused.forEach(({ defuse, defuserHasKit, endedAt }) => {
+      expect(defuse!.completesAt - defuse!.startedAt).toBe(defuserHasKit ? 5000 : 10000);
+      expect(endedAt).toBeGreaterThanOrEqual(defuse!.completesAt);
+    });
+  });
+
+  it('detonates an undefused bomb once the bomb timer runs out', () => {
+    const detonated = rounds.filter(round => round.cause === 'bomb_detonated');
+    expect(detonated.length).toBeGreaterThan(0);
+    detonated.forEach(({ plantTime, endedAt }) => {
+      expect(endedAt - plantTime!).toBeGreaterThanOrEqual(bombTimer);
+      expect(endedAt - plantTime!).toBeLessThan(bombTimer + 100);
+    });
+  });
+});
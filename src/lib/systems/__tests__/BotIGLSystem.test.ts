@@ -0,0 +1,113 @@
+import BotIGLSystem from '@/lib/systems/BotIGLSystem';
+import RoundSystem from '@/lib/systems/RoundSystem';
+import SeededRandom from '@/lib/SeededRandom';
+import { getMap, getMidRoundCalls } from '@/lib/maps';
+import { startHeadlessMatch, stepUntil } from '@/lib/__tests__/headless';
+import type { GameState, MidRoundCall, Side } from '@/types/game';
+
+jest.setTimeout(120000);
+
+// The bot's strategy and calls each round; the bot plays the roster named 'bot'
+interface BotRound {
+  round: number;
+  side: Side;
+  strategy: string;
+  calls: MidRoundCall[];
+}
+
+async function playBotRounds(seed: number, rounds: number): Promise<BotRound[]> {
+  const controller = await startHeadlessMatch(seed);
+  const played: BotRound[] = [];
+  const botSide = (state: GameState): Side => state.teams.t.agents[0].id.startsWith('bot') ? 't' : 'ct';
+  let phase = controller.getState().round.phase;
+
+  stepUntil(controller, state => state.match.currentRound > rounds, {
+    seconds: 3600,
+    onTick: state => {
+      if (state.round.phase === 'ended' && phase !== 'ended') {
+        const side = botSide(state);
+        played.push({
+          round: state.match.currentRound,
+          side,
+          strategy: state.round.currentStrategy[side],
+          calls: state.round.callHistory.filter(call => call.side === side)
+        });
+      }
+      phase = state.round.phase;
+    }
+  });
+  return played;
+}
+
+describe('BotIGLSystem in seeded headless matches', () => {
+  const map = getMap('de_dust2');
+  let played: BotRound[] = [];
+
+  beforeAll(async () => {
+    // Rounds 14 to 18 cross halftime, so the bot leads both sides
+    played = await playBotRounds(24, 18);
+  });
+
+  it('picks a strategy from its side of the map every round', () => {
+    expect(played).toHaveLength(18);
+    expect(new Set(played.map(({ side }) => side))).toEqual(new Set(['t', 'ct']));
+    played.forEach(({ side, strategy }) => {
+      expect(Object.keys(map.strategies[`${side}_side`])).toContain(strategy);
+    });
+    expect(new Set(played.map(({ strategy }) => strategy)).size).toBeGreaterThan(2);
+  });
+
+  it('only makes mid-round calls its side can make', () => {
+    const calls = played.flatMap(({ side, calls }) => calls.map(({ call }) => ({ side, call })));
+    expect(calls.length).toBeGreaterThan(0);
+    calls.forEach(({ side, call }) => {
+      expect(getMidRoundCalls(map, side).map(([name]) => name)).toContain(call);
+    });
+  });
+
+  it('calls the same match again from the same seed', async () => {
+    const again = await playBotRounds(24, 18);
+    expect(again.map(({ strategy, calls }) => [strategy, calls.map(({ call }) => call)]))
+      .toEqual(played.map(({ strategy, calls }) => [strategy, calls.map(({ call }) => call)]));
+  });
+});
+
+describe('BotIGLSystem reading RoundSystem history', () => {
+  let state: GameState;
+  let rounds: RoundSystem;
+
+  // Rounds where the CT side won with `strategy` against the default T setup
+  const record = (strategy: string, count: number, winner: Side = 'ct') => {
+    for (let index = 0; index < count; index++) {
+      state.match.currentRound = rounds.getRoundHistory().length + 1;
+      state.round.currentStrategy = { t: 'default', ct: strategy };
+      rounds.endRound(state, winner, 'elimination', 'Round over', 0);
+    }
+    state.match.currentRound = rounds.getRoundHistory().length + 1;
+  };
+
+  const picks = (seeds: number) => Array.from({ length: seeds }, (_, seed) => {
+    const igl = new BotIGLSystem();
+    igl.initialize(state, new SeededRandom(seed));
+    igl.setDifficulty('expert');
+    return igl.chooseStrategy(state, 'ct', Object.keys(getMap('de_dust2').strategies.ct_side), rounds);
+  });
+
+  beforeEach(async () => {
+    state = (await startHeadlessMatch(24)).getState();
+    state.teams.ct.economy = null;
+    rounds = new RoundSystem();
+    rounds.initialize(state, new SeededRandom(24));
+  });
+
+  it('goes back to the strategy the side keeps winning with', () => {
+    record('stack_b', 6);
+    const chosen = picks(20);
+    expect(chosen.filter(strategy => strategy === 'stack_b').length).toBeGreaterThanOrEqual(18);
+  });
+
+  it('moves off a strategy after losing with it', () => {
+    record('stack_b', 4, 't');
+    expect(picks(20)).not.toContain('stack_b');
+  });
+});
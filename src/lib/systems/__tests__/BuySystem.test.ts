@@ -0,0 +1,107 @@
+import GameController from '@/lib/GameController';
+import BuySystem from '@/lib/systems/BuySystem';
+import SeededRandom from '@/lib/SeededRandom';
+import { WEAPONS } from '@/lib/weapons';
+import { startHeadlessMatch, stepUntil } from '@/lib/__tests__/headless';
+import type { BuyType, GameState, Side } from '@/types/game';
+
+jest.setTimeout(120000);
+
+describe('BuySystem plans in a seeded headless match', () => {
+  const plans: { round: number; buyType: Record<Side, BuyType> }[] = [];
+  const purchases: { side: Side; wearing: boolean; weapons: string[]; equipment: string[] }[] = [];
+
+  beforeAll(async () => {
+    // Both sides buy their plans headless, from the first freezetime on
+    const processBuy = GameController.prototype.processBuy;
+    const spy = jest.spyOn(GameController.prototype, 'processBuy').mockImplementation(function (
+      this: GameController, side, agentId, loadout
+    ) {
+      const agent = this.getState().teams[side].agents.find(member => member.id === agentId)!;
+      const wearing = agent.armor >= 100 || agent.equipment.includes('kevlar');
+      purchases.push({ side, wearing, weapons: [...loadout.weapons], equipment: [...loadout.equipment] });
+      return processBuy.call(this, side, agentId, loadout);
+    });
+
+    const controller = await startHeadlessMatch(18);
+    const record = (state: GameState) => {
+      if (plans.at(-1)?.round === state.match.currentRound) return;
+      plans.push({
+        round: state.match.currentRound,
+        buyType: { t: state.teams.t.economy!.buyType, ct: state.teams.ct.economy!.buyType }
+      });
+    };
+    stepUntil(controller, state => state.match.currentRound === 18, {
+      seconds: 3600,
+      onTick: state => {
+        if (state.round.phase === 'freezetime') record(state);
+      }
+    });
+    spy.mockRestore();
+  });
+
+  it('forces on both pistol rounds', () => {
+    expect(plans).toHaveLength(18);
+    [1, 16].forEach(round => {
+      expect(plans.find(plan => plan.round === round)!.buyType).toEqual({ t: 'force', ct: 'force' });
+    });
+  });
+
+  it('only buys guns the side can use', () => {
+    expect(purchases.some(({ weapons }) => weapons.some(weapon => WEAPONS[weapon].side))).toBe(true);
+    purchases.forEach(({ side, weapons }) => {
+      weapons.forEach(weapon => expect([undefined, side]).toContain(WEAPONS[weapon].side));
+    });
+  });
+
+  it('never buys a helmet without kevlar on or in the same buy', () => {
+    const helmets = purchases.filter(({ equipment }) => equipment.includes('helmet'));
+    expect(helmets.length).toBeGreaterThan(0);
+    helmets.forEach(({ wearing, equipment }) => {
+      expect(wearing || equipment.includes('kevlar')).toBe(true);
+    });
+  });
+});
+
+describe('BuySystem planner on a headless match state', () => {
+  let state: GameState;
+  let buy: BuySystem;
+
+  const setMoney = (side: Side, amounts: number[]) => {
+    state.teams[side].agents.forEach((agent, index) => {
+      agent.economy.current = amounts[index];
+    });
+  };
+
+  beforeEach(async () => {
+    state = (await startHeadlessMatch(18)).getState();
+    buy = new BuySystem();
+    buy.initialize(state, new SeededRandom(18));
+    state.match.currentRound = 3;
+  });
+
+  it('full buys once four agents can afford rifles, armor and utility', () => {
+    setMoney('ct', [6000, 6000, 6000, 6000, 1000]);
+    expect(buy.planTeamBuy(state, 'ct').buyType).toBe('full');
+
+    setMoney('ct', [6000, 6000, 6000, 1000, 1000]);
+    expect(buy.planTeamBuy(state, 'ct').buyType).not.toBe('full');
+  });
+
+  it('saves when the team is too poor for a useful buy', () => {
+    setMoney('t', [800, 800, 800, 800, 800]);
+    const plan = buy.planTeamBuy(state, 't');
+
+    expect(plan.buyType).toBe('save');
+    expect(plan.minimumNextRound).toBe(5 * (800 + state.teams.t.lossBonus));
+  });
+
+  it('leaves a helmet out when there is no kevlar to attach it to', () => {
+    const agent = { ...state.teams.t.agents[0], weapons: ['glock'], equipment: [], armor: 0 };
+    const loadout = buy.calculateAgentBuy(agent, 500, 'full', 't');
+
+    expect(loadout.equipment).not.toContain('helmet');
+    expect(loadout.total).toBeLessThanOrEqual(500);
+    expect(buy.calculateAgentBuy({ ...agent, armor: 100 }, 500, 'full', 't').equipment).toContain('helmet');
+  });
+});
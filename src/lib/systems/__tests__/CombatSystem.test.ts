@@ -0,0 +1,76 @@
+import { getPrimaryWeapon } from '@/lib/weapons';
+import { playThroughRound, startHeadlessMatch } from '@/lib/__tests__/headless';
+import type { DuelRecord, Weapon } from '@/types/game';
+
+jest.setTimeout(60000);
+
+// Plays the first rounds of a seeded match and keeps every duel with the gun each
+// shooter held going into it (death drops empty a dead agent's hands the same tick)
+async function collectDuels(seed: number, rounds: number) {
+  const controller = await startHeadlessMatch(seed);
+  const held = new Map<string, Weapon>();
+  const duels: { duel: DuelRecord; weapons: Map<string, Weapon> }[] = [];
+  const seen = new Set<string>();
+
+  for (let round = 1; round <= rounds; round++) {
+    playThroughRound(controller, round, state => {
+      state.round.duels.filter(duel => !seen.has(duel.id)).forEach(duel => {
+        seen.add(duel.id);
+        duels.push({ duel, weapons: new Map(held) });
+      });
+      [...state.teams.t.agents, ...state.teams.ct.agents]
+        .filter(agent => agent.isAlive)
+        .forEach(agent => {
+          const weapon = getPrimaryWeapon(agent.weapons);
+          if (weapon) held.set(agent.id, weapon);
+        });
+    });
+  }
+  return duels;
+}
+
+describe('CombatSystem duels', () => {
+  let duels: Awaited<ReturnType<typeof collectDuels>>;
+
+  beforeAll(async () => {
+    duels = await collectDuels(12, 4);
+  });
+
+  it('fires nobody before they have had time to react', () => {
+    expect(duels.length).toBeGreaterThan(0);
+    duels.forEach(({ duel }) => {
+      duel.shots.forEach(shot => expect(shot.time - duel.startTime).toBeGreaterThanOrEqual(150));
+    });
+  });
+
+  it("spaces each shooter's shots by at least their weapon's fire interval", () => {
+    let spaced = 0;
+    duels.forEach(({ duel, weapons }) => {
+      duel.participants.forEach(({ id }) => {
+        const weapon = weapons.get(id)!;
+        const times = duel.shots.filter(shot => shot.shooter === id).map(shot => shot.time);
+        times.slice(1).forEach((time, index) => {
+          expect(time - times[index]).toBeGreaterThanOrEqual(1000 / weapon.fireRate - 1e-6);
+          spaced++;
+        });
+      });
+    });
+    expect(spaced).toBeGreaterThan(0);
+  });
+
+  it('ends a duel on the fatal shot, with the shooter of that shot as the winner', () => {
+    const kills = duels.filter(({ duel }) => duel.outcome === 'kill').map(({ duel }) => duel);
+    expect(kills.length).toBeGreaterThan(0);
+    kills.forEach(duel => {
+      const fatal = duel.shots[duel.shots.length - 1];
+      expect(fatal.hit).toBe(true);
+      expect(fatal.shooter).toBe(duel.winner);
+      expect(duel.endTime).toBe(fatal.time);
+    });
+  });
+
+  it('plays the same duels from the same seed', async () => {
+    const again = await collectDuels(12, 4);
+    expect(again.map(({ duel }) => duel)).toEqual(duels.map(({ duel }) => duel));
+  });
+});
@@ -0,0 +1,79 @@
+import { getUtility } from '@/lib/weapons';
+import { playThroughRound, startHeadlessMatch } from '@/lib/__tests__/headless';
+import type { GameState, Position, UtilityEntity } from '@/types/game';
+
+jest.setTimeout(60000);
+
+function distanceToSegment(point: Position, a: Position, b: Position): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = dx * dx + dy * dy;
+  const t = length === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / length));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+describe('utility entities in seeded headless rounds', () => {
+  const thrown = new Map<string, UtilityEntity>();
+  const lingering: string[] = [];
+  const killsThroughSmoke: string[] = [];
+  const overlongFlashes: string[] = [];
+
+  beforeAll(async () => {
+    const controller = await startHeadlessMatch(21);
+    const deltaTime = 1000 / controller.getState().meta.tickRate;
+    const seenDuels = new Set<string>();
+    let now = 0;
+
+    const onTick = (state: GameState) => {
+      now += deltaTime;
+      const live = state.round.phase === 'live' || state.round.phase === 'planted';
+      const agents = [...state.teams.t.agents, ...state.teams.ct.agents];
+
+      state.round.utility.forEach(entity => {
+        thrown.set(entity.id, entity);
+        // Flashes and HEs go off on the tick they land and are gone by the next
+        if (live && entity.expiresAt < now && entity.thrownAt !== now) lingering.push(entity.id);
+      });
+
+      const smokes = state.round.utility.filter(entity => entity.type === 'smoke');
+      state.round.duels.filter(duel => !seenDuels.has(duel.id)).forEach(duel => {
+        seenDuels.add(duel.id);
+        if (duel.outcome !== 'kill') return;
+        const [a, b] = duel.participants.map(({ id }) => agents.find(agent => agent.id === id)!);
+        if (smokes.some(smoke => distanceToSegment(smoke.position, a.position, b.position) <= smoke.radius)) {
+          killsThroughSmoke.push(duel.id);
+        }
+      });
+
+      agents
+        .filter(agent => agent.status?.isFlashed && (agent.status.flashedUntil ?? 0) - now > getUtility('flash').effect.duration)
+        .forEach(agent => overlongFlashes.push(agent.id));
+    };
+
+    for (let round = 1; round <= 6; round++) playThroughRound(controller, round, onTick);
+  });
+
+  it('gives every thrown grenade the radius and lifetime of its catalogue entry', () => {
+    const entities = Array.from(thrown.values());
+    expect(entities.some(entity => entity.type === 'smoke')).toBe(true);
+
+    entities.forEach(entity => {
+      const { effect } = getUtility(entity.type);
+      expect(entity.radius).toBe(effect.radius);
+      const lasts = entity.type === 'smoke' || entity.type === 'molotov' ? effect.duration : 0;
+      expect(entity.expiresAt - entity.thrownAt).toBe(lasts);
+    });
+  });
+
+  it('removes grenades from the round once they expire', () => {
+    expect(lingering).toEqual([]);
+  });
+
+  it('lets no duel end in a kill through an active smoke', () => {
+    expect(killsThroughSmoke).toEqual([]);
+  });
+
+  it('never blinds anyone for longer than a flash lasts', () => {
+    expect(overlongFlashes).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { startHeadlessMatch, stepUntil } from '@/lib/__tests__/headless';
+import type { GameState, Side } from '@/types/game';
+
+jest.setTimeout(120000);
+
+interface Payout {
+  round: number;
+  loser: Side;
+  lossBonus: number; // the loser's ladder step before the round settled
+  planted: boolean;
+  timeLoss: boolean;
+  paid: { alive: boolean; paid: number; room: number }[];
+}
+
+describe('EconomySystem loss bonus over a seeded match', () => {
+  const ladders: { round: number; winner: Side; before: Record<Side, number>; after: Record<Side, number> }[] = [];
+  const payouts: Payout[] = [];
+  let secondHalfLadder: Record<Side, number> | null = null;
+  let maxMoney = 0;
+
+  beforeAll(async () => {
+    const controller = await startHeadlessMatch(17);
+    maxMoney = controller.getState().match.rules.maxMoney;
+    const ladderOf = (state: GameState) => ({ t: state.teams.t.lossBonus, ct: state.teams.ct.lossBonus });
+    let previous: { ladder: Record<Side, number>; wallets: Map<string, number>; kills: Map<string, number> } | null = null;
+    let phase = controller.getState().round.phase;
+
+    const onTick = (state: GameState) => {
+      const agents = [...state.teams.t.agents, ...state.teams.ct.agents];
+      if (state.round.phase === 'ended' && phase !== 'ended' && previous) {
+        const outcome = controller.getRoundHistory().at(-1)!;
+        const loser: Side = outcome.winner === 't' ? 'ct' : 't';
+        ladders.push({ round: outcome.round, winner: outcome.winner, before: previous.ladder, after: ladderOf(state) });
+
+        // A kill on the final tick pays on top of the bonus, so only agents without one are compared
+        const { wallets, kills } = previous;
+        payouts.push({
+          round: outcome.round,
+          loser,
+          lossBonus: previous.ladder[loser],
+          planted: state.round.bombPlanted,
+          timeLoss: outcome.cause === 'time',
+          paid: state.teams[loser].agents
+            .filter(agent => agent.matchStats.kills === kills.get(agent.id))
+            .map(agent => ({
+              alive: agent.isAlive,
+              paid: agent.economy.current - wallets.get(agent.id)!,
+              room: maxMoney - wallets.get(agent.id)!
+            }))
+        });
+      }
+      if (state.match.currentRound === 16 && state.round.phase === 'freezetime') secondHalfLadder ??= ladderOf(state);
+
+      phase = state.round.phase;
+      previous = {
+        ladder: ladderOf(state),
+        wallets: new Map(agents.map(agent => [agent.id, agent.economy.current])),
+        kills: new Map(agents.map(agent => [agent.id, agent.matchStats.kills]))
+      };
+    };
+
+    stepUntil(controller, state => state.match.currentRound === 17, { seconds: 3600, onTick });
+  });
+
+  it('climbs the loser by 500 up to 3400 and steps the winner down to 1400', () => {
+    expect(ladders).toHaveLength(16);
+    expect(ladders[0].before).toEqual({ t: 1400, ct: 1400 });
+    ladders.forEach(({ winner, before, after }) => {
+      const loser: Side = winner === 't' ? 'ct' : 't';
+      expect(after[loser]).toBe(Math.min(before[loser] + 500, 3400));
+      expect(after[winner]).toBe(Math.max(before[winner] - 500, 1400));
+    });
+    expect(ladders.some(({ before }) => before.t > 1400 || before.ct > 1400)).toBe(true);
+  });
+
+  it('pays losers their step, 800 more after a plant and nothing to Ts alive at time', () => {
+    payouts.forEach(({ loser, lossBonus, planted, timeLoss, paid }) => {
+      paid.forEach(agent => {
+        const bonus = loser === 't' && timeLoss && agent.alive ? 0 : lossBonus + (loser === 't' && planted ? 800 : 0);
+        expect(agent.paid).toBe(Math.min(bonus, agent.room));
+      });
+    });
+    expect(payouts.flatMap(({ paid }) => paid).length).toBeGreaterThan(0);
+    // Seed 17 includes a CT win on time with Ts still alive
+    expect(payouts.some(({ loser, timeLoss, paid }) => loser === 't' && timeLoss && paid.some(agent => agent.alive))).toBe(true);
+  });
+
+  it('puts both ladders back to 1400 for the second half', () => {
+    expect(secondHalfLadder).toEqual({ t: 1400, ct: 1400 });
+  });
+});
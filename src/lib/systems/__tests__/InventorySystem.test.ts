@@ -0,0 +1,110 @@
+import { getPrimaryWeapon } from '@/lib/weapons';
+import { startHeadlessMatch, stepUntil } from '@/lib/__tests__/headless';
+import type { Agent, GameState, RoundPhase } from '@/types/game';
+
+jest.setTimeout(120000);
+
+interface Snapshot {
+  isAlive: boolean;
+  weapons: string[];
+  equipment: string[];
+  armor: number;
+}
+
+const snapshot = (agent: Agent): Snapshot => ({
+  isAlive: agent.isAlive,
+  weapons: [...agent.weapons],
+  equipment: [...agent.equipment],
+  armor: agent.armor
+});
+
+describe('InventorySystem across seeded headless rounds', () => {
+  // Loadouts when each round ended, and when the next one went live after buying
+  const endings: Map<string, Snapshot>[] = [];
+  const starts: Map<string, Snapshot>[] = [];
+  const lostDrops: string[] = [];
+  let drops = 0;
+  let secondHalf: Agent[] = [];
+
+  beforeAll(async () => {
+    const controller = await startHeadlessMatch(4);
+    const held = new Map<string, string>();
+    let phase: RoundPhase = controller.getState().round.phase;
+
+    const agentsOf = (state: GameState) => [...state.teams.t.agents, ...state.teams.ct.agents];
+    const onTick = (state: GameState) => {
+      const agents = agentsOf(state);
+      agents.filter(agent => !agent.isAlive && held.has(agent.id)).forEach(agent => {
+        const weapon = held.get(agent.id)!;
+        held.delete(agent.id);
+        drops++;
+        const onGround = state.round.groundWeapons.some(item => item.weapon === weapon && item.droppedBy === agent.id);
+        const pickedUp = agents.some(other => other.isAlive && other.weapons.includes(weapon));
+        if (!onGround && !pickedUp) lostDrops.push(`${agent.id} ${weapon}`);
+      });
+      agents.filter(agent => agent.isAlive).forEach(agent => {
+        const weapon = getPrimaryWeapon(agent.weapons);
+        if (weapon) held.set(agent.id, weapon.id);
+      });
+
+      if (state.round.phase !== phase) {
+        if (state.round.phase === 'ended') endings.push(new Map(agents.map(agent => [agent.id, snapshot(agent)])));
+        if (state.round.phase === 'live' && endings.length > 0) {
+          starts.push(new Map(agents.map(agent => [agent.id, snapshot(agent)])));
+        }
+        phase = state.round.phase;
+      }
+    };
+
+    // Rounds 1 to 7 stay inside the first half, so nothing resets for halftime
+    stepUntil(controller, () => starts.length === 6, { onTick });
+
+    // Round 16 opens the second half with fresh pistols
+    if (stepUntil(controller, state => state.match.currentRound === 16 && state.round.phase === 'live', { seconds: 3600 })) {
+      secondHalf = agentsOf(controller.getState());
+    }
+  });
+
+  it('drops the best gun of everyone who dies where it can be picked up', () => {
+    expect(drops).toBeGreaterThan(0);
+    expect(lostDrops).toEqual([]);
+  });
+
+  it('leaves the dead with nothing and restarts them on a pistol', () => {
+    let restarted = 0;
+    starts.forEach((start, index) => {
+      endings[index].forEach((ended, id) => {
+        if (ended.isAlive) return;
+        restarted++;
+        expect(ended).toEqual({ isAlive: false, weapons: [], equipment: [], armor: 0 });
+        expect(start.get(id)!.weapons.some(weapon => getPrimaryWeapon([weapon])?.type === 'pistol')).toBe(true);
+      });
+    });
+    expect(restarted).toBeGreaterThan(0);
+  });
+
+  it('lets survivors keep their guns, armor and unused grenades', () => {
+    let carried = 0;
+    starts.forEach((start, index) => {
+      endings[index].forEach((ended, id) => {
+        if (!ended.isAlive) return;
+        carried++;
+        const next = start.get(id)!;
+        const primary = getPrimaryWeapon(ended.weapons);
+        if (primary && primary.type !== 'pistol') expect(next.weapons).toContain(primary.id);
+        expect(next.armor).toBeGreaterThanOrEqual(ended.armor);
+        ended.equipment.filter(item => item !== 'kevlar' && item !== 'helmet').forEach(item => {
+          expect(next.equipment).toContain(item);
+        });
+      });
+    });
+    expect(carried).toBeGreaterThan(0);
+  });
+
+  it('takes everything but the side pistol away at halftime', () => {
+    expect(secondHalf).toHaveLength(10);
+    secondHalf.forEach(agent => {
+      expect(agent.weapons.every(weapon => getPrimaryWeapon([weapon])?.type === 'pistol')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import MapGeometry from '@/lib/systems/MapGeometry';
+import { getMap } from '@/lib/maps';
+import { playThroughRound, startHeadlessMatch } from '@/lib/__tests__/headless';
+import type { Agent, GameState } from '@/types/game';
+
+jest.setTimeout(60000);
+
+describe('MapGeometry line of sight on Dust II', () => {
+  const geometry = new MapGeometry(getMap('de_dust2'));
+
+  it('blocks rays through a wall and names the wall', () => {
+    expect(geometry.hasLineOfSight({ x: 120, y: 180 }, { x: 170, y: 180 })).toBe(false);
+    expect(geometry.getBlockingObstacle({ x: 120, y: 180 }, { x: 170, y: 180 })?.id).toBe('tunnels');
+  });
+
+  it('sees through the gap between the mid doors', () => {
+    expect(geometry.hasLineOfSight({ x: 120, y: 150 }, { x: 150, y: 150 })).toBe(true);
+  });
+
+  it('keeps sight when a ray only grazes a corner', () => {
+    expect(geometry.hasLineOfSight({ x: 115, y: 170 }, { x: 135, y: 150 })).toBe(true);
+  });
+
+  it('blocks a ray that starts and ends inside the same obstacle', () => {
+    expect(geometry.hasLineOfSight({ x: 140, y: 170 }, { x: 150, y: 190 })).toBe(false);
+  });
+
+  it('never lets a duel end in a kill through a wall', async () => {
+    const controller = await startHeadlessMatch(3);
+    const seen = new Set<string>();
+    const blocked: string[] = [];
+    let kills = 0;
+
+    const findAgent = (state: GameState, id: string): Agent =>
+      [...state.teams.t.agents, ...state.teams.ct.agents].find(agent => agent.id === id)!;
+
+    [1, 2, 3].forEach(round => playThroughRound(controller, round, state => {
+      state.round.duels
+        .filter(duel => !seen.has(duel.id))
+        .forEach(duel => {
+          seen.add(duel.id);
+          if (duel.outcome !== 'kill') return;
+          kills++;
+          const [a, b] = duel.participants.map(participant => findAgent(state, participant.id));
+          if (!geometry.hasLineOfSight(a.position, b.position)) blocked.push(duel.id);
+        });
+    }));
+
+    expect(kills).toBeGreaterThan(0);
+    expect(blocked).toEqual([]);
+  });
+});
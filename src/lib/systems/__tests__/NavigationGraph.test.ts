@@ -0,0 +1,46 @@
+import NavigationGraph from '@/lib/systems/NavigationGraph';
+import MapGeometry from '@/lib/systems/MapGeometry';
+import { getMap } from '@/lib/maps';
+import { playThroughRound, startHeadlessMatch } from '@/lib/__tests__/headless';
+
+jest.setTimeout(60000);
+
+describe('NavigationGraph A* routing on Dust II', () => {
+  const map = getMap('de_dust2');
+  const geometry = new MapGeometry(map);
+  const graph = new NavigationGraph(map, geometry);
+
+  it('takes the shortest route between callouts', () => {
+    expect(graph.findRoute('t_spawn', 'b_platform')).toEqual(['t_spawn', 'upper_tunnels', 'b_platform']);
+    expect(graph.findRoute('ct_spawn', 'b_platform')).toEqual(['ct_spawn', 'mid_to_b', 'b_doors', 'b_platform']);
+  });
+
+  it('returns null for an unknown node', () => {
+    expect(graph.findRoute('t_spawn', 'nowhere')).toBeNull();
+  });
+
+  it('builds paths from waypoints that never walk through an obstacle', () => {
+    const start = { x: 62, y: 182 };
+    const end = { x: 222, y: 82 };
+    const path = graph.findPath(start, end);
+
+    expect(path[0]).toEqual(start);
+    expect(path[path.length - 1]).toEqual(end);
+    path.slice(1).forEach((point, index) => {
+      expect(geometry.hasLineOfSight(path[index], point)).toBe(true);
+    });
+  });
+
+  it('never leaves an agent standing inside an obstacle in a seeded match', async () => {
+    const controller = await startHeadlessMatch(5);
+    const inside: string[] = [];
+
+    [1, 2].forEach(round => playThroughRound(controller, round, state => {
+      [...state.teams.t.agents, ...state.teams.ct.agents]
+        .filter(agent => agent.isAlive && geometry.isInsideObstacle(agent.position))
+        .forEach(agent => inside.push(`${agent.id} at ${agent.position.x},${agent.position.y}`));
+    }));
+
+    expect(inside).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  getOvertimeRound,
+  getWinThreshold,
+  isLastRoundOfPeriod,
+  isPistolRound,
+  isSideSwapRound,
+  type RoundOutcome
+} from '@/lib/systems/RoundSystem';
+import { startHeadlessMatch, stepUntil } from '@/lib/__tests__/headless';
+import type GameController from '@/lib/GameController';
+import type { GameState, OvertimeConfig, Side } from '@/types/game';
+
+jest.setTimeout(120000);
+
+const MR3: OvertimeConfig = { enabled: true, rounds: 6, startMoney: 10000 };
+
+describe('overtime helpers', () => {
+  it('numbers overtime rounds within their period', () => {
+    expect(getOvertimeRound(30, 30, MR3)).toEqual({ overtime: 0, round: 30 });
+    expect(getOvertimeRound(31, 30, MR3)).toEqual({ overtime: 1, round: 1 });
+    expect(getOvertimeRound(36, 30, MR3)).toEqual({ overtime: 1, round: 6 });
+    expect(getOvertimeRound(37, 30, MR3)).toEqual({ overtime: 2, round: 1 });
+  });
+
+  it('raises the win threshold by half an overtime per overtime', () => {
+    expect(getWinThreshold(30, 30, MR3)).toBe(15);
+    expect(getWinThreshold(31, 30, MR3)).toBe(18);
+    expect(getWinThreshold(40, 30, MR3)).toBe(21);
+  });
+
+  it('swaps sides at halftime and halfway through every overtime', () => {
+    expect(isSideSwapRound(15, 30, MR3)).toBe(true);
+    expect(isSideSwapRound(30, 30, MR3)).toBe(false);
+    expect(isSideSwapRound(33, 30, MR3)).toBe(true);
+    expect(isSideSwapRound(39, 30, MR3)).toBe(true);
+    expect(isSideSwapRound(36, 30, MR3)).toBe(false);
+  });
+
+  it('ends a period on the last round of regulation or of an overtime', () => {
+    expect(isLastRoundOfPeriod(30, 30, MR3)).toBe(true);
+    expect(isLastRoundOfPeriod(33, 30, MR3)).toBe(false);
+    expect(isLastRoundOfPeriod(36, 30, MR3)).toBe(true);
+    expect(isLastRoundOfPeriod(42, 30, MR3)).toBe(true);
+  });
+
+  it('only plays pistol rounds at the start of each regulation half', () => {
+    expect(isPistolRound(1, 30)).toBe(true);
+    expect(isPistolRound(16, 30)).toBe(true);
+    expect(isPistolRound(31, 30)).toBe(false);
+  });
+});
+
+describe('overtime in a seeded headless match', () => {
+  // Seed 4 ties a six-round match 3-3 and settles it in the first overtime
+  const rounds: { round: number; score: { t: number; ct: number }; side: string; money: number[] }[] = [];
+  let final: { round: number; score: { t: number; ct: number }; overtime: OvertimeConfig } | null = null;
+
+  beforeAll(async () => {
+    const controller = await startHeadlessMatch(4, { maxRounds: 6 });
+    let spent = new Map<string, number>();
+
+    stepUntil(controller, () => false, {
+      seconds: 3600,
+      onTick: state => {
+        const agents = [...state.teams.t.agents, ...state.teams.ct.agents];
+        if (state.round.phase === 'freezetime' && rounds.at(-1)?.round !== state.match.currentRound) {
+          rounds.push({
+            round: state.match.currentRound,
+            score: { ...state.match.score },
+            side: agents.find(agent => agent.id === 'player-0')!.team,
+            // Wallets before this freezetime's buys
+            money: agents.map(agent => agent.economy.current + agent.economy.spent - (spent.get(agent.id) ?? 0))
+          });
+        }
+        spent = new Map(agents.map(agent => [agent.id, agent.economy.spent]));
+      }
+    });
+    const { match } = controller.getState();
+    final = { round: match.currentRound, score: { ...match.score }, overtime: match.rules.overtime };
+  });
+
+  it('only goes to overtime on a tie and opens it with overtime money for everyone', () => {
+    const first = rounds.find(({ round }) => round === 7)!;
+    expect(first.score.t).toBe(first.score.ct);
+    expect(first.money).toEqual(Array(10).fill(final!.overtime.startMoney));
+  });
+
+  it('swaps sides halfway through the overtime', () => {
+    const side = (round: number) => rounds.find(entry => entry.round === round)!.side;
+    expect(side(9)).toBe(side(7));
+    expect(side(10)).not.toBe(side(9));
+  });
+
+  it('ends once a side passes the overtime win threshold', () => {
+    const { round, score, overtime } = final!;
+    expect(round).toBeGreaterThan(6);
+    expect(Math.max(score.t, score.ct)).toBe(getWinThreshold(round, 6, overtime) + 1);
+  });
+});
+
+describe('round history in a seeded headless match', () => {
+  // What each round looked like from outside RoundSystem, to check its history against
+  const observed: RoundOutcome[] = [];
+  let history: RoundOutcome[] = [];
+  let controller: GameController;
+
+  beforeAll(async () => {
+    controller = await startHeadlessMatch(23);
+    const deltaTime = 1000 / controller.getState().meta.tickRate;
+    const killsOf = (state: GameState, side: Side) =>
+      state.teams[side].agents.reduce((sum, agent) => sum + agent.matchStats.kills, 0);
+    let now = 0;
+    let liveAt = 0;
+    let phase = controller.getState().round.phase;
+    let kills = { t: 0, ct: 0 };
+    let score = { t: 0, ct: 0 };
+
+    // Rounds 1 to 12 stay inside the first half, so every agent keeps their side
+    stepUntil(controller, state => state.match.currentRound === 13, {
+      seconds: 3600,
+      onTick: state => {
+        now += deltaTime;
+        const { round, match } = state;
+        if (round.phase === 'live' && phase !== 'live') {
+          liveAt = now;
+          kills = { t: killsOf(state, 't'), ct: killsOf(state, 'ct') };
+        }
+        if (round.phase === 'ended' && phase !== 'ended') {
+          const winner: Side = match.score.t > score.t ? 't' : 'ct';
+          const outcomeFor = (side: Side) => ({
+            strategy: round.currentStrategy[side],
+            success: winner === side,
+            kills: killsOf(state, side) - kills[side],
+            objectives: side === 't' ? round.bombPlanted : controller.getRoundHistory().at(-1)?.cause === 'bomb_defused',
+            roundTime: (now - liveAt) / 1000
+          });
+          observed.push({
+            round: match.currentRound,
+            winner,
+            cause: controller.getRoundHistory().at(-1)!.cause,
+            endReason: round.endReason!,
+            strategies: { t: outcomeFor('t'), ct: outcomeFor('ct') }
+          });
+        }
+        phase = round.phase;
+        score = { ...match.score };
+      }
+    });
+    history = controller.getRoundHistory();
+  });
+
+  it('records every round once, with its winner, kills, objective and time', () => {
+    expect(history.map(({ round }) => round)).toEqual(Array.from({ length: 12 }, (_, index) => index + 1));
+    history.forEach((outcome, index) => {
+      const { strategies, ...rest } = observed[index];
+      expect(outcome).toMatchObject(rest);
+      (['t', 'ct'] as const).forEach(side => {
+        expect(outcome.strategies[side]).toMatchObject({ ...strategies[side], roundTime: expect.any(Number) });
+        expect(outcome.strategies[side].roundTime).toBeCloseTo(strategies[side].roundTime, 3);
+      });
+    });
+  });
+
+  it('sums each side\'s strategies from that history', () => {
+    (['t', 'ct'] as const).forEach(side => {
+      const strategies = new Set(history.map(outcome => outcome.strategies[side].strategy));
+      strategies.forEach(strategy => {
+        const rounds = history.map(outcome => outcome.strategies[side]).filter(outcome => outcome.strategy === strategy);
+        const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / rounds.length;
+        const stats = controller.getStrategyStats(side, strategy);
+
+        expect(stats.totalRounds).toBe(rounds.length);
+        expect(stats.wins).toBe(rounds.filter(outcome => outcome.success).length);
+        expect(stats.avgKills).toBeCloseTo(average(rounds.map(outcome => outcome.kills)));
+        expect(stats.avgTime).toBeCloseTo(average(rounds.map(outcome => outcome.roundTime)));
+        expect(stats.objectiveSuccess).toBeCloseTo(average(rounds.map(outcome => Number(outcome.objectives))));
+      });
+    });
+    expect(controller.getStrategyStats('t', 'no_such_strategy')).toEqual({
+      totalRounds: 0, wins: 0, avgKills: 0, avgTime: 0, objectiveSuccess: 0
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import ScoutingSystem from '@/lib/systems/ScoutingSystem';
+import SeededRandom from '@/lib/SeededRandom';
+import { getMap } from '@/lib/maps';
+import { startHeadlessMatch, stepUntil } from '@/lib/__tests__/headless';
+import type { RoundOutcome } from '@/lib/systems/RoundSystem';
+import type { BombSite, GameState, ScoutingReport, Side } from '@/types/game';
+
+jest.setTimeout(120000);
+
+describe('ScoutingSystem in a seeded headless match', () => {
+  const map = getMap('de_dust2');
+  // The reports each freezetime opened with, and which team played which side before it
+  const freezetimes: { round: number; reports: Record<Side, ScoutingReport>; teams: Record<Side, string> }[] = [];
+  const played: { round: number; side: Side; team: string }[] = [];
+  let replaced = 0;
+
+  beforeAll(async () => {
+    const controller = await startHeadlessMatch(25);
+    const teamOf = (state: GameState, side: Side) => state.teams[side].agents.map(agent => agent.id).join(',');
+    let phase = controller.getState().round.phase;
+
+    stepUntil(controller, state => state.match.currentRound === 21, {
+      seconds: 3600,
+      onTick: state => {
+        const { round, match } = state;
+        if (round.phase === 'freezetime') {
+          const current = freezetimes.at(-1);
+          if (current?.round !== match.currentRound) {
+            freezetimes.push({
+              round: match.currentRound,
+              reports: round.scouting!,
+              teams: { t: teamOf(state, 't'), ct: teamOf(state, 'ct') }
+            });
+          } else if (current.reports !== round.scouting) {
+            replaced++;
+          }
+        }
+        if (round.phase === 'ended' && phase !== 'ended') {
+          (['t', 'ct'] as const).forEach(side => played.push({ round: match.currentRound, side, team: teamOf(state, side) }));
+        }
+        phase = round.phase;
+      }
+    });
+  });
+
+  it('writes both reports once, when freezetime opens', () => {
+    expect(freezetimes).toHaveLength(21);
+    expect(replaced).toBe(0);
+    freezetimes.forEach(({ reports }) => {
+      expect(reports.t.side).toBe('t');
+      expect(reports.ct.side).toBe('ct');
+    });
+  });
+
+  it('only scouts what the opposing team did on the side it is playing now', () => {
+    // Each report names the opponent's round type, so past reports say what type every round was
+    const roundType = (round: number, side: Side) =>
+      freezetimes.find(entry => entry.round === round)!.reports[side === 't' ? 'ct' : 't'].roundType;
+
+    freezetimes.forEach(({ round, reports, teams }) => {
+      (['t', 'ct'] as const).forEach(side => {
+        const opponent: Side = side === 't' ? 'ct' : 't';
+        const seen = played.filter(entry => entry.round < round && entry.side === opponent && entry.team === teams[opponent]);
+        const sameType = seen.filter(entry => roundType(entry.round, opponent) === reports[side].roundType);
+        expect(reports[side].scouted).toBe(Math.min((sameType.length >= 2 ? sameType : seen).length, 5));
+      });
+    });
+    // Halftime hands both teams a side the other has not played yet
+    const secondHalf = freezetimes.find(({ round }) => round === 16)!;
+    expect(secondHalf.reports.t.scouted).toBe(0);
+    expect(secondHalf.reports.ct.scouted).toBe(0);
+  });
+
+  it('suggests strategies from the scouting side of the map', () => {
+    const suggestions = freezetimes.flatMap(({ reports }) => (['t', 'ct'] as const)
+      .flatMap(side => reports[side].suggestions.map(suggestion => ({ side, suggestion, scouted: reports[side].scouted }))));
+    expect(suggestions.length).toBeGreaterThan(0);
+    suggestions.forEach(({ side, suggestion, scouted }) => {
+      expect(Object.keys(map.strategies[`${side}_side`])).toContain(suggestion.strategy);
+      expect(scouted).toBeGreaterThanOrEqual(2);
+    });
+  });
+});
+
+describe('ScoutingSystem on a headless match state', () => {
+  let state: GameState;
+  let scouting: ScoutingSystem;
+
+  // Ts walk onto `site` and take a fight five seconds after going live, then win
+  const playRound = (round: number, site: BombSite) => {
+    const map = getMap(state.match.map.name);
+    state.match.currentRound = round;
+    state.round.phase = 'live';
+    state.teams.ct.agents.forEach(agent => { agent.isAlive = true; });
+    state.teams.t.agents.forEach(agent => {
+      agent.position = { ...map.callouts[map.sites[site]].position };
+    });
+    scouting.observe(state, 1000);
+
+    state.teams.ct.agents[0].isAlive = false;
+    scouting.observe(state, 6000);
+
+    const outcome: RoundOutcome = {
+      round,
+      winner: 't',
+      cause: 'elimination',
+      endReason: 'Terrorists eliminated the CTs',
+      strategies: {
+        t: { strategy: 'default', success: true, kills: 5, objectives: false, roundTime: 30 },
+        ct: { strategy: 'default', success: false, kills: 0, objectives: false, roundTime: 30 }
+      }
+    };
+    scouting.recordRound(state, outcome);
+  };
+
+  beforeEach(async () => {
+    state = (await startHeadlessMatch(25)).getState();
+    state.round.duels = [];
+    state.round.utility = [];
+    scouting = new ScoutingSystem();
+    scouting.initialize(state, new SeededRandom(25));
+  });
+
+  it('suggests stacking the site the Ts keep rushing', () => {
+    [3, 4, 5].forEach(round => playRound(round, 'B'));
+    state.match.currentRound = 6;
+    const report = scouting.getReport(state, 'ct');
+    const map = getMap(state.match.map.name);
+
+    expect(report.scouted).toBe(3);
+    expect(report.sites).toEqual({ A: 0, B: 3 });
+    expect(report.averageContact).toBe(5);
+    expect(report.suggestions).toHaveLength(1);
+    expect(Object.keys(map.strategies.ct_side)).toContain(report.suggestions[0].strategy);
+    expect(report.suggestions[0].reason).toBe('They rushed B 3 of the last 3 gun rounds');
+  });
+
+  it('makes no suggestions before the opponent has shown a habit', () => {
+    playRound(3, 'B');
+    expect(scouting.getReport(state, 'ct').suggestions).toEqual([]);
+
+    playRound(4, 'A');
+    expect(scouting.getReport(state, 'ct').suggestions).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+// src/lib/weapons/catalogue.ts
+// Every buyable weapon and piece of equipment. Prices and combat stats live
+// here only; BuySystem, CombatSystem and the buy menu all read from it.
+import type { Equipment, Utility, Weapon } from '@/types/game';
+
+export const WEAPONS: Record<string, Weapon> = {
+  // Pistols
+  glock: {
+    id: 'glock',
+    name: 'Glock-18',
+    type: 'pistol',
+    cost: 200,
+    damage: 30,
+    armorPenetration: 0.47,
+    rangeModifier: 0.85,
+    fireRate: 6.7,
+    accuracy: 0.7,
+    magazineSize: 20,
+    reloadTime: 2270,
+    preferredBy: ['Entry Fragger'],
+    side: 't'
+  },
+  usp: {
+    id: 'usp',
+    name: 'USP-S',
+    type: 'pistol',
+    cost: 200,
+    damage: 35,
+    armorPenetration: 0.505,
+    rangeModifier: 0.91,
+    fireRate: 5.6,
+    accuracy: 0.8,
+    magazineSize: 12,
+    reloadTime: 2200,
+    preferredBy: ['Support'],
+    side: 'ct'
+  },
+  deagle: {
+    id: 'deagle',
+    name: 'Desert Eagle',
+    type: 'pistol',
+    cost: 700,
+    damage: 53,
+    armorPenetration: 0.93,
+    rangeModifier: 0.81,
+    fireRate: 3.7,
+    accuracy: 0.75,
+    magazineSize: 7,
+    reloadTime: 2200,
+    preferredBy: ['AWPer', 'Entry Fragger']
+  },
+
+  // SMGs
+  mac10: {
+    id: 'mac10',
+    name: 'MAC-10',
+    type: 'smg',
+    cost: 1050,
+    damage: 29,
+    armorPenetration: 0.575,
+    rangeModifier: 0.8,
+    fireRate: 13.3,
+    accuracy: 0.55,
+    magazineSize: 30,
+    reloadTime: 3150,
+    preferredBy: ['Entry Fragger', 'Lurker'],
+    side: 't'
+  },
+  mp9: {
+    id: 'mp9',
+    name: 'MP9',
+    type: 'smg',
+    cost: 1250,
+    damage: 26,
+    armorPenetration: 0.6,
+    rangeModifier: 0.87,
+    fireRate: 14.3,
+    accuracy: 0.6,
+    magazineSize: 30,
+    reloadTime: 2100,
+    preferredBy: ['Support', 'In-Game Leader'],
+    side: 'ct'
+  },
+
+  // Rifles
+  ak47: {
+    id: 'ak47',
+    name: 'AK-47',
+    type: 'rifle',
+    cost: 2700,
+    damage: 36,
+    armorPenetration: 0.775,
+    rangeModifier: 0.98,
+    fireRate: 10,
+    accuracy: 0.75,
+    magazineSize: 30,
+    reloadTime: 2430,
+    preferredBy: ['Entry Fragger', 'Lurker'],
+    side: 't'
+  },
+  m4a4: {
+    id: 'm4a4',
+    name: 'M4A4',
+    type: 'rifle',
+    cost: 3100,
+    damage: 33,
+    armorPenetration: 0.7,
+    rangeModifier: 0.97,
+    fireRate: 11.1,
+    accuracy: 0.8,
+    magazineSize: 30,
+    reloadTime: 3070,
+    preferredBy: ['Support', 'In-Game Leader'],
+    side: 'ct'
+  },
+  awp: {
+    id: 'awp',
+    name: 'AWP',
+    type: 'sniper',
+    cost: 4750,
+    damage: 115,
+    armorPenetration: 0.975,
+    rangeModifier: 0.99,
+    fireRate: 0.7,
+    accuracy: 0.95,
+    magazineSize: 5,
+    reloadTime: 3670,
+    preferredBy: ['AWPer']
+  }
+};
+
+export const EQUIPMENT: Record<string, Equipment> = {
+  kevlar: { id: 'kevlar', name: 'Kevlar Vest', type: 'armor', cost: 650, priority: 1 },
+  helmet: { id: 'helmet', name: 'Helmet', type: 'armor', cost: 350, priority: 2 },
+  defuse: { id: 'defuse', name: 'Defuse Kit', type: 'kit', cost: 400, priority: 3, ctOnly: true },
+  flash: { id: 'flash', name: 'Flashbang', type: 'utility', cost: 200, priority: 4 },
+  smoke: { id: 'smoke', name: 'Smoke Grenade', type: 'utility', cost: 300, priority: 5 },
+  molotov: { id: 'molotov', name: 'Molotov', type: 'utility', cost: 400, priority: 6 },
+  he: { id: 'he', name: 'HE Grenade', type: 'utility', cost: 300, priority: 7 }
+};
+
+// Effects of the throwable entries in EQUIPMENT, keyed by the same ids
+export const UTILITY: Record<string, Utility> = {
+  flash: { id: 'flash', type: 'flash', effect: { duration: 3000, radius: 60 } },
+  smoke: { id: 'smoke', type: 'smoke', effect: { duration: 18000, radius: 14 } },
+  molotov: { id: 'molotov', type: 'molotov', effect: { duration: 7000, radius: 12, damage: 30 } },
+  he: { id: 'he', type: 'he', effect: { duration: 0, radius: 25, damage: 57 } }
+};
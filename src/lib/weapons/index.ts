@@ -0,0 +1,66 @@
+// src/lib/weapons/index.ts
+import { EQUIPMENT, UTILITY, WEAPONS } from './catalogue';
+import type { Equipment, Side, Utility, Weapon } from '@/types/game';
+
+// Map units over which a weapon keeps `rangeModifier` of its damage (~500 game units)
+export const RANGE_UNIT = 40;
+export const HEADSHOT_MULTIPLIER = 4;
+
+// What each side spawns with, and respawns with after dying
+export const DEFAULT_PISTOLS: Record<'t' | 'ct', string> = { t: 'glock', ct: 'usp' };
+
+export function getWeapon(id: string): Weapon {
+  const weapon = WEAPONS[id];
+  if (!weapon) {
+    throw new Error(`Unknown weapon: ${id}`);
+  }
+  return weapon;
+}
+
+export function getEquipment(id: string): Equipment {
+  const item = EQUIPMENT[id];
+  if (!item) {
+    throw new Error(`Unknown equipment: ${id}`);
+  }
+  return item;
+}
+
+export function getUtility(id: string): Utility {
+  const utility = UTILITY[id];
+  if (!utility) {
+    throw new Error(`Unknown utility: ${id}`);
+  }
+  return utility;
+}
+
+export function isUtility(id: string): boolean {
+  return id in UTILITY;
+}
+
+export function isWeapon(id: string): boolean {
+  return id in WEAPONS;
+}
+
+export function isEquipment(id: string): boolean {
+  return id in EQUIPMENT;
+}
+
+// Side-specific guns and the CT-only kit; unknown ids cannot be bought at all
+export function canBuy(id: string, side: Side): boolean {
+  if (isWeapon(id)) return !WEAPONS[id].side || WEAPONS[id].side === side;
+  if (isEquipment(id)) return !EQUIPMENT[id].ctOnly || side === 'ct';
+  return false;
+}
+
+// Display name for anything in the catalogue, falling back to the raw id
+export function getItemName(id: string): string {
+  return WEAPONS[id]?.name ?? EQUIPMENT[id]?.name ?? id;
+}
+
+// Pistols are the fallback; an agent fights with the best long gun they carry
+export function getPrimaryWeapon(weapons: string[]): Weapon | null {
+  const owned = weapons.filter(isWeapon).map(getWeapon);
+  return owned.find(weapon => weapon.type !== 'pistol') ?? owned[0] ?? null;
+}
+
+export { EQUIPMENT, UTILITY, WEAPONS };
@@ -1,16 +1,31 @@
 // src/types/game.ts
+// Single source of truth for the match model shared by GameController, the
+// systems and the UI. Runtime validation for the same shapes lives in ./schemas.
 
 // Base Types
-export type Team = 't' | 'ct';
+export type Side = 't' | 'ct';
 export type MatchStatus = 'pending' | 'active' | 'paused' | 'ended';
 export type RoundPhase = 'warmup' | 'freezetime' | 'live' | 'planted' | 'ended';
+export type GamePhase = RoundPhase;
 export type GameEventType = 'kill' | 'damage' | 'plant' | 'defuse' | 'round_start' | 'round_end' | 'match_end' | 'strategy_change' | 'economy_update';
 export type GameDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
 export type StateListener = (state: GameState) => void;
 export type WeaponType = 'pistol' | 'smg' | 'rifle' | 'sniper' | 'heavy';
 export type UtilityType = 'flash' | 'smoke' | 'molotov' | 'he' | 'decoy';
 export type MapArea = 'A' | 'B' | 'Mid' | 'T_Spawn' | 'CT_Spawn';
+export type BombSite = 'A' | 'B';
 export type StrategyType = 'default' | 'rush' | 'split' | 'execute' | 'hold' | 'retake';
+export type AgentRole = 'Entry Fragger' | 'AWPer' | 'Support' | 'In-Game Leader' | 'Lurker';
+export type CombatResultType = 'kill' | 'damage' | 'utility' | 'trade' | 'assist';
+export type RoundEndCause = 'elimination' | 'bomb_detonated' | 'bomb_defused' | 'time';
+
+export const AGENT_ROLES: readonly AgentRole[] = [
+  'Entry Fragger',
+  'AWPer',
+  'Support',
+  'In-Game Leader',
+  'Lurker'
+];
 
 // Enhanced Position Interface
 export interface Position {
@@ -21,7 +36,7 @@ export interface Position {
   elevation?: number;
 }
 
-// Enhanced Agent Stats
+// Agent stats are all on a 0-1 scale
 export interface AgentStats {
   aim: number;
   reaction: number;
@@ -54,61 +69,105 @@ export interface StrategyStats {
   positioningScore: number;
   strategyAdherence: number;
   impactRating: number;
+  successfulCalls?: number;
+  failedCalls?: number;
   successRate?: number;
   adaptabilityScore?: number;
   teamCoordination?: number;
 }
 
-// Weapon and Equipment Interfaces
+// Weapon and Equipment Interfaces; the catalogue in lib/weapons holds the data
 export interface Weapon {
   id: string;
   name: string;
   type: WeaponType;
   cost: number;
-  damage: number;
-  accuracy: number;
-  fireRate: number;
+  damage: number; // body damage at point blank, before armor
+  armorPenetration: number; // share of damage that goes through armor, 0-1
+  rangeModifier: number; // damage kept per RANGE_UNIT map units travelled
+  fireRate: number; // shots per second
+  accuracy: number; // first-shot accuracy, 0-1
+  magazineSize: number;
+  reloadTime: number; // ms
+  preferredBy: AgentRole[];
+  side?: Side; // the only side that can buy it; both when omitted
+}
+
+export type EquipmentType = 'armor' | 'utility' | 'kit';
+
+export interface Equipment {
+  id: string;
+  name: string;
+  type: EquipmentType;
+  cost: number;
+  priority: number;
+  ctOnly?: boolean;
 }
 
+// What a grenade does once thrown; its price lives on the matching Equipment entry
 export interface Utility {
   id: string;
   type: UtilityType;
-  cost: number;
   effect: {
-    duration: number;
+    duration: number; // ms; for flashes the longest possible blind
     radius: number;
-    damage?: number;
+    damage?: number; // HE: at the centre; molotov: per second
   };
 }
 
-// Enhanced Agent Interface
+// Thrown utility in the world. Flashes and HE go off on landing; smokes and
+// molotovs stay until expiresAt (match time in ms)
+export interface UtilityEntity {
+  id: string;
+  type: UtilityType;
+  thrownBy: string;
+  side: Side;
+  position: Position;
+  radius: number;
+  thrownAt: number;
+  expiresAt: number;
+}
+
+// An agent's own wallet; spent and earned are match totals
+export interface AgentEconomy {
+  current: number;
+  spent: number;
+  earned: number;
+}
+
+// Agent as the engine simulates it. Weapons and equipment are catalogue ids.
 export interface Agent {
   id: string;
   name: string;
-  role: string;
-  team: Team;
+  role: AgentRole;
+  team: Side;
   position: Position;
   isAlive: boolean;
   health: number;
   armor: number;
-  weapons: Weapon[];
-  equipment: Utility[];
+  weapons: string[];
+  equipment: string[];
+  economy: AgentEconomy;
   stats: AgentStats;
   matchStats: MatchStats;
   strategyStats: StrategyStats;
-  economy: {
-    current: number;
-    loadoutValue: number;
-    savingThreshold?: number;
-  };
-  status: {
+  status?: {
     isFlashed?: boolean;
+    flashedUntil?: number;
     isScoped?: boolean;
     isReloading?: boolean;
     lastKnownPosition?: Position;
   };
 }
 
+// Roster entry before a match: who the agent is, not what they are doing
+export interface AgentProfile {
+  id: string;
+  name: string;
+  role: AgentRole;
+  stats: AgentStats;
+}
+
 // Enhanced Team Strategy Stats
 export interface TeamStrategyStats {
   roundsWonWithStrategy: { [key: string]: number };
@@ -117,27 +176,79 @@ export interface TeamStrategyStats {
   preferredStrategies?: string[];
   adaptabilityScore?: number;
   economyManagement?: number;
+  averageExecutionTime?: number;
+}
+
+export type BuyType = 'full' | 'force' | 'half' | 'save';
+
+// The economy planner's call for a side's next buy, made every freezetime
+export interface BuyPlan {
+  buyType: BuyType;
+  reasons: string[];
+  teamMoney: number;
+  // What the team would have next round after spending this plan and losing
+  minimumNextRound: number;
+}
+
+// A gun one agent bought for a teammate during freezetime; time is match time in ms
+export interface WeaponDrop {
+  id: string;
+  round: number;
+  donorId: string;
+  recipientId: string;
+  weapon: string;
+  cost: number;
+  time: number;
+}
+
+// One side's money over a finished round; lossBonus is the value for the next round
+export interface TeamRoundEconomy {
+  buyType: BuyType | null;
+  spent: number;
+  earned: number;
+  money: number;
+  lossBonus: number;
+}
+
+// Post-round economy report, built when the round is settled
+export interface RoundEconomyReport {
+  round: number;
+  teams: {
+    t: TeamRoundEconomy;
+    ct: TeamRoundEconomy;
+  };
+  drops: WeaponDrop[];
+}
+
+export type ScoutedRoundType = 'pistol' | 'eco' | 'gun';
+
+export interface CounterSuggestion {
+  strategy: string;
+  reason: string;
+}
+
+// The opponent's habits on the side they are playing now, for the side being advised
+export interface ScoutingReport {
+  side: Side;
+  roundType: ScoutedRoundType;
+  scouted: number; // rounds the report is based on
+  sites: Record<BombSite, number>;
+  averageContact: number | null;
+  averageUtility: number;
+  positions: { callout: string; count: number }[];
+  suggestions: CounterSuggestion[];
 }
 
 // Enhanced Team Interface
 export interface Team {
-  money: number;
+  money: number; // sum of the agents' wallets, kept in sync by the engine
   roundWins: number;
-  lossBonus: number;
+  lossBonus: number; // paid to each agent on the next loss; steps up on losses, down on wins
   timeoutAvailable: boolean;
   strategy: string;
   agents: Agent[];
+  economy: BuyPlan | null;
   strategyStats: TeamStrategyStats;
-  economy: {
-    totalValue: number;
-    averageValue: number;
-    buyType: 'full' | 'eco' | 'force' | 'semi';
-  };
-  performance: {
-    winStreak: number;
-    roundDominance: number;
-    utilityEfficiency: number;
-  };
 }
 
 // Strategy Interfaces
@@ -145,7 +256,7 @@ export interface Strategy {
   id: string;
   name: string;
   type: StrategyType;
-  team: Team;
+  side: Side;
   description: string;
   requirements: {
     minPlayers: number;
@@ -160,117 +271,194 @@ export interface Strategy {
   };
 }
 
-// Enhanced Match State
+// Played whenever regulation (or the previous overtime) ends tied. With
+// overtime disabled a tie stands and the match is a draw
+export interface OvertimeConfig {
+  enabled: boolean;
+  rounds: number; // per overtime, split into two halves (MR3 = 6)
+  startMoney: number; // every agent's money at the start of each overtime half
+}
+
+// Everything a lobby can tune about how a match is played. Times are in
+// seconds of match time; see RULES_PRESETS in lib/rules for the defaults
+export interface MatchRules {
+  warmupTime: number;
+  freezeTime: number;
+  roundTime: number;
+  bombTimer: number; // from plant to detonation
+  roundEndTime: number; // between a round ending and the next freezetime
+  halftimeTime: number; // replaces roundEndTime when sides swap
+  friendlyFire: boolean; // grenades and fire also hurt the thrower's team
+  startMoney: number; // every agent's money at the start of each regulation half
+  maxMoney: number;
+  tickRate: number; // simulation ticks per second
+  overtime: OvertimeConfig;
+}
+
+// One agent's line on the halftime screen
+export interface HalftimeAgentStats {
+  id: string;
+  name: string;
+  side: Side;
+  kills: number;
+  deaths: number;
+  assists: number;
+}
+
+// Taken when the first half ends; sides are the ones played in that half
+export interface HalftimeSummary {
+  round: number;
+  score: { t: number; ct: number };
+  agents: HalftimeAgentStats[];
+}
+
 export interface MatchState {
   id: string;
   status: MatchStatus;
   currentRound: number;
   maxRounds: number;
-  score: { t: number; ct: number };
-  winner: Team | null;
+  score: { t: number; ct: number }; // by current side; swaps with the teams at halftime
+  rules: MatchRules;
+  halftime: HalftimeSummary | null;
+  winner: Side | null;
   startTime: number | null;
   endTime: number | null;
   map: {
     name: string;
-    areas: MapArea[];
-    callouts: { [key: string]: Position };
-  };
-  teams: {
-    t: {
-      score: number;
-      money: number;
-      players: Agent[];
-    };
-    ct: {
-      score: number;
-      money: number;
-      players: Agent[];
-    };
+    areas: string[];
+    callouts: Record<string, any>;
   };
-  isMatchStarted: boolean;
 }
 
-// Enhanced Round State
+// A mid-round call made by one side; timestamp is match time in ms
+export interface MidRoundCall {
+  call: string;
+  side: Side;
+  issuedBy: string | null;
+  timestamp: number;
+}
+
+// A throw from the map's lineup library; position is where it actually landed
+export interface LineupThrow {
+  lineupId: string;
+  name: string;
+  agentId: string;
+  side: Side;
+  from: Position;
+  position: Position;
+  success: boolean;
+  time: number;
+}
+
+// A weapon lying on the map, dropped by a dead agent or one who picked up a better gun
+export interface GroundWeapon {
+  id: string;
+  weapon: string;
+  position: Position;
+  droppedBy: string;
+  droppedAt: number;
+}
+
+// A plant or defuse in progress; times are match time in ms
+export interface BombAction {
+  type: 'plant' | 'defuse';
+  agentId: string;
+  startedAt: number;
+  completesAt: number;
+  health: number; // the agent's health when starting; losing any cancels a plant
+}
+
+// The bomb is either carried by a T (carrierId) or on the ground at position,
+// dropped by a dead carrier or planted
+export interface BombState {
+  carrierId: string | null;
+  position: Position | null;
+  action: BombAction | null;
+}
+
 export interface RoundState {
   phase: RoundPhase;
   timeLeft: number;
   bombPlanted: boolean;
-  bombSite: 'A' | 'B' | null;
+  bombSite: BombSite | null;
   plantTime: number | null;
-  winner: Team | null;
+  winner: Side | null;
   endReason: string | null;
   currentStrategy: {
     t: string;
     ct: string;
   };
-  activeCall: string | null;
+  activeCalls: {
+    t: MidRoundCall | null;
+    ct: MidRoundCall | null;
+  };
+  callHistory: MidRoundCall[];
+  duels: DuelRecord[];
+  utility: UtilityEntity[];
+  lineups: LineupThrow[];
+  bomb: BombState;
+  groundWeapons: GroundWeapon[];
+  drops: WeaponDrop[];
+  economyReport: RoundEconomyReport | null;
+  scouting: Record<Side, ScoutingReport> | null; // built once per freezetime
   momentum: {
-    team: Team | null;
+    team: Side | null;
     factor: number;
   };
 }
 
-// Enhanced Game State
 export interface GameState {
-  match: {
-    id: string;
-    status: MatchStatus;
-    currentRound: number;
-    maxRounds: number;
-    score: { t: number; ct: number };
-    winner: Team | null;
-    startTime: number | null;
-    endTime: number | null;
-  };
-  round: {
-    phase: RoundPhase;
-    timeLeft: number;
-    bombPlanted: boolean;
-    bombSite: 'A' | 'B' | null;
-    plantTime: number | null;
-    winner: Team | null;
-    endReason: string | null;
-    currentStrategy: {
-      t: string;
-      ct: string;
-    };
-    activeCall: string | null;
-  };
+  match: MatchState;
+  round: RoundState;
   teams: {
     t: Team;
     ct: Team;
   };
   events: GameEvent[];
   combatResult: CombatResult | null;
+  meta: {
+    version: string;
+    timestamp: number;
+    tickRate: number;
+    seed: number;
+  };
 }
 
 // Enhanced Game Event
 export interface GameEvent {
+  id: string;
   type: GameEventType;
-  data: any;
+  data?: any;
   timestamp: number;
   round: number;
   location?: Position;
   impact?: number;
 }
 
-// Enhanced Game Config
+// Settings chosen in the lobby
 export interface GameConfig {
   maxRounds: number;
-  startingSide: Team;
+  startingSide: Side;
   initialStrategy: string;
   difficulty: GameDifficulty;
-  matchId: string;
-  serverSettings?: {
-    tickRate: number;
-    updateRate: number;
-    maxPlayers: number;
-  };
-  rules?: {
-    friendlyFire: boolean;
-    roundTime: number;
-    freezeTime: number;
-    bombTimer: number;
+  seed: number;
+  mapId: string;
+  rules: MatchRules;
+}
+
+// Input to GameController.initializeMatch; validated by MatchConfigSchema
+export interface MatchConfig {
+  playerTeam: AgentProfile[];
+  botTeam: AgentProfile[];
+  config: {
+    maxRounds: number;
+    startingSide: Side;
+    initialStrategy: string;
+    difficulty: GameDifficulty;
+    matchId: string;
+    seed?: number;
+    mapId?: string;
+    rules?: MatchRules;
   };
 }
 
@@ -285,18 +473,51 @@ export interface LoadoutConfig {
   };
 }
 
-// Enhanced Combat Result
+export interface CombatParticipant {
+  id: string;
+  name: string;
+  team: Side;
+  role: AgentRole;
+}
+
 export interface CombatResult {
-  type: 'kill' | 'damage' | 'utility';
-  killerId?: string;
-  victimId?: string;
-  weapon?: Weapon;
+  id: string;
+  type: CombatResultType;
+  attacker: CombatParticipant;
+  victim?: CombatParticipant;
+  weapon?: string;
   damage?: number;
-  timestamp: number;
-  position?: Position;
-  isWallbang?: boolean;
   isHeadshot?: boolean;
+  isStrategyKill?: boolean;
+  isTradeKill?: boolean;
+  isWallbang?: boolean;
   throughSmoke?: boolean;
+  position?: Position;
+  timestamp: number;
+}
+
+export type DuelOutcome = 'kill' | 'disengaged';
+
+export interface DuelShot {
+  shooter: string;
+  time: number;
+  hit: boolean;
+  damage: number;
+  isHeadshot: boolean;
+}
+
+// A finished exchange of fire between two agents; times are match time in ms
+export interface DuelRecord {
+  id: string;
+  round: number;
+  participants: [CombatParticipant, CombatParticipant];
+  initiator: string;
+  startTime: number;
+  endTime: number;
+  firstShooter: string | null;
+  winner: string | null;
+  outcome: DuelOutcome;
+  shots: DuelShot[];
 }
 
 // System Error Interface
@@ -318,4 +539,4 @@ export interface GameSystemState {
     ping: number;
     tickRate: number;
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,372 @@
+// src/types/schemas.ts
+// Runtime validation for data crossing into the engine: match setup from the
+// UI, saved games and replay snapshots. Each schema is checked against the
+// matching interface in ./game so the two cannot drift apart.
+import { z } from 'zod';
+import type { AgentProfile, GameState, MatchConfig } from './game';
+
+const SideSchema = z.enum(['t', 'ct']);
+
+export const AgentRoleSchema = z.enum(['Entry Fragger', 'AWPer', 'Support', 'In-Game Leader', 'Lurker']);
+
+const BuyTypeSchema = z.enum(['full', 'force', 'half', 'save']);
+
+const OvertimeConfigSchema = z.object({
+  enabled: z.boolean(),
+  rounds: z.number().int().positive().refine(rounds => rounds % 2 === 0, 'Overtime needs two equal halves'),
+  startMoney: z.number().nonnegative()
+});
+
+export const MatchRulesSchema = z.object({
+  warmupTime: z.number().nonnegative(),
+  freezeTime: z.number().nonnegative(),
+  roundTime: z.number().positive(),
+  bombTimer: z.number().positive(),
+  roundEndTime: z.number().nonnegative(),
+  halftimeTime: z.number().nonnegative(),
+  friendlyFire: z.boolean(),
+  startMoney: z.number().nonnegative(),
+  maxMoney: z.number().positive(),
+  tickRate: z.number().int().positive(),
+  overtime: OvertimeConfigSchema
+}).refine(rules => rules.startMoney <= rules.maxMoney && rules.overtime.startMoney <= rules.maxMoney, {
+  message: 'Starting money cannot exceed the money cap'
+});
+
+const StatSchema = z.number().min(0).max(1);
+
+const PositionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  angle: z.number().optional(),
+  area: z.enum(['A', 'B', 'Mid', 'T_Spawn', 'CT_Spawn']).optional(),
+  elevation: z.number().optional()
+});
+
+export const AgentStatsSchema = z.object({
+  aim: StatSchema,
+  reaction: StatSchema,
+  positioning: StatSchema,
+  utility: StatSchema,
+  leadership: StatSchema,
+  clutch: StatSchema,
+  gameAwareness: StatSchema.optional(),
+  economyManagement: StatSchema.optional(),
+  teamwork: StatSchema.optional()
+});
+
+export const AgentProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  role: AgentRoleSchema,
+  stats: AgentStatsSchema
+});
+
+const MatchStatsSchema = z.object({
+  kills: z.number(),
+  deaths: z.number(),
+  assists: z.number(),
+  utilityDamage: z.number(),
+  flashAssists: z.number(),
+  headshotPercentage: z.number().optional(),
+  damagePerRound: z.number().optional(),
+  tradingSuccess: z.number().optional(),
+  entrySuccess: z.number().optional(),
+  clutchesWon: z.number().optional()
+});
+
+const StrategyStatsSchema = z.object({
+  utilityUsage: z.number(),
+  positioningScore: z.number(),
+  strategyAdherence: z.number(),
+  impactRating: z.number(),
+  successfulCalls: z.number().optional(),
+  failedCalls: z.number().optional(),
+  successRate: z.number().optional(),
+  adaptabilityScore: z.number().optional(),
+  teamCoordination: z.number().optional()
+});
+
+export const AgentSchema = AgentProfileSchema.extend({
+  team: SideSchema,
+  position: PositionSchema,
+  isAlive: z.boolean(),
+  health: z.number(),
+  armor: z.number(),
+  weapons: z.array(z.string()),
+  equipment: z.array(z.string()),
+  economy: z.object({
+    current: z.number(),
+    spent: z.number(),
+    earned: z.number()
+  }),
+  matchStats: MatchStatsSchema,
+  strategyStats: StrategyStatsSchema,
+  status: z.object({
+    isFlashed: z.boolean().optional(),
+    flashedUntil: z.number().optional(),
+    isScoped: z.boolean().optional(),
+    isReloading: z.boolean().optional(),
+    lastKnownPosition: PositionSchema.optional()
+  }).optional()
+});
+
+const TeamSchema = z.object({
+  money: z.number(),
+  roundWins: z.number(),
+  lossBonus: z.number(),
+  timeoutAvailable: z.boolean(),
+  strategy: z.string(),
+  agents: z.array(AgentSchema),
+  economy: z.object({
+    buyType: BuyTypeSchema,
+    reasons: z.array(z.string()),
+    teamMoney: z.number(),
+    minimumNextRound: z.number()
+  }).nullable(),
+  strategyStats: z.object({
+    roundsWonWithStrategy: z.record(z.number()),
+    strategySuccessRate: z.number(),
+    lastSuccessfulStrategy: z.string(),
+    preferredStrategies: z.array(z.string()).optional(),
+    adaptabilityScore: z.number().optional(),
+    economyManagement: z.number().optional(),
+    averageExecutionTime: z.number().optional()
+  })
+});
+
+const CombatParticipantSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  team: SideSchema,
+  role: AgentRoleSchema
+});
+
+export const CombatResultSchema = z.object({
+  id: z.string(),
+  type: z.enum(['kill', 'damage', 'utility', 'trade', 'assist']),
+  attacker: CombatParticipantSchema,
+  victim: CombatParticipantSchema.optional(),
+  weapon: z.string().optional(),
+  damage: z.number().optional(),
+  isHeadshot: z.boolean().optional(),
+  isStrategyKill: z.boolean().optional(),
+  isTradeKill: z.boolean().optional(),
+  isWallbang: z.boolean().optional(),
+  throughSmoke: z.boolean().optional(),
+  position: PositionSchema.optional(),
+  timestamp: z.number()
+});
+
+const DuelRecordSchema = z.object({
+  id: z.string(),
+  round: z.number().int(),
+  participants: z.tuple([CombatParticipantSchema, CombatParticipantSchema]),
+  initiator: z.string(),
+  startTime: z.number(),
+  endTime: z.number(),
+  firstShooter: z.string().nullable(),
+  winner: z.string().nullable(),
+  outcome: z.enum(['kill', 'disengaged']),
+  shots: z.array(z.object({
+    shooter: z.string(),
+    time: z.number(),
+    hit: z.boolean(),
+    damage: z.number(),
+    isHeadshot: z.boolean()
+  }))
+});
+
+const UtilityEntitySchema = z.object({
+  id: z.string(),
+  type: z.enum(['flash', 'smoke', 'molotov', 'he', 'decoy']),
+  thrownBy: z.string(),
+  side: SideSchema,
+  position: PositionSchema,
+  radius: z.number(),
+  thrownAt: z.number(),
+  expiresAt: z.number()
+});
+
+const LineupThrowSchema = z.object({
+  lineupId: z.string(),
+  name: z.string(),
+  agentId: z.string(),
+  side: SideSchema,
+  from: PositionSchema,
+  position: PositionSchema,
+  success: z.boolean(),
+  time: z.number()
+});
+
+const GroundWeaponSchema = z.object({
+  id: z.string(),
+  weapon: z.string(),
+  position: PositionSchema,
+  droppedBy: z.string(),
+  droppedAt: z.number()
+});
+
+const WeaponDropSchema = z.object({
+  id: z.string(),
+  round: z.number().int(),
+  donorId: z.string(),
+  recipientId: z.string(),
+  weapon: z.string(),
+  cost: z.number(),
+  time: z.number()
+});
+
+const TeamRoundEconomySchema = z.object({
+  buyType: BuyTypeSchema.nullable(),
+  spent: z.number(),
+  earned: z.number(),
+  money: z.number(),
+  lossBonus: z.number()
+});
+
+const RoundEconomyReportSchema = z.object({
+  round: z.number().int(),
+  teams: z.object({
+    t: TeamRoundEconomySchema,
+    ct: TeamRoundEconomySchema
+  }),
+  drops: z.array(WeaponDropSchema)
+});
+
+const ScoutingReportSchema = z.object({
+  side: SideSchema,
+  roundType: z.enum(['pistol', 'eco', 'gun']),
+  scouted: z.number().int().nonnegative(),
+  sites: z.object({ A: z.number().int(), B: z.number().int() }),
+  averageContact: z.number().nullable(),
+  averageUtility: z.number(),
+  positions: z.array(z.object({ callout: z.string(), count: z.number().int() })),
+  suggestions: z.array(z.object({ strategy: z.string(), reason: z.string() }))
+});
+
+const BombStateSchema = z.object({
+  carrierId: z.string().nullable(),
+  position: PositionSchema.nullable(),
+  action: z.object({
+    type: z.enum(['plant', 'defuse']),
+    agentId: z.string(),
+    startedAt: z.number(),
+    completesAt: z.number(),
+    health: z.number()
+  }).nullable()
+});
+
+const MidRoundCallSchema = z.object({
+  call: z.string(),
+  side: SideSchema,
+  issuedBy: z.string().nullable(),
+  timestamp: z.number()
+});
+
+const GameEventSchema = z.object({
+  id: z.string(),
+  type: z.enum(['kill', 'damage', 'plant', 'defuse', 'round_start', 'round_end', 'match_end', 'strategy_change', 'economy_update']),
+  data: z.any(),
+  timestamp: z.number(),
+  round: z.number(),
+  location: PositionSchema.optional(),
+  impact: z.number().optional()
+});
+
+export const GameStateSchema = z.object({
+  match: z.object({
+    id: z.string(),
+    status: z.enum(['pending', 'active', 'paused', 'ended']),
+    currentRound: z.number().int(),
+    maxRounds: z.number().int().positive(),
+    score: z.object({ t: z.number(), ct: z.number() }),
+    rules: MatchRulesSchema,
+    halftime: z.object({
+      round: z.number().int(),
+      score: z.object({ t: z.number(), ct: z.number() }),
+      agents: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        side: SideSchema,
+        kills: z.number(),
+        deaths: z.number(),
+        assists: z.number()
+      }))
+    }).nullable(),
+    winner: SideSchema.nullable(),
+    startTime: z.number().nullable(),
+    endTime: z.number().nullable(),
+    map: z.object({
+      name: z.string(),
+      areas: z.array(z.string()),
+      callouts: z.record(z.any())
+    })
+  }),
+  round: z.object({
+    phase: z.enum(['warmup', 'freezetime', 'live', 'planted', 'ended']),
+    timeLeft: z.number(),
+    bombPlanted: z.boolean(),
+    bombSite: z.enum(['A', 'B']).nullable(),
+    plantTime: z.number().nullable(),
+    winner: SideSchema.nullable(),
+    endReason: z.string().nullable(),
+    currentStrategy: z.object({ t: z.string(), ct: z.string() }),
+    activeCalls: z.object({
+      t: MidRoundCallSchema.nullable(),
+      ct: MidRoundCallSchema.nullable()
+    }),
+    callHistory: z.array(MidRoundCallSchema),
+    duels: z.array(DuelRecordSchema),
+    utility: z.array(UtilityEntitySchema),
+    lineups: z.array(LineupThrowSchema),
+    bomb: BombStateSchema,
+    groundWeapons: z.array(GroundWeaponSchema),
+    drops: z.array(WeaponDropSchema),
+    economyReport: RoundEconomyReportSchema.nullable(),
+    scouting: z.object({ t: ScoutingReportSchema, ct: ScoutingReportSchema }).nullable(),
+    momentum: z.object({
+      team: SideSchema.nullable(),
+      factor: z.number()
+    })
+  }),
+  teams: z.object({
+    t: TeamSchema,
+    ct: TeamSchema
+  }),
+  events: z.array(GameEventSchema),
+  combatResult: CombatResultSchema.nullable(),
+  meta: z.object({
+    version: z.string(),
+    timestamp: z.number(),
+    tickRate: z.number().positive(),
+    seed: z.number()
+  })
+});
+
+export const MatchConfigSchema = z.object({
+  playerTeam: z.array(AgentProfileSchema).length(5),
+  botTeam: z.array(AgentProfileSchema).length(5),
+  config: z.object({
+    maxRounds: z.number().int().positive(),
+    startingSide: SideSchema,
+    initialStrategy: z.string(),
+    difficulty: z.enum(['easy', 'medium', 'hard', 'expert']),
+    matchId: z.string(),
+    seed: z.number().int().nonnegative().optional(),
+    mapId: z.string().optional(),
+    rules: MatchRulesSchema.optional()
+  })
+}).refine(({ playerTeam, botTeam }) => {
+  const ids = [...playerTeam, ...botTeam].map(agent => agent.id);
+  return new Set(ids).size === ids.length;
+}, { message: 'Agent ids must be unique across both teams' });
+
+// Compile-time checks that each schema produces exactly its interface
+type Exact<A, B> = [A] extends [B] ? ([B] extends [A] ? true : never) : never;
+const agentProfileMatches: Exact<z.infer<typeof AgentProfileSchema>, AgentProfile> = true;
+const gameStateMatches: Exact<z.infer<typeof GameStateSchema>, GameState> = true;
+const matchConfigMatches: Exact<z.infer<typeof MatchConfigSchema>, MatchConfig> = true;
+void agentProfileMatches;
+void gameStateMatches;
+void matchConfigMatches;